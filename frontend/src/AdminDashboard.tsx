@@ -7,7 +7,7 @@ import {
   RefreshCw, Trash2, Home, Activity, XCircle, Clock, Globe,
   TrendingUp, Image as ImageIcon, BarChart3, LineChart, PieChart, Database,
   FileText, Search, Zap, Server,
-  Layers, ChevronLeft, ChevronRight, Package, Download, CheckCircle, Lock, LogOut
+  Layers, ChevronLeft, ChevronRight, Package, Download, CheckCircle, Lock, LogOut, ShieldCheck
 } from 'lucide-react';
 import {
   BarChart, Bar, PieChart as RechartsPie, Pie, Cell,
@@ -35,6 +35,7 @@ interface MetricsData {
     successRate: number;
     activeRenders: number;
     avgProcessingTime: number;
+    coalesced: number;
     recentRenders: RenderMetric[];
   };
   browserStatus: {
@@ -118,6 +119,12 @@ interface Schema {
   dimensions_x: number | null;
   dimensions_y: number | null;
   dimensions_z: number | null;
+  palette_size: number | null;
+  schematic_format: string | null;
+  format_version: number | null;
+  schematic_name: string | null;
+  schematic_author: string | null;
+  metadata_extracted_at: number | null;
   access_count: number;
   last_accessed: number | null;
   created_at: number;
@@ -211,6 +218,42 @@ interface BatchStats {
   };
 }
 
+interface IntegrityIssue {
+  key: string;
+  size?: number;
+  references?: string[];
+}
+
+interface IntegrityReport {
+  startedAt: number;
+  duration: number;
+  driver: string;
+  repair: boolean;
+  verifyHashes: boolean;
+  storedFiles: number;
+  storedBytes: number;
+  referencedFiles: number;
+  orphans: IntegrityIssue[];
+  recentOrphans: number;
+  missing: IntegrityIssue[];
+  corrupt: IntegrityIssue[];
+  repaired: {
+    deletedFiles: number;
+    deletedRows: number;
+    failedRenders: number;
+  } | null;
+}
+
+interface IntegrityScanProgress {
+  startedAt: number;
+  driver: string;
+  repair: boolean;
+  verifyHashes: boolean;
+  scannedFiles: number;
+  scannedBytes: number;
+  referencedFiles: number;
+}
+
 // Thumbnail component with error handling
 function ThumbnailImage({ fileHash, filename }: { fileHash: string; filename: string }) {
   const [hasError, setHasError] = useState(false);
@@ -250,6 +293,9 @@ export function AdminDashboard() {
   const [batchStats, setBatchStats] = useState<BatchStats | null>(null);
   const [selectedBatch, setSelectedBatch] = useState<BatchJob | null>(null);
   const [batchItems, setBatchItems] = useState<BatchItem[]>([]);
+  const [integrityReport, setIntegrityReport] = useState<IntegrityReport | null>(null);
+  const [integrityScan, setIntegrityScan] = useState<IntegrityScanProgress | null>(null);
+  const [integrityError, setIntegrityError] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [autoRefresh, setAutoRefresh] = useState(true);
@@ -401,6 +447,40 @@ export function AdminDashboard() {
     }
   };
 
+  const fetchIntegrityReport = async () => {
+    try {
+      const response = await authenticatedFetch('/api/admin/integrity');
+      const data = await response.json();
+      setIntegrityReport(data.report);
+      setIntegrityScan(data.scan);
+      setIntegrityError(data.error);
+    } catch (err: any) {
+      console.error('Error fetching integrity report:', err);
+    }
+  };
+
+  const runIntegrityScan = async (repair: boolean, verify = false) => {
+    if (repair && !confirm('Delete orphaned and corrupt files, and the records of missing ones?')) return;
+    if (verify && !confirm('Re-hash every stored file? This reads the whole of storage and may take a long time.')) return;
+
+    try {
+      const response = await authenticatedFetch(`/api/admin/integrity/scan?repair=${repair}&verify=${verify}`, { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Integrity scan failed');
+      setIntegrityScan(data.scan);
+      setIntegrityError(null);
+    } catch (err: any) {
+      alert('Error scanning storage: ' + err.message);
+    }
+  };
+
+  // Poll the scan running in the background until it finishes
+  useEffect(() => {
+    if (!integrityScan) return;
+    const timeout = setTimeout(fetchIntegrityReport, 2000);
+    return () => clearTimeout(timeout);
+  }, [integrityScan]);
+
   const resetMetrics = async () => {
     if (!confirm('Are you sure you want to reset all metrics?')) return;
 
@@ -425,6 +505,7 @@ export function AdminDashboard() {
       fetchInsights(),
       fetchBatchJobs(),
       fetchBatchStats(),
+      fetchIntegrityReport(),
     ]);
     setLoading(false);
   };
@@ -736,7 +817,9 @@ export function AdminDashboard() {
                   </CardHeader>
                   <CardContent>
                     <div className="text-2xl font-bold">{metrics.renderMetrics.activeRenders}</div>
-                    <p className="text-xs text-muted-foreground">Currently processing</p>
+                    <p className="text-xs text-muted-foreground">
+                      Currently processing, {metrics.renderMetrics.coalesced} duplicate requests joined
+                    </p>
                   </CardContent>
                 </Card>
 
@@ -946,6 +1029,20 @@ export function AdminDashboard() {
                                     {schema.dimensions_x} × {schema.dimensions_y} × {schema.dimensions_z}
                                   </div>
                                 )}
+                                {schema.block_count !== null && (
+                                  <div className="flex items-center justify-between text-xs text-muted-foreground">
+                                    <span>{schema.block_count.toLocaleString()} blocks</span>
+                                    {schema.palette_size !== null && <span>{schema.palette_size} states</span>}
+                                  </div>
+                                )}
+                                {schema.schematic_format && (
+                                  <div className="text-xs text-muted-foreground truncate">
+                                    .{schema.schematic_format}
+                                    {schema.format_version !== null && ` v${schema.format_version}`}
+                                    {schema.schematic_name && ` · ${schema.schematic_name}`}
+                                    {schema.schematic_author && ` by ${schema.schematic_author}`}
+                                  </div>
+                                )}
                                 <div className="flex items-center justify-between text-xs pt-1 border-t">
                                   <span className="text-muted-foreground">
                                     {schema.successful_renders} success, {schema.failed_renders} failed
@@ -1727,6 +1824,115 @@ export function AdminDashboard() {
                   </CardContent>
                 </Card>
               )}
+
+              <Card>
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <CardTitle className="flex items-center gap-2">
+                        <ShieldCheck className="h-5 w-5" />
+                        Storage Integrity
+                      </CardTitle>
+                      <CardDescription>
+                        Files nothing refers to, records whose file is missing, and files that fail their hash check
+                      </CardDescription>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button onClick={() => runIntegrityScan(false)} variant="outline" size="sm" disabled={!!integrityScan}>
+                        <RefreshCw className={`h-4 w-4 mr-2 ${integrityScan ? 'animate-spin' : ''}`} />
+                        Scan
+                      </Button>
+                      <Button onClick={() => runIntegrityScan(false, true)} variant="outline" size="sm" disabled={!!integrityScan}>
+                        <ShieldCheck className="h-4 w-4 mr-2" />
+                        Verify Hashes
+                      </Button>
+                      <Button onClick={() => runIntegrityScan(true)} variant="destructive" size="sm" disabled={!!integrityScan}>
+                        <Trash2 className="h-4 w-4 mr-2" />
+                        Scan &amp; Repair
+                      </Button>
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  {integrityScan && (
+                    <p className="mb-4 text-sm text-muted-foreground">
+                      Scanning storage{integrityScan.verifyHashes ? ' and verifying hashes' : ''}: {integrityScan.scannedFiles.toLocaleString()} of ~{integrityScan.referencedFiles.toLocaleString()} files ({formatBytes(integrityScan.scannedBytes)}) so far
+                    </p>
+                  )}
+                  {integrityError && !integrityScan && (
+                    <p className="mb-4 text-sm text-destructive">Last scan failed: {integrityError}</p>
+                  )}
+                  {!integrityReport ? (
+                    <div className="text-center py-8 text-muted-foreground">
+                      <ShieldCheck className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                      <p>{integrityScan ? 'Waiting for the first report...' : 'No scan has run since the server started'}</p>
+                    </div>
+                  ) : (
+                    <div className="space-y-6">
+                      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+                        <div className="space-y-1">
+                          <p className="text-sm text-muted-foreground">Stored Files</p>
+                          <p className="text-2xl font-bold">{integrityReport.storedFiles.toLocaleString()}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {formatBytes(integrityReport.storedBytes)} on {integrityReport.driver}
+                          </p>
+                        </div>
+                        <div className="space-y-1">
+                          <p className="text-sm text-muted-foreground">Orphaned</p>
+                          <p className="text-2xl font-bold">{integrityReport.orphans.length}</p>
+                          {integrityReport.recentOrphans > 0 && (
+                            <p className="text-xs text-muted-foreground">
+                              {integrityReport.recentOrphans} more too recent to judge
+                            </p>
+                          )}
+                        </div>
+                        <div className="space-y-1">
+                          <p className="text-sm text-muted-foreground">Missing</p>
+                          <p className="text-2xl font-bold">{integrityReport.missing.length}</p>
+                        </div>
+                        <div className="space-y-1">
+                          <p className="text-sm text-muted-foreground">Corrupt</p>
+                          <p className="text-2xl font-bold">
+                            {integrityReport.verifyHashes ? integrityReport.corrupt.length : 'N/A'}
+                          </p>
+                        </div>
+                      </div>
+
+                      <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                        <span>Scanned {new Date(integrityReport.startedAt).toLocaleString()} in {formatDuration(integrityReport.duration)}</span>
+                        {integrityReport.repaired && (
+                          <Badge variant="secondary">
+                            Repaired: {integrityReport.repaired.deletedFiles} files deleted, {integrityReport.repaired.deletedRows} records removed, {integrityReport.repaired.failedRenders} renders invalidated
+                          </Badge>
+                        )}
+                      </div>
+
+                      {([
+                        ['Orphaned files', integrityReport.orphans],
+                        ['Missing files', integrityReport.missing],
+                        ['Corrupt files', integrityReport.corrupt],
+                      ] as const).filter(([, issues]) => issues.length > 0).map(([title, issues]) => (
+                        <div key={title}>
+                          <h4 className="text-sm font-medium mb-2">{title}</h4>
+                          <div className="space-y-1">
+                            {issues.slice(0, 20).map((issue) => (
+                              <div key={issue.key} className="flex items-center justify-between gap-4 text-xs border rounded p-2 bg-muted/30">
+                                <code className="truncate">{issue.key}</code>
+                                <span className="text-muted-foreground shrink-0">
+                                  {issue.references?.length ? issue.references.join(', ') : issue.size !== undefined ? formatBytes(issue.size) : ''}
+                                </span>
+                              </div>
+                            ))}
+                            {issues.length > 20 && (
+                              <p className="text-xs text-muted-foreground">and {issues.length - 20} more</p>
+                            )}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
             </TabsContent>
           </Tabs>
         )}
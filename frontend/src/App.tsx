@@ -5,6 +5,20 @@ import * as THREE from "three";
 (window as any).THREE = THREE;
 import { FFmpeg } from "@ffmpeg/ffmpeg";
 import { toBlobURL } from "@ffmpeg/util";
+import {
+	applyCameraSpec,
+	createCameraMotion,
+	createKeyframeMotion,
+	driveCamera,
+	getSceneFrame,
+	type CameraKeyframe,
+	type CameraPathType,
+	type CameraSpec,
+} from "./lib/camera-paths";
+import { transcodeVideo, type VideoFormat } from "./lib/video-transcode";
+import { addBlockHighlights, type BlockHighlight } from "./lib/block-highlights";
+import { addLayerGrid, clipToLayers, createBuildAnimation, type LayerRange } from "./lib/layer-view";
+import { applyCutaway, type ClipPlane } from "./lib/cutaway";
 
 const ffmpeg = new FFmpeg();
 
@@ -32,14 +46,27 @@ declare global {
 				width?: number;
 				height?: number;
 				frameRate?: number;
+				cameraPath?: CameraPathType;
+				camera?: CameraSpec;
+				cameraKeyframes?: CameraKeyframe[];
+				format?: VideoFormat;
+				maxFileSize?: number;
+				animation?: "build";
+				layersPerSecond?: number;
+				holdSeconds?: number;
 			}) => Promise<Blob>;
 			takeScreenshot: (options?: any) => Promise<Blob>;
 			downloadScreenshot: (options?: any) => Promise<void>;
 			isReady: () => boolean;
 			waitForReady: () => Promise<boolean>;
 			clearScene: () => Promise<void>;
+			setBlockHighlights: (highlights: BlockHighlight[]) => void;
+			setClipping: (range: LayerRange | null) => void;
+			setLayerGrid: (layer: number | null) => void;
+			setCutaway: (clip: ClipPlane | null) => void;
 		};
 		schematicRendererInitialized?: boolean; // Made optional
+		videoRecordingStage?: "recording" | "encoding"; // Polled by puppeteer to report progress
 		rendererRef?: any; // Expose for debugging in puppeteer
 	}
 }
@@ -51,8 +78,23 @@ export function App() {
 		"initializing"
 	);
 	const [currentSchematic, setCurrentSchematic] = useState<string>("none");
+	// Removal functions for scene overlays (highlights, clipping, grid), cleared with the schematic
+	const overlaysRef = useRef<Record<string, () => void>>({});
 
 
+	const setOverlay = (key: string, remove: (() => void) | null) => {
+		overlaysRef.current[key]?.();
+		delete overlaysRef.current[key];
+		if (remove) overlaysRef.current[key] = remove;
+		rendererRef.current?.renderManager?.render();
+	};
+
+	// Newest first, since clipping overlays restore the planes that were in place before them
+	const clearOverlays = () => {
+		for (const remove of Object.values(overlaysRef.current).reverse()) remove();
+		overlaysRef.current = {};
+	};
+
 	useEffect(() => {
 		let mounted = true;
 
@@ -215,6 +257,7 @@ export function App() {
 							throw new Error("Renderer not initialized");
 						}
 						const buffer = typeof data === "string" ? base64ToArrayBuffer(data) : data;
+						clearOverlays();
 						try {
 							await rendererRef.current.schematicManager.removeAllSchematics();
 						} catch (e) {}
@@ -230,19 +273,70 @@ export function App() {
 						if (!rendererRef.current?.cameraManager?.recordingManager) {
 							throw new Error("Recording manager not available");
 						}
-						const recordingOptions = { duration: 4, width: 1920, height: 1080, frameRate: 24, ...options };
+						const recordingOptions = { duration: 4, width: 1920, height: 1080, frameRate: 24, cameraPath: "circular" as CameraPathType, format: "video/webm" as VideoFormat, ...options };
 						rendererRef.current.cameraManager.cameraPathManager.fitCircularPathToSchematics("circularPath");
 						rendererRef.current.cameraManager.cameraPathManager.hidePathVisualization("circularPath");
+
+						// Build timelapses reveal the layers bottom-to-top and may set their own length
+						const build = recordingOptions.animation === "build"
+							? createBuildAnimation(rendererRef.current, recordingOptions.duration, recordingOptions)
+							: null;
+						if (build) recordingOptions.duration = build.duration;
+
+						// Keyframes and paths other than circular override the camera on every recorded frame
+						const scene = rendererRef.current.sceneManager?.scene as THREE.Scene | undefined;
+						const camera = rendererRef.current.cameraManager.activeCamera?.camera as THREE.Camera | undefined;
+						// An explicit camera spec sets the starting shot that the path moves from
+						const restoreLens = camera && recordingOptions.camera
+							? applyCameraSpec(rendererRef.current, camera, recordingOptions.camera)
+							: () => {};
+						const frame = camera ? getSceneFrame(rendererRef.current, camera) : null;
+						const motion = !scene || !frame
+							? null
+							: recordingOptions.cameraKeyframes?.length
+								? createKeyframeMotion(recordingOptions.cameraKeyframes, recordingOptions.duration, frame)
+								: createCameraMotion(recordingOptions.cameraPath, frame);
+						let progress = 0;
+						const restoreMotion = motion ? driveCamera(scene!, camera!, motion, () => progress) : () => {};
+						const restoreCamera = () => {
+							restoreMotion();
+							restoreLens();
+							build?.remove();
+						};
+						console.log(`🎬 Recording with camera path: ${recordingOptions.cameraKeyframes?.length ? `${recordingOptions.cameraKeyframes.length} keyframes` : recordingOptions.cameraPath}`);
+						window.videoRecordingStage = "recording";
+
 						return new Promise<Blob>((resolve, reject) => {
 							rendererRef.current!.cameraManager.recordingManager
 								.startRecording(recordingOptions.duration, {
 									width: recordingOptions.width,
 									height: recordingOptions.height,
 									frameRate: recordingOptions.frameRate,
-									onProgress: (p) => console.log(`Recording progress: ${p}%`),
-									onComplete: (blob) => resolve(blob),
+									onProgress: (p) => {
+										progress = p / 100;
+										build?.update(progress);
+										console.log(`Recording progress: ${p}%`);
+									},
+									onComplete: (blob) => {
+										restoreCamera();
+										window.videoRecordingStage = "encoding";
+										// The recorder produces WebM; other formats are transcoded with the same ffmpeg instance
+										transcodeVideo(ffmpeg, blob, recordingOptions.format, {
+											width: recordingOptions.width,
+											frameRate: recordingOptions.frameRate,
+											maxFileSize: recordingOptions.maxFileSize,
+										})
+											.then(resolve, reject)
+											.finally(() => {
+												window.videoRecordingStage = undefined;
+											});
+									},
 								})
-								.catch(reject);
+								.catch((error) => {
+									restoreCamera();
+									window.videoRecordingStage = undefined;
+									reject(error);
+								});
 						});
 					},
 					takeScreenshot: async (options = {}): Promise<Blob> => {
@@ -262,11 +356,15 @@ export function App() {
 						renderer?.setSize(targetWidth, targetHeight, false);
 						if (camera) { camera.aspect = targetWidth / targetHeight; camera.updateProjectionMatrix(); }
 						await rendererRef.current.cameraManager.focusOnSchematics({ animationDuration: 0, padding: 0.15 });
+						const restoreLens = camera && screenshotOptions.camera
+							? applyCameraSpec(rendererRef.current, camera, screenshotOptions.camera)
+							: () => {};
 						for (let i = 0; i < 3; i++) {
 							rendererRef.current.renderManager?.render();
 							await new Promise(resolve => requestAnimationFrame(resolve));
 						}
 						const blob = await rendererRef.current.cameraManager.recordingManager.takeScreenshot(screenshotOptions);
+						restoreLens();
 						renderer?.setSize(originalWidth, originalHeight, false);
 						renderer?.setPixelRatio(originalPixelRatio);
 						if (camera) { camera.aspect = originalAspect; camera.updateProjectionMatrix(); }
@@ -282,10 +380,27 @@ export function App() {
 					},
 					clearScene: async (): Promise<void> => {
 						if (!rendererRef.current?.schematicManager) throw new Error("Renderer not initialized");
+						clearOverlays();
 						rendererRef.current.schematicManager.removeAllSchematics();
 						setCurrentSchematic("none");
 						return new Promise((resolve) => requestAnimationFrame(() => setTimeout(resolve, 100)));
 					},
+					setBlockHighlights: (highlights: BlockHighlight[]): void => {
+						if (!rendererRef.current) throw new Error("Renderer not initialized");
+						setOverlay("highlights", addBlockHighlights(rendererRef.current, highlights));
+					},
+					setClipping: (range: LayerRange | null): void => {
+						if (!rendererRef.current) throw new Error("Renderer not initialized");
+						setOverlay("clipping", range ? clipToLayers(rendererRef.current, range) : null);
+					},
+					setLayerGrid: (layer: number | null): void => {
+						if (!rendererRef.current) throw new Error("Renderer not initialized");
+						setOverlay("grid", layer !== null ? addLayerGrid(rendererRef.current, layer) : null);
+					},
+					setCutaway: (clip: ClipPlane | null): void => {
+						if (!rendererRef.current) throw new Error("Renderer not initialized");
+						setOverlay("cutaway", clip ? applyCutaway(rendererRef.current, clip) : null);
+					},
 					isReady: (): boolean => !!(rendererRef.current && window.schematicRendererInitialized),
 					waitForReady: (): Promise<boolean> => {
 						return new Promise((resolve) => {
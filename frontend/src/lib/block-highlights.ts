@@ -0,0 +1,103 @@
+import * as THREE from "three";
+
+// Mirrors BlockHighlight in the backend's shared types
+export interface BlockHighlight {
+	color: string;
+	opacity: number;
+	// Flat list of block coordinates: x0, y0, z0, x1, y1, z1, ...
+	positions: number[];
+	style?: "fill" | "outline";
+}
+
+// Slightly larger than a block so the tint isn't z-fighting with the block faces
+const HIGHLIGHT_SCALE = 1.02;
+
+/**
+ * Box edges around every block of a highlight, merged into a single line mesh
+ */
+function createOutlines(highlight: BlockHighlight, count: number): THREE.LineSegments {
+	const box = new THREE.BoxGeometry(HIGHLIGHT_SCALE, HIGHLIGHT_SCALE, HIGHLIGHT_SCALE);
+	const edges = new THREE.EdgesGeometry(box);
+	const corners = edges.getAttribute("position").array;
+	box.dispose();
+	edges.dispose();
+
+	const vertices = new Float32Array(corners.length * count);
+	for (let i = 0; i < count; i++) {
+		const [x, y, z] = highlight.positions.slice(i * 3, i * 3 + 3);
+		for (let j = 0; j < corners.length; j += 3) {
+			vertices[i * corners.length + j] = corners[j] + x + 0.5;
+			vertices[i * corners.length + j + 1] = corners[j + 1] + y + 0.5;
+			vertices[i * corners.length + j + 2] = corners[j + 2] + z + 0.5;
+		}
+	}
+
+	const geometry = new THREE.BufferGeometry();
+	geometry.setAttribute("position", new THREE.BufferAttribute(vertices, 3));
+	const outline = new THREE.LineSegments(
+		geometry,
+		new THREE.LineBasicMaterial({ color: new THREE.Color(highlight.color), transparent: true, opacity: highlight.opacity })
+	);
+	outline.renderOrder = 1;
+	return outline;
+}
+
+/**
+ * Draw translucent boxes (or box outlines) over blocks of the first loaded schematic. Positions are
+ * in the schematic's own block coordinates, so the boxes follow its group when it
+ * is moved or rotated. Returns a function that removes them again.
+ */
+export function addBlockHighlights(renderer: any, highlights: BlockHighlight[]): () => void {
+	const schematic = renderer.schematicManager?.schematics?.values().next().value;
+	const parent: THREE.Object3D | undefined = schematic?.group;
+	if (!parent) return () => {};
+
+	const geometry = new THREE.BoxGeometry(HIGHLIGHT_SCALE, HIGHLIGHT_SCALE, HIGHLIGHT_SCALE);
+	const meshes: THREE.InstancedMesh[] = [];
+	const outlines: THREE.LineSegments[] = [];
+	const matrix = new THREE.Matrix4();
+
+	for (const highlight of highlights) {
+		const count = Math.floor(highlight.positions.length / 3);
+		if (count === 0) continue;
+
+		if (highlight.style === "outline") {
+			const outline = createOutlines(highlight, count);
+			parent.add(outline);
+			outlines.push(outline);
+			continue;
+		}
+
+		const material = new THREE.MeshBasicMaterial({
+			color: new THREE.Color(highlight.color),
+			transparent: true,
+			opacity: highlight.opacity,
+			depthWrite: false,
+		});
+		const mesh = new THREE.InstancedMesh(geometry, material, count);
+		for (let i = 0; i < count; i++) {
+			const [x, y, z] = highlight.positions.slice(i * 3, i * 3 + 3);
+			matrix.makeTranslation(x + 0.5, y + 0.5, z + 0.5);
+			mesh.setMatrixAt(i, matrix);
+		}
+		mesh.instanceMatrix.needsUpdate = true;
+		// Drawn after the opaque block meshes so the tint blends over them
+		mesh.renderOrder = 1;
+		parent.add(mesh);
+		meshes.push(mesh);
+	}
+
+	return () => {
+		for (const mesh of meshes) {
+			mesh.removeFromParent();
+			(mesh.material as THREE.Material).dispose();
+			mesh.dispose();
+		}
+		for (const outline of outlines) {
+			outline.removeFromParent();
+			outline.geometry.dispose();
+			(outline.material as THREE.Material).dispose();
+		}
+		geometry.dispose();
+	};
+}
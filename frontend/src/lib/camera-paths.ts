@@ -0,0 +1,285 @@
+import * as THREE from "three";
+
+export type CameraPathType = "circular" | "orbit" | "static" | "cinematic";
+
+export interface CameraPose {
+	position: THREE.Vector3;
+	target: THREE.Vector3;
+	// Multiplier on the framed orthographic zoom (ignored by perspective cameras)
+	zoom?: number;
+	// Field of view in degrees (perspective cameras only)
+	fov?: number;
+}
+
+// Camera pose for a recording progress between 0 and 1
+export type CameraMotion = (t: number) => CameraPose;
+
+export interface SceneFrame {
+	center: THREE.Vector3;
+	radius: number;
+	// Where the camera sits once the schematics are framed
+	startPosition: THREE.Vector3;
+}
+
+// Mirrors CameraSpec in the backend's shared types
+export interface CameraSpec {
+	position?: [number, number, number];
+	target?: [number, number, number];
+	fov?: number;
+	zoom?: number;
+	yaw?: number;
+	pitch?: number;
+	distance?: number;
+}
+
+export type Easing = "linear" | "easeIn" | "easeOut" | "easeInOut";
+
+// Mirrors CameraKeyframe in the backend's shared types
+export interface CameraKeyframe {
+	time: number;
+	position: [number, number, number];
+	target?: [number, number, number];
+	fov?: number;
+	easing?: Easing;
+}
+
+const MIN_ELEVATION = THREE.MathUtils.degToRad(5);
+const MAX_ELEVATION = THREE.MathUtils.degToRad(80);
+
+const easeInOut = (t: number) => t * t * (3 - 2 * t);
+
+const EASINGS: Record<Easing, (t: number) => number> = {
+	linear: (t) => t,
+	easeIn: (t) => t * t,
+	easeOut: (t) => t * (2 - t),
+	easeInOut,
+};
+
+/**
+ * Bounds of all loaded schematics plus the current (framed) camera position
+ */
+export function getSceneFrame(renderer: any, camera: THREE.Camera): SceneFrame {
+	const box = new THREE.Box3();
+	for (const schematic of renderer.schematicManager?.schematics?.values() ?? []) {
+		if (schematic.group) box.expandByObject(schematic.group);
+	}
+
+	const sphere = box.isEmpty() ? new THREE.Sphere(new THREE.Vector3(), 1) : box.getBoundingSphere(new THREE.Sphere());
+
+	return {
+		center: sphere.center,
+		radius: sphere.radius,
+		startPosition: camera.position.clone(),
+	};
+}
+
+/**
+ * Build the camera motion for a path type. `circular` returns null because it is
+ * the renderer's own circular path.
+ */
+export function createCameraMotion(type: CameraPathType, frame: SceneFrame): CameraMotion | null {
+	const offset = frame.startPosition.clone().sub(frame.center);
+	const distance = Math.max(offset.length(), frame.radius * 1.5);
+	const startAzimuth = Math.atan2(offset.x, offset.z);
+	const startElevation = THREE.MathUtils.clamp(Math.asin(offset.y / distance || 0), MIN_ELEVATION, MAX_ELEVATION);
+
+	const pointAt = (azimuth: number, elevation: number, dist: number) => {
+		const clamped = THREE.MathUtils.clamp(elevation, MIN_ELEVATION, MAX_ELEVATION);
+		return new THREE.Vector3(
+			Math.sin(azimuth) * Math.cos(clamped) * dist,
+			Math.sin(clamped) * dist,
+			Math.cos(azimuth) * Math.cos(clamped) * dist
+		).add(frame.center);
+	};
+
+	switch (type) {
+		case "orbit":
+			// Full turn while rising above the build and dipping back down
+			return (t) => ({
+				position: pointAt(
+					startAzimuth + t * Math.PI * 2,
+					startElevation + THREE.MathUtils.degToRad(25) * Math.sin(t * Math.PI * 2),
+					distance
+				),
+				target: frame.center.clone(),
+			});
+
+		case "static":
+			// Fixed angle with a slow push-in
+			return (t) => {
+				const eased = easeInOut(t);
+				return {
+					position: frame.center.clone().add(offset.clone().multiplyScalar(1 - 0.2 * eased)),
+					target: frame.center.clone(),
+					zoom: 1 + 0.25 * eased,
+				};
+			};
+
+		case "cinematic": {
+			// Sweep through a few keyframes at varying height and distance
+			const deg = THREE.MathUtils.degToRad;
+			const curve = new THREE.CatmullRomCurve3(
+				[
+					pointAt(startAzimuth - deg(20), startElevation + deg(15), distance * 1.3),
+					pointAt(startAzimuth + deg(50), startElevation - deg(10), distance),
+					pointAt(startAzimuth + deg(130), startElevation + deg(20), distance * 0.85),
+					pointAt(startAzimuth + deg(210), startElevation, distance * 1.1),
+					pointAt(startAzimuth + deg(280), startElevation + deg(35), distance * 1.25),
+				],
+				false,
+				"centripetal"
+			);
+
+			return (t) => {
+				const eased = easeInOut(t);
+				return {
+					position: curve.getPointAt(eased),
+					target: frame.center.clone().add(new THREE.Vector3(0, frame.radius * 0.15 * Math.sin(eased * Math.PI), 0)),
+				};
+			};
+		}
+
+		default:
+			return null;
+	}
+}
+
+/**
+ * Build a motion that interpolates between user keyframes over the recording.
+ * Each segment uses the easing of the keyframe it moves towards.
+ */
+export function createKeyframeMotion(keyframes: CameraKeyframe[], duration: number, frame: SceneFrame): CameraMotion {
+	const sorted = [...keyframes].sort((a, b) => a.time - b.time);
+	const toPose = (keyframe: CameraKeyframe): CameraPose => ({
+		position: new THREE.Vector3(...keyframe.position),
+		target: keyframe.target ? new THREE.Vector3(...keyframe.target) : frame.center.clone(),
+		fov: keyframe.fov,
+	});
+
+	return (t) => {
+		const time = t * duration;
+		if (time <= sorted[0].time) return toPose(sorted[0]);
+
+		const nextIndex = sorted.findIndex((keyframe) => keyframe.time > time);
+		if (nextIndex === -1) return toPose(sorted[sorted.length - 1]);
+
+		const from = sorted[nextIndex - 1];
+		const to = sorted[nextIndex];
+		const ease = EASINGS[to.easing ?? "easeInOut"] ?? easeInOut;
+		const u = ease((time - from.time) / (to.time - from.time));
+
+		const start = toPose(from);
+		const end = toPose(to);
+		return {
+			position: start.position.lerp(end.position, u),
+			target: start.target.lerp(end.target, u),
+			fov: start.fov !== undefined && end.fov !== undefined
+				? THREE.MathUtils.lerp(start.fov, end.fov, u)
+				: end.fov ?? start.fov,
+		};
+	};
+}
+
+/**
+ * Drive the camera from a motion on every render of the scene.
+ * `getProgress` is read each frame; returns a function that restores the scene.
+ */
+export function driveCamera(
+	scene: THREE.Scene,
+	camera: THREE.Camera,
+	motion: CameraMotion,
+	getProgress: () => number
+): () => void {
+	const previousOnBeforeRender = scene.onBeforeRender;
+	const orthographic = (camera as THREE.OrthographicCamera).isOrthographicCamera === true;
+	const baseZoom = orthographic ? (camera as THREE.OrthographicCamera).zoom : 1;
+	const perspective = (camera as THREE.PerspectiveCamera).isPerspectiveCamera === true;
+	const baseFov = perspective ? (camera as THREE.PerspectiveCamera).fov : undefined;
+	const startPosition = camera.position.clone();
+	const startQuaternion = camera.quaternion.clone();
+
+	// WebGLRenderer has already updated the camera matrices at this point, so refresh them
+	scene.onBeforeRender = (...args) => {
+		const pose = motion(THREE.MathUtils.clamp(getProgress(), 0, 1));
+		camera.position.copy(pose.position);
+		camera.lookAt(pose.target);
+		if (orthographic && pose.zoom !== undefined) {
+			(camera as THREE.OrthographicCamera).zoom = baseZoom * pose.zoom;
+			(camera as THREE.OrthographicCamera).updateProjectionMatrix();
+		}
+		if (perspective && pose.fov !== undefined) {
+			(camera as THREE.PerspectiveCamera).fov = pose.fov;
+			(camera as THREE.PerspectiveCamera).updateProjectionMatrix();
+		}
+		camera.updateMatrixWorld();
+		previousOnBeforeRender.apply(scene, args);
+	};
+
+	return () => {
+		scene.onBeforeRender = previousOnBeforeRender;
+		camera.position.copy(startPosition);
+		camera.quaternion.copy(startQuaternion);
+		if (orthographic) {
+			(camera as THREE.OrthographicCamera).zoom = baseZoom;
+			(camera as THREE.OrthographicCamera).updateProjectionMatrix();
+		}
+		if (perspective && baseFov !== undefined) {
+			(camera as THREE.PerspectiveCamera).fov = baseFov;
+			(camera as THREE.PerspectiveCamera).updateProjectionMatrix();
+		}
+	};
+}
+
+/**
+ * Place the camera from an explicit spec. Values left out keep the framed view.
+ * Returns a function that restores the lens (fov/zoom) for the next render.
+ */
+export function applyCameraSpec(renderer: any, camera: THREE.Camera, spec: CameraSpec): () => void {
+	const lens = camera as THREE.PerspectiveCamera | THREE.OrthographicCamera;
+	const originalZoom = lens.zoom;
+	const originalFov = (lens as THREE.PerspectiveCamera).isPerspectiveCamera ? (lens as THREE.PerspectiveCamera).fov : undefined;
+
+	const frame = getSceneFrame(renderer, camera);
+	const target = spec.target ? new THREE.Vector3(...spec.target) : frame.center.clone();
+
+	if (spec.position) {
+		camera.position.set(...spec.position);
+	} else if (spec.yaw !== undefined || spec.pitch !== undefined || spec.distance !== undefined) {
+		const offset = frame.startPosition.clone().sub(target);
+		const distance = spec.distance ?? offset.length();
+		const yaw = spec.yaw !== undefined ? THREE.MathUtils.degToRad(spec.yaw) : Math.atan2(offset.x, offset.z);
+		const pitch = spec.pitch !== undefined ? THREE.MathUtils.degToRad(spec.pitch) : Math.asin(offset.y / (offset.length() || 1));
+
+		camera.position.set(
+			Math.sin(yaw) * Math.cos(pitch) * distance,
+			Math.sin(pitch) * distance,
+			Math.cos(yaw) * Math.cos(pitch) * distance
+		).add(target);
+	}
+
+	camera.lookAt(target);
+
+	// Keep orbit controls from pulling the camera back to the old pivot
+	const controls = renderer.cameraManager?.controls;
+	if (controls?.target) {
+		controls.target.copy(target);
+		controls.update?.();
+	}
+
+	if (spec.fov !== undefined && originalFov !== undefined) {
+		(lens as THREE.PerspectiveCamera).fov = spec.fov;
+	}
+	if (spec.zoom !== undefined) {
+		lens.zoom = spec.zoom;
+	}
+	lens.updateProjectionMatrix();
+	camera.updateMatrixWorld();
+
+	return () => {
+		lens.zoom = originalZoom;
+		if (originalFov !== undefined) {
+			(lens as THREE.PerspectiveCamera).fov = originalFov;
+		}
+		lens.updateProjectionMatrix();
+	};
+}
@@ -0,0 +1,126 @@
+import * as THREE from "three";
+
+// Mirrors ClipPlane in the backend's shared types
+export interface ClipPlane {
+	axis?: "x" | "y" | "z";
+	normal?: [number, number, number];
+	position?: number;
+	keep?: "negative" | "positive";
+	capColor?: string;
+}
+
+const AXES: Record<NonNullable<ClipPlane["axis"]>, [number, number, number]> = {
+	x: [1, 0, 0],
+	y: [0, 1, 0],
+	z: [0, 0, 1],
+};
+
+/**
+ * Stencil-only copy of a mesh: back faces count up and front faces count down, so
+ * wherever the clipped surface is left open the stencil ends up non-zero
+ */
+function createStencilMesh(mesh: THREE.Mesh, plane: THREE.Plane, side: THREE.Side): THREE.Mesh {
+	const operation = side === THREE.BackSide ? THREE.IncrementWrapStencilOp : THREE.DecrementWrapStencilOp;
+	const material = new THREE.MeshBasicMaterial({
+		side,
+		clippingPlanes: [plane],
+		depthWrite: false,
+		depthTest: false,
+		colorWrite: false,
+		stencilWrite: true,
+		stencilFunc: THREE.AlwaysStencilFunc,
+		stencilFail: operation,
+		stencilZFail: operation,
+		stencilZPass: operation,
+	});
+	const stencil = new THREE.Mesh(mesh.geometry, material);
+	stencil.renderOrder = 1;
+	return stencil;
+}
+
+/**
+ * Cut the first loaded schematic open along a plane, optionally filling the cut
+ * faces with a solid color. Returns a function that restores it.
+ */
+export function applyCutaway(renderer: any, clip: ClipPlane): () => void {
+	const group: THREE.Object3D | undefined = renderer.schematicManager?.schematics?.values().next().value?.group;
+	const scene: THREE.Scene | undefined = renderer.sceneManager?.scene;
+	const webgl: THREE.WebGLRenderer | undefined = renderer.renderManager?.renderer;
+	if (!group || !scene || !webgl) return () => {};
+
+	const bounds = new THREE.Box3().setFromObject(group);
+	const center = bounds.getCenter(new THREE.Vector3());
+	const direction = new THREE.Vector3(...(clip.normal ?? AXES[clip.axis ?? "x"])).normalize();
+	const point = center.clone().addScaledVector(direction, clip.position ?? 0);
+
+	// Planes keep the side their normal points to
+	const normal = clip.keep === "positive" ? direction : direction.clone().negate();
+	const plane = new THREE.Plane().setFromNormalAndCoplanarPoint(normal, point);
+
+	const meshes: THREE.Mesh[] = [];
+	group.traverse((object) => {
+		if ((object as THREE.Mesh).isMesh) meshes.push(object as THREE.Mesh);
+	});
+
+	// Added on top of any clipping already in place (layer slices)
+	const originals = new Map<THREE.Material, THREE.Plane[] | null>();
+	for (const mesh of meshes) {
+		for (const material of Array.isArray(mesh.material) ? mesh.material : [mesh.material]) {
+			if (originals.has(material)) continue;
+			originals.set(material, material.clippingPlanes);
+			material.clippingPlanes = [...(material.clippingPlanes ?? []), plane];
+			material.needsUpdate = true;
+		}
+	}
+	const originalLocalClipping = webgl.localClippingEnabled;
+	webgl.localClippingEnabled = true;
+
+	const stencils: THREE.Mesh[] = [];
+	let cap: THREE.Mesh | null = null;
+	if (clip.capColor) {
+		for (const mesh of meshes) {
+			const back = createStencilMesh(mesh, plane, THREE.BackSide);
+			const front = createStencilMesh(mesh, plane, THREE.FrontSide);
+			mesh.add(back, front);
+			stencils.push(back, front);
+		}
+
+		// Drawn only where the stencil marks an open cut, then the stencil is reset for the next frame
+		const size = bounds.getSize(new THREE.Vector3()).length() * 2;
+		cap = new THREE.Mesh(
+			new THREE.PlaneGeometry(size, size),
+			new THREE.MeshBasicMaterial({
+				color: new THREE.Color(clip.capColor),
+				stencilWrite: true,
+				stencilRef: 0,
+				stencilFunc: THREE.NotEqualStencilFunc,
+				stencilFail: THREE.ReplaceStencilOp,
+				stencilZFail: THREE.ReplaceStencilOp,
+				stencilZPass: THREE.ReplaceStencilOp,
+			})
+		);
+		cap.renderOrder = 1.1;
+		cap.position.copy(point);
+		cap.lookAt(point.clone().sub(normal));
+		cap.onAfterRender = (glRenderer) => glRenderer.clearStencil();
+		scene.add(cap);
+	}
+
+	return () => {
+		// Stencil copies share the schematic's geometry, so only their materials are freed
+		for (const stencil of stencils) {
+			stencil.removeFromParent();
+			(stencil.material as THREE.Material).dispose();
+		}
+		if (cap) {
+			cap.removeFromParent();
+			cap.geometry.dispose();
+			(cap.material as THREE.Material).dispose();
+		}
+		for (const [material, clippingPlanes] of originals) {
+			material.clippingPlanes = clippingPlanes;
+			material.needsUpdate = true;
+		}
+		webgl.localClippingEnabled = originalLocalClipping;
+	};
+}
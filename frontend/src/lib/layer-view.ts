@@ -0,0 +1,205 @@
+import * as THREE from "three";
+
+// Mirrors LayerRange in the backend's shared types
+export interface LayerRange {
+	// Layers are counted from the schematic's lowest block row (0); both ends are inclusive
+	from: number;
+	to?: number;
+}
+
+// At most this many coordinate labels along each edge
+const MAX_LABELS = 32;
+const LABEL_STEPS = [1, 2, 5, 10, 20, 50, 100];
+
+function getSchematicGroup(renderer: any): THREE.Object3D | null {
+	return renderer.schematicManager?.schematics?.values().next().value?.group ?? null;
+}
+
+export interface LayerClipping {
+	// Number of block rows in the schematic
+	layerCount: number;
+	// Cheap enough to call every frame: only the plane positions change
+	setRange: (range: LayerRange) => void;
+	remove: () => void;
+}
+
+/**
+ * Clip the schematic's own materials to a range of layers, so helpers drawn on
+ * top (grid, labels, highlights) stay visible. Nothing is hidden until `setRange`.
+ */
+export function createLayerClipping(renderer: any): LayerClipping | null {
+	const group = getSchematicGroup(renderer);
+	const webgl: THREE.WebGLRenderer | undefined = renderer.renderManager?.renderer;
+	if (!group || !webgl) return null;
+
+	const bounds = new THREE.Box3().setFromObject(group);
+	// A plane keeps the side its normal points to; both start far enough out to keep everything
+	const planes = [
+		new THREE.Plane(new THREE.Vector3(0, 1, 0), 1e6),
+		new THREE.Plane(new THREE.Vector3(0, -1, 0), 1e6),
+	];
+
+	const originals = new Map<THREE.Material, THREE.Plane[] | null>();
+	group.traverse((object) => {
+		const mesh = object as THREE.Mesh;
+		if (!mesh.isMesh) return;
+		for (const material of Array.isArray(mesh.material) ? mesh.material : [mesh.material]) {
+			if (originals.has(material)) continue;
+			originals.set(material, material.clippingPlanes);
+			material.clippingPlanes = [...(material.clippingPlanes ?? []), ...planes];
+			material.needsUpdate = true;
+		}
+	});
+
+	const originalLocalClipping = webgl.localClippingEnabled;
+	webgl.localClippingEnabled = true;
+
+	return {
+		layerCount: Math.round(bounds.max.y - bounds.min.y),
+		setRange: (range) => {
+			// The small margin avoids clipping the faces on the boundary
+			planes[0].constant = -(bounds.min.y + range.from - 0.001);
+			planes[1].constant = bounds.min.y + (range.to ?? range.from) + 1.001;
+		},
+		remove: () => {
+			for (const [material, clippingPlanes] of originals) {
+				material.clippingPlanes = clippingPlanes;
+				material.needsUpdate = true;
+			}
+			webgl.localClippingEnabled = originalLocalClipping;
+		},
+	};
+}
+
+/**
+ * Hide everything outside a range of layers. Returns a function that removes the clipping again.
+ */
+export function clipToLayers(renderer: any, range: LayerRange): () => void {
+	const clipping = createLayerClipping(renderer);
+	if (!clipping) return () => {};
+	clipping.setRange(range);
+	return clipping.remove;
+}
+
+function createLabel(text: string): THREE.Sprite {
+	const canvas = document.createElement("canvas");
+	canvas.width = 128;
+	canvas.height = 64;
+	const context = canvas.getContext("2d")!;
+	context.font = "bold 40px sans-serif";
+	context.textAlign = "center";
+	context.textBaseline = "middle";
+	context.lineWidth = 6;
+	context.strokeStyle = "rgba(0, 0, 0, 0.8)";
+	context.strokeText(text, 64, 32);
+	context.fillStyle = "#ffffff";
+	context.fillText(text, 64, 32);
+
+	const material = new THREE.SpriteMaterial({ map: new THREE.CanvasTexture(canvas), depthTest: false });
+	const sprite = new THREE.Sprite(material);
+	sprite.scale.set(1.6, 0.8, 1);
+	sprite.renderOrder = 2;
+	return sprite;
+}
+
+/**
+ * Block grid laid over the top of a layer, with X coordinates along the north
+ * edge and Z coordinates along the west edge (counted from the schematic's corner).
+ * Returns a function that removes it again.
+ */
+export function addLayerGrid(renderer: any, layer: number): () => void {
+	const group = getSchematicGroup(renderer);
+	const scene: THREE.Scene | undefined = renderer.sceneManager?.scene;
+	if (!group || !scene) return () => {};
+
+	const bounds = new THREE.Box3().setFromObject(group);
+	const minX = Math.floor(bounds.min.x);
+	const minZ = Math.floor(bounds.min.z);
+	const width = Math.ceil(bounds.max.x) - minX;
+	const length = Math.ceil(bounds.max.z) - minZ;
+	// Just above the layer's top faces
+	const y = bounds.min.y + layer + 1.01;
+
+	const overlay = new THREE.Group();
+
+	const points: THREE.Vector3[] = [];
+	for (let x = 0; x <= width; x++) {
+		points.push(new THREE.Vector3(minX + x, y, minZ), new THREE.Vector3(minX + x, y, minZ + length));
+	}
+	for (let z = 0; z <= length; z++) {
+		points.push(new THREE.Vector3(minX, y, minZ + z), new THREE.Vector3(minX + width, y, minZ + z));
+	}
+	const lines = new THREE.LineSegments(
+		new THREE.BufferGeometry().setFromPoints(points),
+		new THREE.LineBasicMaterial({ color: 0x000000, transparent: true, opacity: 0.35, depthTest: false })
+	);
+	lines.renderOrder = 2;
+	overlay.add(lines);
+
+	const labels: THREE.Sprite[] = [];
+	const step = LABEL_STEPS.find((candidate) => Math.max(width, length) / candidate <= MAX_LABELS) ?? LABEL_STEPS[LABEL_STEPS.length - 1];
+	for (let x = 0; x < width; x += step) {
+		const label = createLabel(String(x));
+		label.position.set(minX + x + 0.5, y, minZ - 0.8);
+		labels.push(label);
+	}
+	for (let z = 0; z < length; z += step) {
+		const label = createLabel(String(z));
+		label.position.set(minX - 1, y, minZ + z + 0.5);
+		labels.push(label);
+	}
+
+	overlay.add(...labels);
+	scene.add(overlay);
+
+	return () => {
+		overlay.removeFromParent();
+		lines.geometry.dispose();
+		(lines.material as THREE.Material).dispose();
+		// Sprites share one geometry, so only their textures and materials are freed
+		for (const label of labels) {
+			label.material.map?.dispose();
+			label.material.dispose();
+		}
+	};
+}
+
+export interface BuildAnimationOptions {
+	// Defaults to spreading the layers over the whole video (minus the hold)
+	layersPerSecond?: number;
+	// Seconds to linger on the finished build
+	holdSeconds?: number;
+}
+
+export interface BuildAnimation {
+	// Video length in seconds, derived from layersPerSecond when given
+	duration: number;
+	// Show the layers built by this point of the recording (0-1)
+	update: (progress: number) => void;
+	remove: () => void;
+}
+
+// Slow speeds on tall builds would otherwise record for minutes
+const MAX_BUILD_DURATION = 60;
+
+/**
+ * Reveal the schematic bottom-to-top over the course of a recording
+ */
+export function createBuildAnimation(renderer: any, duration: number, options: BuildAnimationOptions = {}): BuildAnimation | null {
+	const clipping = createLayerClipping(renderer);
+	if (!clipping) return null;
+
+	const hold = options.holdSeconds ?? 0;
+	const totalDuration = options.layersPerSecond
+		? Math.min(clipping.layerCount / options.layersPerSecond + hold, MAX_BUILD_DURATION)
+		: duration;
+	const buildTime = Math.max(totalDuration - hold, 0.1);
+
+	const update = (progress: number) => {
+		const built = Math.min(1, (progress * totalDuration) / buildTime);
+		clipping.setRange({ from: 0, to: Math.ceil(built * clipping.layerCount) - 1 });
+	};
+	update(0);
+
+	return { duration: totalDuration, update, remove: clipping.remove };
+}
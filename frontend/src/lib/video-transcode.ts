@@ -0,0 +1,101 @@
+import type { FFmpeg } from "@ffmpeg/ffmpeg";
+
+export type VideoFormat = "video/webm" | "video/mp4" | "image/gif" | "image/apng";
+
+export interface TranscodeOptions {
+	width: number;
+	frameRate: number;
+	// Upper bound for animated images (Discord's upload cap by default)
+	maxFileSize?: number;
+}
+
+const DEFAULT_MAX_FILE_SIZE = 10 * 1024 * 1024;
+
+// Animated images get a much smaller canvas and frame rate than video
+const ANIMATED_IMAGE_MAX_WIDTH = 640;
+const ANIMATED_IMAGE_MAX_FPS = 15;
+const ANIMATED_IMAGE_ATTEMPTS = 4;
+
+/**
+ * Convert the recorder's WebM output into the requested format with ffmpeg.wasm
+ */
+export async function transcodeVideo(
+	ffmpeg: FFmpeg,
+	webm: Blob,
+	format: VideoFormat,
+	options: TranscodeOptions
+): Promise<Blob> {
+	if (format === "video/webm") return webm;
+
+	await ffmpeg.writeFile("input.webm", new Uint8Array(await webm.arrayBuffer()));
+
+	try {
+		if (format === "video/mp4") {
+			// H.264 in yuv420p with even dimensions plays inline everywhere
+			const data = await runFfmpeg(ffmpeg, "output.mp4", [
+				"-i", "input.webm",
+				"-vf", "scale=trunc(iw/2)*2:trunc(ih/2)*2",
+				"-c:v", "libx264",
+				"-preset", "veryfast",
+				"-crf", "23",
+				"-pix_fmt", "yuv420p",
+				"-movflags", "+faststart",
+				"output.mp4",
+			]);
+			return new Blob([new Uint8Array(data)], { type: "video/mp4" });
+		}
+
+		// GIF/APNG: palette-reduce, then shrink until the file fits under the cap
+		const maxFileSize = options.maxFileSize ?? DEFAULT_MAX_FILE_SIZE;
+		const extension = format === "image/gif" ? "gif" : "apng";
+		let width = Math.min(options.width, ANIMATED_IMAGE_MAX_WIDTH);
+		let fps = Math.min(options.frameRate, ANIMATED_IMAGE_MAX_FPS);
+		let maxColors = 128;
+		let smallest: Uint8Array | null = null;
+
+		for (let attempt = 0; attempt < ANIMATED_IMAGE_ATTEMPTS; attempt++) {
+			const filter =
+				`fps=${fps},scale=${width}:-2:flags=lanczos,split[a][b];` +
+				`[a]palettegen=max_colors=${maxColors}:stats_mode=diff[p];` +
+				`[b][p]paletteuse=dither=bayer:bayer_scale=5`;
+			const args = format === "image/gif"
+				? ["-i", "input.webm", "-filter_complex", filter, "-loop", "0", `output.${extension}`]
+				: ["-i", "input.webm", "-filter_complex", filter, "-plays", "0", "-f", "apng", `output.${extension}`];
+
+			const data = await runFfmpeg(ffmpeg, `output.${extension}`, args);
+			console.log(`🎞️ ${extension} attempt ${attempt + 1}: ${width}px @ ${fps}fps, ${maxColors} colors → ${(data.length / 1024).toFixed(0)}KB`);
+
+			if (data.length <= maxFileSize) {
+				return new Blob([new Uint8Array(data)], { type: format });
+			}
+			if (!smallest || data.length < smallest.length) smallest = data;
+
+			width = Math.max(160, Math.round(width * 0.75));
+			fps = Math.max(8, fps - 3);
+			maxColors = Math.max(32, maxColors / 2);
+		}
+
+		// Handing back an oversized file would only fail later, at upload
+		const toMB = (bytes: number) => (bytes / (1024 * 1024)).toFixed(1);
+		throw new Error(
+			`${extension.toUpperCase()} is still ${toMB(smallest!.length)}MB after ${ANIMATED_IMAGE_ATTEMPTS} attempts, ` +
+			`over the ${toMB(maxFileSize)}MB limit. Use a shorter duration or render as MP4/WebM.`
+		);
+	} finally {
+		await ffmpeg.deleteFile("input.webm").catch(() => {});
+	}
+}
+
+async function runFfmpeg(ffmpeg: FFmpeg, output: string, args: string[]): Promise<Uint8Array> {
+	const exitCode = await ffmpeg.exec(args);
+	if (exitCode !== 0) {
+		throw new Error(`ffmpeg exited with code ${exitCode} while writing ${output}`);
+	}
+
+	const data = await ffmpeg.readFile(output);
+	await ffmpeg.deleteFile(output).catch(() => {});
+	if (typeof data === "string") {
+		throw new Error(`ffmpeg returned text instead of ${output}`);
+	}
+	return data;
+}
@@ -1,6 +1,9 @@
 import { Router, json, getQuery, getParams } from "../../utils/router.js";
 import { getMetricsStats, getActiveRenders, resetMetrics } from "../../services/metrics.js";
 import { getBrowserStatus, getPuppeteerMetrics } from "../../services/puppeteer.js";
+import { getQueueStats } from "../../services/render-queue.js";
+import { cleanupCache } from "../../services/storage.js";
+import { getIntegrityStatus, startIntegrityScan } from "../../services/storage-integrity.js";
 import { logger } from "../../shared/logger.js";
 import { db, statements } from "../../services/database.js";
 import os from "os";
@@ -36,6 +39,7 @@ export function setupAdminRoutes(router: Router): void {
 				timestamp: Date.now(),
 				renderMetrics,
 				browserStatus,
+				queueStatus: getQueueStats(),
 				systemMetrics,
 			});
 		} catch (error: any) {
@@ -87,6 +91,18 @@ export function setupAdminRoutes(router: Router): void {
 		}
 	});
 
+	/**
+	 * Get render queue status
+	 */
+	router.get("/api/admin/queue", async (req) => {
+		try {
+			return json(getQueueStats());
+		} catch (error: any) {
+			logger.error("Error fetching queue status:", error);
+			return json({ error: error.message || "Failed to fetch queue status" }, 500);
+		}
+	});
+
 	/**
 	 * Reset metrics (admin action)
 	 */
@@ -101,6 +117,68 @@ export function setupAdminRoutes(router: Router): void {
 		}
 	});
 
+	/**
+	 * Evict least recently used schematics and their renders past the storage budget.
+	 * `dryRun=true` reports what would go without deleting anything; `maxAgeDays` and
+	 * `maxSizeMb` override the configured limits (0 disables a limit).
+	 */
+	router.post("/api/admin/cache/cleanup", async (req) => {
+		try {
+			const query = getQuery(req);
+			const maxAgeDays = query.get("maxAgeDays");
+			const maxSizeMb = query.get("maxSizeMb");
+			for (const [name, value] of [["maxAgeDays", maxAgeDays], ["maxSizeMb", maxSizeMb]]) {
+				if (value !== null && !(Number(value) >= 0)) {
+					return json({ error: `${name} must be a non-negative number` }, 400);
+				}
+			}
+
+			const report = await cleanupCache({
+				dryRun: query.get("dryRun") === "true",
+				maxAge: maxAgeDays !== null ? Number(maxAgeDays) * 24 * 60 * 60 : undefined,
+				maxSize: maxSizeMb !== null ? Number(maxSizeMb) * 1024 * 1024 : undefined,
+			});
+			if (!report.dryRun) {
+				logger.info(`Cache cleanup by admin: ${report.evicted.length} schematics evicted`);
+			}
+			return json(report);
+		} catch (error: any) {
+			logger.error("Error cleaning up cache:", error);
+			return json({ error: error.message || "Failed to clean up cache" }, 500);
+		}
+	});
+
+	/**
+	 * Progress of the running integrity scan (scan, null when idle) and the latest
+	 * report (null until a scan has finished)
+	 */
+	router.get("/api/admin/integrity", async (req) => {
+		return json(getIntegrityStatus());
+	});
+
+	/**
+	 * Start a background scan of storage against the database for orphaned, missing and
+	 * corrupt files; poll GET /api/admin/integrity for progress and the report.
+	 * `repair=true` deletes orphans and corrupt files and the rows for missing ones;
+	 * `verify=true` also re-hashes every file, which downloads the whole bucket on S3.
+	 */
+	router.post("/api/admin/integrity/scan", async (req) => {
+		if (getIntegrityStatus().scan) {
+			return json({ error: "An integrity scan is already running" }, 409);
+		}
+		try {
+			const query = getQuery(req);
+			const scan = startIntegrityScan({
+				repair: query.get("repair") === "true",
+				verifyHashes: query.get("verify") === "true",
+			});
+			return json({ scan }, 202);
+		} catch (error: any) {
+			logger.error("Error scanning storage integrity:", error);
+			return json({ error: error.message || "Failed to scan storage integrity" }, 500);
+		}
+	});
+
 	/**
 	 * Get detailed Puppeteer metrics
 	 */
@@ -137,7 +215,7 @@ export function setupAdminRoutes(router: Router): void {
 			const sortOrderRaw = query.get("sortOrder") || "DESC";
 
 			// Whitelist allowed sort columns to prevent SQL injection
-			const allowedSortColumns = ['created_at', 'file_size', 'access_count', 'render_count', 'last_rendered_at'];
+			const allowedSortColumns = ['created_at', 'file_size', 'block_count', 'access_count', 'render_count', 'last_rendered_at'];
 			const sortBy = allowedSortColumns.includes(sortByRaw) ? sortByRaw : 'created_at';
 			const sortOrder = sortOrderRaw.toUpperCase() === 'ASC' ? 'ASC' : 'DESC';
 
@@ -162,6 +240,12 @@ export function setupAdminRoutes(router: Router): void {
 					fc.dimensions_x,
 					fc.dimensions_y,
 					fc.dimensions_z,
+					fc.palette_size,
+					fc.schematic_format,
+					fc.format_version,
+					fc.schematic_name,
+					fc.schematic_author,
+					fc.metadata_extracted_at,
 					fc.access_count,
 					fc.last_accessed,
 					fc.created_at,
@@ -127,7 +127,7 @@ router.get("/schemas", (req, res) => {
         const sortOrderRaw = (req.query.sortOrder as string) || 'DESC';
 
         // Whitelist allowed sort columns to prevent SQL injection
-        const allowedSortColumns = ['created_at', 'file_size', 'access_count', 'render_count', 'last_rendered_at'];
+        const allowedSortColumns = ['created_at', 'file_size', 'block_count', 'access_count', 'render_count', 'last_rendered_at'];
         const sortBy = allowedSortColumns.includes(sortByRaw) ? sortByRaw : 'created_at';
         const sortOrder = sortOrderRaw.toUpperCase() === 'ASC' ? 'ASC' : 'DESC';
 
@@ -152,6 +152,12 @@ router.get("/schemas", (req, res) => {
                 fc.dimensions_x,
                 fc.dimensions_y,
                 fc.dimensions_z,
+                fc.palette_size,
+                fc.schematic_format,
+                fc.format_version,
+                fc.schematic_name,
+                fc.schematic_author,
+                fc.metadata_extracted_at,
                 fc.access_count,
                 fc.last_accessed,
                 fc.created_at,
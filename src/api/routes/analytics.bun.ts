@@ -1,8 +1,7 @@
 import { Router, json, getQuery, getParams } from "../../utils/router.js";
 import { statements, db } from "../../services/database.js";
-import { getThumbnail } from "../../services/storage.js";
+import { getArtifactDownload, getThumbnail } from "../../services/storage.js";
 import { logger } from "../../shared/logger.js";
-import fs from "fs/promises";
 
 export function setupAnalyticsRoutes(router: Router): void {
 	/**
@@ -126,10 +125,15 @@ export function setupAnalyticsRoutes(router: Router): void {
 				return json({ error: "Thumbnail not found" }, 404);
 			}
 
-			// Read thumbnail file and send
-			const imageBuffer = await fs.readFile(thumbnail.file_path);
+			const download = await getArtifactDownload(thumbnail);
+			if (!download) {
+				return json({ error: "Thumbnail not found" }, 404);
+			}
+			if ("url" in download) {
+				return Response.redirect(download.url, 302);
+			}
 
-			return new Response(imageBuffer, {
+			return new Response(download.buffer as BodyInit, {
 				headers: {
 					"Content-Type": thumbnail.mime_type || "image/png",
 					"Cache-Control": "public, max-age=31536000", // Cache for 1 year
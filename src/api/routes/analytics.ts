@@ -1,8 +1,7 @@
 import { Router } from "express";
 import { statements, db } from "../../services/database.js";
-import { getThumbnail } from "../../services/storage.js";
+import { getArtifactDownload, getThumbnail } from "../../services/storage.js";
 import { logger } from "../../shared/logger.js";
-import fs from "fs/promises";
 
 const router = Router();
 
@@ -113,12 +112,17 @@ router.get("/thumbnail/:fileHash", async (req, res) => {
       return res.status(404).json({ error: "Thumbnail not found" });
     }
 
-    // Read thumbnail file and send
-    const imageBuffer = await fs.readFile(thumbnail.file_path);
+    const download = await getArtifactDownload(thumbnail);
+    if (!download) {
+      return res.status(404).json({ error: "Thumbnail not found" });
+    }
+    if ("url" in download) {
+      return res.redirect(302, download.url);
+    }
 
     res.set('Content-Type', thumbnail.mime_type || 'image/png');
     res.set('Cache-Control', 'public, max-age=31536000'); // Cache for 1 year
-    res.send(imageBuffer);
+    res.send(download.buffer);
 
   } catch (error: any) {
     logger.error("Error fetching thumbnail:", error);
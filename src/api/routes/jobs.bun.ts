@@ -0,0 +1,288 @@
+import { Router, json, getParams } from "../../utils/router.js";
+import { submitRenderJob } from "../../services/render-service.js";
+import {
+	getQueueJob,
+	getQueuePosition,
+	getLastJobEvent,
+	getPriorityName,
+	subscribeToJob,
+	JobEvent,
+	QueuedJob,
+} from "../../services/render-queue.js";
+import { statements } from "../../services/database.js";
+import { getSchematicMetadata } from "../../services/schematic-metadata.js";
+import { validateRenderOptions } from "../../shared/render-validation.js";
+import {
+	IMAGE_FORMATS,
+	SCHEMATIC_EXTENSIONS,
+	VIDEO_FORMATS,
+	getExtensionForMime,
+	normalizeImageFormat,
+	normalizeVideoFormat,
+} from "../../shared/formats.js";
+import { detectSchematicFormat } from "../../services/schematic-formats.js";
+import { logger } from "../../shared/logger.js";
+import { getArtifactDownload } from "../../services/storage.js";
+
+// Bun closes connections that stay silent for 10s, so idle SSE streams get a comment ping
+const SSE_HEARTBEAT_MS = 8000;
+
+/**
+ * Public view of a queue job, including downloadable artifacts once finished
+ */
+function serializeJob(job: QueuedJob) {
+	const lastEvent = getLastJobEvent(job.id);
+	const artifacts =
+		job.status === "completed"
+			? (statements.getArtifactsByRender.all(job.render_id) as any[]).map((artifact) => ({
+					id: artifact.id,
+					type: artifact.type,
+					mimeType: artifact.mime_type,
+					size: artifact.file_size,
+					width: artifact.width,
+					height: artifact.height,
+					url: `/api/artifacts/${artifact.id}`,
+			  }))
+			: [];
+
+	return {
+		id: job.id,
+		type: job.type,
+		status: job.status,
+		stage: job.status === "completed" || job.status === "error" ? job.status : lastEvent?.stage || job.status,
+		priority: getPriorityName(job.priority),
+		position: getQueuePosition(job.id),
+		renderId: job.status === "completed" ? job.render_id : null,
+		error: job.error_message,
+		enqueuedAt: job.enqueued_at,
+		startedAt: job.started_at,
+		finishedAt: job.finished_at,
+		schematic: getSchematicMetadata(job.file_hash),
+		artifacts,
+	};
+}
+
+export function setupJobRoutes(router: Router): void {
+	/**
+	 * Submit a render job and return immediately
+	 */
+	router.post("/api/jobs", async (req) => {
+		try {
+			// Parse multipart/form-data (same fields as /api/render-schematic, plus type)
+			const formData = await req.formData();
+			const schematicFile = formData.get("schematic") as File | null;
+
+			if (!schematicFile || !(schematicFile instanceof File)) {
+				return json({ error: "Schematic file is required" }, 400);
+			}
+
+			const requestedType = formData.get("type")?.toString() || "image";
+			if (requestedType !== "image" && requestedType !== "video" && requestedType !== "sheet") {
+				return json({ error: "type must be 'image', 'video' or 'sheet'" }, 400);
+			}
+			// A contact sheet is an image render with several views
+			const type = requestedType === "video" ? "video" : "image";
+
+			let extraOptions: any;
+			try {
+				extraOptions = JSON.parse(formData.get("options")?.toString() || "{}");
+			} catch {
+				return json({ error: "options must be valid JSON" }, 400);
+			}
+
+			const options = {
+				width: parseInt(formData.get("width")?.toString() || "1920"),
+				height: parseInt(formData.get("height")?.toString() || "1080"),
+				format: formData.get("format")?.toString() || (type === "video" ? "video/webm" : "image/png"),
+				...extraOptions,
+			};
+			if (requestedType === "sheet") {
+				options.sheet ??= {};
+			}
+
+			// Accept short names like "webp" or "mp4"; the canonical MIME type is what gets cached
+			options.format = type === "image" ? normalizeImageFormat(options.format) : normalizeVideoFormat(options.format);
+			if (!options.format) {
+				const formats = type === "image" ? IMAGE_FORMATS : VIDEO_FORMATS;
+				return json({ error: `format must be one of ${formats.join(", ")}` }, 400);
+			}
+
+			const optionsError = validateRenderOptions(options, type);
+			if (optionsError) {
+				return json({ error: optionsError }, 400);
+			}
+
+			logger.info(`Received ${requestedType} job: ${schematicFile.name}, size: ${schematicFile.size} bytes`);
+
+			const buffer = Buffer.from(await schematicFile.arrayBuffer());
+			if (detectSchematicFormat(buffer) === "unknown") {
+				return json({ error: `Unrecognised schematic format. Supported: ${SCHEMATIC_EXTENSIONS.map((ext) => `.${ext}`).join(", ")}` }, 400);
+			}
+			const clientIp = req.headers.get("x-forwarded-for") || req.headers.get("x-real-ip") || "unknown";
+
+			const { jobId, result } = await submitRenderJob({
+				schematicData: buffer,
+				options,
+				type,
+				source: "api",
+				originalFilename: schematicFile.name,
+				userId: clientIp,
+			});
+
+			// Nobody awaits the result here; failures are recorded on the job
+			result.catch(() => {});
+
+			const job = getQueueJob(jobId);
+			return json(
+				{
+					...(job ? serializeJob(job) : { id: jobId }),
+					statusUrl: `/api/jobs/${jobId}`,
+					eventsUrl: `/api/jobs/${jobId}/events`,
+				},
+				202
+			);
+		} catch (error: any) {
+			logger.error("Job submission error:", error);
+			return json({ error: error.message || "Failed to submit job" }, 500);
+		}
+	});
+
+	/**
+	 * Get job status
+	 */
+	router.get("/api/jobs/:id", async (req) => {
+		const params = getParams(router, "/api/jobs/:id", req);
+		const job = getQueueJob(params.id);
+
+		if (!job) {
+			return json({ error: "Job not found" }, 404);
+		}
+
+		return json(serializeJob(job));
+	});
+
+	/**
+	 * Stream job progress as Server-Sent Events
+	 */
+	router.get("/api/jobs/:id/events", async (req) => {
+		const params = getParams(router, "/api/jobs/:id/events", req);
+		const job = getQueueJob(params.id);
+
+		if (!job) {
+			return json({ error: "Job not found" }, 404);
+		}
+
+		const encoder = new TextEncoder();
+		let cleanup = () => {};
+
+		const stream = new ReadableStream({
+			start(controller) {
+				let closed = false;
+				let unsubscribe = () => {};
+				let heartbeat: ReturnType<typeof setInterval> | undefined;
+
+				cleanup = () => {
+					if (closed) return;
+					closed = true;
+					unsubscribe();
+					if (heartbeat) clearInterval(heartbeat);
+					try {
+						controller.close();
+					} catch {
+						// Already closed by the client
+					}
+				};
+
+				const send = (event: JobEvent) => {
+					if (closed) return;
+					controller.enqueue(encoder.encode(`event: ${event.stage}\ndata: ${JSON.stringify(event)}\n\n`));
+					if (event.stage === "completed" || event.stage === "error") {
+						// Let the client fetch artifacts from the job status
+						cleanup();
+					}
+				};
+
+				// Finished jobs get their final state and the stream ends
+				if (job.status === "completed" || job.status === "error") {
+					send({
+						jobId: job.id,
+						stage: job.status,
+						timestamp: job.finished_at || Date.now(),
+						renderId: job.status === "completed" ? job.render_id : undefined,
+						error: job.error_message || undefined,
+					});
+					return;
+				}
+
+				send(
+					getLastJobEvent(job.id) || {
+						jobId: job.id,
+						stage: "queued",
+						timestamp: job.enqueued_at,
+						position: getQueuePosition(job.id),
+					}
+				);
+
+				unsubscribe = subscribeToJob(job.id, send);
+				heartbeat = setInterval(() => {
+					if (!closed) controller.enqueue(encoder.encode(": keepalive\n\n"));
+				}, SSE_HEARTBEAT_MS);
+
+				req.signal.addEventListener("abort", () => cleanup());
+			},
+			cancel() {
+				cleanup();
+			},
+		});
+
+		return new Response(stream, {
+			headers: {
+				"Content-Type": "text/event-stream",
+				"Cache-Control": "no-cache",
+				Connection: "keep-alive",
+				"Access-Control-Allow-Origin": "*",
+			},
+		});
+	});
+
+	/**
+	 * Download a render artifact by id
+	 */
+	router.get("/api/artifacts/:id", async (req) => {
+		try {
+			const params = getParams(router, "/api/artifacts/:id", req);
+			const artifact = statements.getArtifactById.get(params.id) as any;
+
+			if (!artifact) {
+				return json({ error: "Artifact not found" }, 404);
+			}
+
+			const mimeType = artifact.mime_type || "application/octet-stream";
+			const filename = `${artifact.id}.${getExtensionForMime(mimeType)}`;
+
+			// Shared storage hands out a presigned link; local files are streamed through
+			const download = await getArtifactDownload(artifact, filename);
+			if (!download) {
+				return json({ error: "Artifact file is missing from storage" }, 404);
+			}
+			if ("url" in download) {
+				return new Response(null, {
+					status: 302,
+					headers: { Location: download.url, "Access-Control-Allow-Origin": "*" },
+				});
+			}
+
+			return new Response(download.buffer as BodyInit, {
+				headers: {
+					"Content-Type": mimeType,
+					"Content-Disposition": `attachment; filename="${filename}"`,
+					"Cache-Control": "public, max-age=31536000",
+					"Access-Control-Allow-Origin": "*",
+				},
+			});
+		} catch (error: any) {
+			logger.error("Error fetching artifact:", error);
+			return json({ error: error.message || "Failed to fetch artifact" }, 500);
+		}
+	});
+}
@@ -1,6 +1,13 @@
 import { Router, json, getQuery } from "../../utils/router.js";
-import { processRender, getCachedRender } from "../../services/render-service.js";
-import { calculateHash, getFile } from "../../services/storage.js";
+import { processRender, processDiffRender, getCachedRender } from "../../services/render-service.js";
+import { calculateHash, readArtifact } from "../../services/storage.js";
+import { statements } from "../../services/database.js";
+import { IMAGE_FORMATS, SCHEMATIC_EXTENSIONS, getExtensionForMime, normalizeImageFormat } from "../../shared/formats.js";
+import { validateRenderOptions } from "../../shared/render-validation.js";
+import { getSchematicHeaders, getSchematicMetadata } from "../../services/schematic-metadata.js";
+import { detectSchematicFormat } from "../../services/schematic-formats.js";
+import { InvalidSchematicError } from "../../services/schematic-errors.js";
+import { createBuildGuide } from "../../services/build-guide.js";
 import { logger } from "../../shared/logger.js";
 
 export function setupRenderRoutes(router: Router): void {
@@ -31,9 +38,23 @@ export function setupRenderRoutes(router: Router): void {
 				...JSON.parse(optionsJson),
 			};
 
+			// Accept short names like "webp"; the canonical MIME type is what gets cached
+			options.format = normalizeImageFormat(options.format);
+			if (!options.format) {
+				return json({ error: `format must be one of ${IMAGE_FORMATS.join(", ")}` }, 400);
+			}
+
+			const optionsError = validateRenderOptions(options);
+			if (optionsError) {
+				return json({ error: optionsError }, 400);
+			}
+
 			// Convert File to Buffer
 			const arrayBuffer = await schematicFile.arrayBuffer();
 			const buffer = Buffer.from(arrayBuffer);
+			if (detectSchematicFormat(buffer) === "unknown") {
+				return json({ error: `Unrecognised schematic format. Supported: ${SCHEMATIC_EXTENSIONS.map((ext) => `.${ext}`).join(", ")}` }, 400);
+			}
 
 			// Check cache first
 			const query = getQuery(req);
@@ -43,17 +64,20 @@ export function setupRenderRoutes(router: Router): void {
 			if (cached && query.get("cache") !== "false") {
 				logger.info(`Using cached render: ${cached.id}`);
 				// Get the cached artifact
-				const artifactPath = cached.file_path;
-				if (artifactPath) {
-					const cachedBuffer = await getFile(fileHash);
+				const artifacts = statements.getArtifactsByRender.all(cached.id) as any[];
+				const imageArtifact = artifacts.find((artifact) => artifact.type === "image");
+				if (imageArtifact) {
+					const cachedBuffer = await readArtifact(imageArtifact).catch(() => null);
 					if (cachedBuffer) {
-						const filename = `${schematicFile.name.replace(/\.[^/.]+$/, "")}.png`;
+						const mimeType = imageArtifact.mime_type || "image/png";
+						const filename = `${schematicFile.name.replace(/\.[^/.]+$/, "")}.${getExtensionForMime(mimeType)}`;
 						return new Response(cachedBuffer as BodyInit, {
 							headers: {
-								"Content-Type": "image/png",
+								"Content-Type": mimeType,
 								"Content-Disposition": `attachment; filename="${filename}"`,
 								"X-Cache": "HIT",
 								"X-Render-Id": cached.id,
+								...getSchematicHeaders(getSchematicMetadata(fileHash)),
 							},
 						});
 					}
@@ -71,14 +95,15 @@ export function setupRenderRoutes(router: Router): void {
 				userId: clientIp,
 			});
 
-			const filename = `${schematicFile.name.replace(/\.[^/.]+$/, "")}.png`;
+			const filename = `${schematicFile.name.replace(/\.[^/.]+$/, "")}.${getExtensionForMime(result.mimeType)}`;
 			return new Response(result.outputBuffer as BodyInit, {
 				headers: {
-					"Content-Type": "image/png",
+					"Content-Type": result.mimeType,
 					"Content-Disposition": `attachment; filename="${filename}"`,
 					"X-Cache": "MISS",
 					"X-Render-Id": result.renderId,
 					"X-File-Hash": result.fileHash,
+					...getSchematicHeaders(result.schematic),
 				},
 			});
 		} catch (error: any) {
@@ -86,5 +111,169 @@ export function setupRenderRoutes(router: Router): void {
 			return json({ error: error.message || "Failed to render schematic" }, 500);
 		}
 	});
+
+	/**
+	 * Render what changed between two versions of a schematic
+	 * POST /api/diff?align=origin|none (multipart fields `old` and `new`)
+	 *
+	 * The new version is rendered with added blocks tinted green, removed blocks as
+	 * red ghosts and changed block states in yellow. Counts are in the X-Diff-* headers.
+	 */
+	router.post("/api/diff", async (req) => {
+		try {
+			const query = getQuery(req);
+			const align = query.get("align") || "origin";
+			if (align !== "origin" && align !== "none") {
+				return json({ error: "align must be one of origin, none" }, 400);
+			}
+
+			const formData = await req.formData();
+			const oldFile = formData.get("old") as File | null;
+			const newFile = formData.get("new") as File | null;
+			if (!(oldFile instanceof File) || !(newFile instanceof File)) {
+				return json({ error: "Both old and new schematic files are required" }, 400);
+			}
+
+			let extraOptions: any;
+			try {
+				extraOptions = JSON.parse(formData.get("options")?.toString() || "{}");
+			} catch {
+				return json({ error: "options must be valid JSON" }, 400);
+			}
+
+			const options = {
+				width: parseInt(formData.get("width")?.toString() || "1920"),
+				height: parseInt(formData.get("height")?.toString() || "1080"),
+				format: formData.get("format")?.toString() || "image/png",
+				...extraOptions,
+			};
+
+			options.format = normalizeImageFormat(options.format);
+			if (!options.format) {
+				return json({ error: `format must be one of ${IMAGE_FORMATS.join(", ")}` }, 400);
+			}
+
+			const optionsError = validateRenderOptions(options);
+			if (optionsError) {
+				return json({ error: optionsError }, 400);
+			}
+
+			const oldBuffer = Buffer.from(await oldFile.arrayBuffer());
+			const newBuffer = Buffer.from(await newFile.arrayBuffer());
+			if (detectSchematicFormat(oldBuffer) === "unknown" || detectSchematicFormat(newBuffer) === "unknown") {
+				return json({ error: `Unrecognised schematic format. Supported: ${SCHEMATIC_EXTENSIONS.map((ext) => `.${ext}`).join(", ")}` }, 400);
+			}
+
+			logger.info(`Received diff: ${oldFile.name} -> ${newFile.name}`);
+
+			const clientIp = req.headers.get("x-forwarded-for") || req.headers.get("x-real-ip") || "unknown";
+			const { result, stats } = await processDiffRender(
+				{
+					schematicData: newBuffer,
+					options,
+					type: "image",
+					source: "api",
+					originalFilename: newFile.name,
+					userId: clientIp,
+				},
+				{ data: oldBuffer, filename: oldFile.name },
+				align
+			);
+
+			const filename = `${newFile.name.replace(/\.[^/.]+$/, "")}_diff.${getExtensionForMime(result.mimeType)}`;
+			return new Response(result.outputBuffer as BodyInit, {
+				headers: {
+					"Content-Type": result.mimeType,
+					"Content-Disposition": `attachment; filename="${filename}"`,
+					"X-Render-Id": result.renderId,
+					"X-File-Hash": result.fileHash,
+					"X-Diff-Added": String(stats.added),
+					"X-Diff-Removed": String(stats.removed),
+					"X-Diff-Changed": String(stats.changed),
+					"X-Diff-Stats": JSON.stringify(stats),
+				},
+			});
+		} catch (error: any) {
+			if (error instanceof InvalidSchematicError) {
+				logger.warn(`Rejected schematic diff: ${error.message}`);
+				return json({ error: error.message }, 422);
+			}
+			logger.error("Schematic diff error:", error);
+			return json({ error: error.message || "Failed to render diff" }, 500);
+		}
+	});
+
+	/**
+	 * Build guide: one top-down image per layer plus its material list, zipped
+	 * POST /api/build-guide (multipart field `schematic`; `options.layers` limits the range)
+	 */
+	router.post("/api/build-guide", async (req) => {
+		try {
+			const formData = await req.formData();
+			const schematicFile = formData.get("schematic") as File | null;
+			if (!schematicFile || !(schematicFile instanceof File)) {
+				return json({ error: "Schematic file is required" }, 400);
+			}
+
+			let extraOptions: any;
+			try {
+				extraOptions = JSON.parse(formData.get("options")?.toString() || "{}");
+			} catch {
+				return json({ error: "options must be valid JSON" }, 400);
+			}
+
+			const { layers, ...options } = {
+				width: parseInt(formData.get("width")?.toString() || "1920"),
+				height: parseInt(formData.get("height")?.toString() || "1080"),
+				format: formData.get("format")?.toString() || "image/png",
+				...extraOptions,
+			};
+
+			options.format = normalizeImageFormat(options.format);
+			if (!options.format) {
+				return json({ error: `format must be one of ${IMAGE_FORMATS.join(", ")}` }, 400);
+			}
+
+			const optionsError = validateRenderOptions({ ...options, layers });
+			if (optionsError) {
+				return json({ error: optionsError }, 400);
+			}
+
+			const buffer = Buffer.from(await schematicFile.arrayBuffer());
+			if (detectSchematicFormat(buffer) === "unknown") {
+				return json({ error: `Unrecognised schematic format. Supported: ${SCHEMATIC_EXTENSIONS.map((ext) => `.${ext}`).join(", ")}` }, 400);
+			}
+
+			logger.info(`Received build guide request: ${schematicFile.name}`);
+
+			const clientIp = req.headers.get("x-forwarded-for") || req.headers.get("x-real-ip") || "unknown";
+			const guide = await createBuildGuide(
+				{
+					schematicData: buffer,
+					options,
+					source: "api",
+					originalFilename: schematicFile.name,
+					userId: clientIp,
+				},
+				layers
+			);
+
+			const filename = `${schematicFile.name.replace(/\.[^/.]+$/, "")}_build_guide.zip`;
+			return new Response(guide.zip as BodyInit, {
+				headers: {
+					"Content-Type": "application/zip",
+					"Content-Disposition": `attachment; filename="${filename}"`,
+					"X-Guide-Layers": String(guide.layers),
+				},
+			});
+		} catch (error: any) {
+			if (error instanceof InvalidSchematicError) {
+				logger.warn(`Rejected build guide: ${error.message}`);
+				return json({ error: error.message }, 422);
+			}
+			logger.error("Build guide error:", error);
+			return json({ error: error.message || "Failed to create build guide" }, 500);
+		}
+	});
 }
 
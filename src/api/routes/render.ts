@@ -1,7 +1,12 @@
 import { Router } from "express";
 import multer from "multer";
 import { processRender, getCachedRender } from "../../services/render-service.js";
-import { calculateHash, getFile } from "../../services/storage.js";
+import { calculateHash, readArtifact } from "../../services/storage.js";
+import { statements } from "../../services/database.js";
+import { IMAGE_FORMATS, SCHEMATIC_EXTENSIONS, getExtensionForMime, normalizeImageFormat } from "../../shared/formats.js";
+import { validateRenderOptions } from "../../shared/render-validation.js";
+import { getSchematicHeaders, getSchematicMetadata } from "../../services/schematic-metadata.js";
+import { detectSchematicFormat } from "../../services/schematic-formats.js";
 import { logger } from "../../shared/logger.js";
 
 const router = Router();
@@ -33,6 +38,21 @@ router.post(
 				...JSON.parse(req.body.options || "{}"),
 			};
 
+			// Accept short names like "webp"; the canonical MIME type is what gets cached
+			options.format = normalizeImageFormat(options.format);
+			if (!options.format) {
+				return res.status(400).json({ error: `format must be one of ${IMAGE_FORMATS.join(", ")}` });
+			}
+
+			const optionsError = validateRenderOptions(options);
+			if (optionsError) {
+				return res.status(400).json({ error: optionsError });
+			}
+
+			if (detectSchematicFormat(req.file.buffer) === "unknown") {
+				return res.status(400).json({ error: `Unrecognised schematic format. Supported: ${SCHEMATIC_EXTENSIONS.map((ext) => `.${ext}`).join(", ")}` });
+			}
+
 			// Check cache first
 			const fileHash = calculateHash(req.file.buffer);
 			const cached = getCachedRender(fileHash, options);
@@ -40,15 +60,18 @@ router.post(
 			if (cached && req.query.cache !== 'false') {
 				logger.info(`Using cached render: ${cached.id}`);
 				// Get the cached artifact
-				const artifactPath = cached.file_path;
-				if (artifactPath) {
-					const cachedBuffer = await getFile(fileHash);
+				const artifacts = statements.getArtifactsByRender.all(cached.id) as any[];
+				const imageArtifact = artifacts.find((artifact) => artifact.type === "image");
+				if (imageArtifact) {
+					const cachedBuffer = await readArtifact(imageArtifact).catch(() => null);
 					if (cachedBuffer) {
-						const filename = `${req.file.originalname.replace(/\.[^/.]+$/, "")}.png`;
-						res.set("Content-Type", "image/png");
+						const mimeType = imageArtifact.mime_type || "image/png";
+						const filename = `${req.file.originalname.replace(/\.[^/.]+$/, "")}.${getExtensionForMime(mimeType)}`;
+						res.set("Content-Type", mimeType);
 						res.set("Content-Disposition", `attachment; filename="${filename}"`);
 						res.set("X-Cache", "HIT");
 						res.set("X-Render-Id", cached.id);
+						res.set(getSchematicHeaders(getSchematicMetadata(fileHash)));
 						return res.send(cachedBuffer);
 					}
 				}
@@ -64,12 +87,13 @@ router.post(
 				userId: req.ip || 'unknown',
 			});
 
-			const filename = `${req.file.originalname.replace(/\.[^/.]+$/, "")}.png`;
-			res.set("Content-Type", "image/png");
+			const filename = `${req.file.originalname.replace(/\.[^/.]+$/, "")}.${getExtensionForMime(result.mimeType)}`;
+			res.set("Content-Type", result.mimeType);
 			res.set("Content-Disposition", `attachment; filename="${filename}"`);
 			res.set("X-Cache", "MISS");
 			res.set("X-Render-Id", result.renderId);
 			res.set("X-File-Hash", result.fileHash);
+			res.set(getSchematicHeaders(result.schematic));
 			res.send(result.outputBuffer);
 		} catch (error: any) {
 			logger.error("Schematic render error:", error);
@@ -0,0 +1,131 @@
+import { Router, json, getParams, getQuery } from "../../utils/router.js";
+import { statements } from "../../services/database.js";
+import { getBlockCounts } from "../../services/schematic-metadata.js";
+import {
+	MATERIAL_EXPORT_FORMATS,
+	MaterialExportFormat,
+	buildMaterialList,
+	formatMaterialsCsv,
+	formatMaterialsText,
+} from "../../services/materials.js";
+import { CONVERSION_TARGETS, ConversionTarget, convertSchematic } from "../../services/schematic-converter.js";
+import { InvalidSchematicError } from "../../services/schematic-errors.js";
+import { detectSchematicFormat } from "../../services/schematic-formats.js";
+import { SCHEMATIC_EXTENSIONS } from "../../shared/formats.js";
+import { logger } from "../../shared/logger.js";
+
+const FILE_HASH_PATTERN = /^[a-f0-9]{64}$/;
+
+export function setupSchematicRoutes(router: Router): void {
+	/**
+	 * Convert a schematic to another format
+	 * POST /api/convert?to=litematic|schem|schematic|nbt (multipart field `schematic`)
+	 *
+	 * Returns the converted file; the JSON report of anything lost on the way
+	 * is in the X-Conversion-Report header.
+	 */
+	router.post("/api/convert", async (req) => {
+		try {
+			const query = getQuery(req);
+			const to = (query.get("to") || "").toLowerCase() as ConversionTarget;
+			if (!CONVERSION_TARGETS.includes(to)) {
+				return json({ error: `to must be one of ${CONVERSION_TARGETS.join(", ")}` }, 400);
+			}
+
+			const formData = await req.formData();
+			const schematicFile = formData.get("schematic") as File | null;
+			if (!schematicFile || !(schematicFile instanceof File)) {
+				return json({ error: "No schematic file provided" }, 400);
+			}
+
+			const buffer = Buffer.from(await schematicFile.arrayBuffer());
+			if (detectSchematicFormat(buffer) === "unknown") {
+				return json({ error: `Unrecognised schematic format. Supported: ${SCHEMATIC_EXTENSIONS.map((ext) => `.${ext}`).join(", ")}` }, 400);
+			}
+
+			const result = await convertSchematic(buffer, to, schematicFile.name);
+
+			return new Response(result.data as BodyInit, {
+				headers: {
+					"Content-Type": "application/octet-stream",
+					"Content-Disposition": `attachment; filename="${result.filename}"`,
+					"X-Cache": result.cached ? "HIT" : "MISS",
+					"X-File-Hash": result.fileHash,
+					"X-Source-File-Hash": result.sourceHash,
+					"X-Conversion-Lossy": String(result.report.lossy),
+					"X-Conversion-Report": JSON.stringify(result.report),
+				},
+			});
+		} catch (error: any) {
+			// Files that parse as a schematic but can't be read or written in full
+			if (error instanceof InvalidSchematicError) {
+				logger.warn(`Rejected schematic conversion: ${error.message}`);
+				return json({ error: error.message }, 422);
+			}
+			logger.error("Schematic conversion error:", error);
+			return json({ error: error.message || "Failed to convert schematic" }, 500);
+		}
+	});
+
+	/**
+	 * Bill of materials for a stored schematic
+	 * GET /api/schematics/:hash/materials?format=json|csv|txt&mergeStates=false
+	 */
+	router.get("/api/schematics/:hash/materials", async (req) => {
+		try {
+			const params = getParams(router, "/api/schematics/:hash/materials", req);
+			const query = getQuery(req);
+
+			if (!FILE_HASH_PATTERN.test(params.hash)) {
+				return json({ error: "Invalid file hash" }, 400);
+			}
+
+			const format = (query.get("format") || "json").toLowerCase() as MaterialExportFormat;
+			if (!MATERIAL_EXPORT_FORMATS.includes(format)) {
+				return json({ error: `format must be one of ${MATERIAL_EXPORT_FORMATS.join(", ")}` }, 400);
+			}
+
+			const file = statements.getFileCache.get(params.hash) as any;
+			if (!file) {
+				return json({ error: "Schematic not found" }, 404);
+			}
+
+			const blockCounts = await getBlockCounts(params.hash);
+			if (!blockCounts) {
+				return json({ error: "Could not read blocks from this schematic" }, 422);
+			}
+
+			const list = buildMaterialList(blockCounts, { mergeStates: query.get("mergeStates") !== "false" });
+			const baseName = (file.original_filename || params.hash.slice(0, 12)).replace(/\.[^/.]+$/, "");
+
+			if (format === "csv") {
+				return new Response(formatMaterialsCsv(list), {
+					headers: {
+						"Content-Type": "text/csv; charset=utf-8",
+						"Content-Disposition": `attachment; filename="${baseName}_materials.csv"`,
+					},
+				});
+			}
+
+			if (format === "txt") {
+				return new Response(formatMaterialsText(list, baseName), {
+					headers: {
+						"Content-Type": "text/plain; charset=utf-8",
+						"Content-Disposition": `attachment; filename="material_list_${baseName}.txt"`,
+					},
+				});
+			}
+
+			return json({
+				fileHash: params.hash,
+				filename: file.original_filename,
+				totalItems: list.totalItems,
+				uniqueItems: list.entries.length,
+				materials: list.entries,
+			});
+		} catch (error: any) {
+			logger.error("Material list error:", error);
+			return json({ error: error.message || "Failed to build material list" }, 500);
+		}
+	});
+}
@@ -8,6 +8,8 @@ import { fileURLToPath } from "url";
 
 import { setupRoutes } from "./api/routes/index.js";
 import { initPuppeteerService } from "./services/puppeteer.js";
+import { initRenderQueue } from "./services/render-queue.js";
+import { initCacheCleanup } from "./services/storage.js";
 import { initDiscordBot } from "./bot/index.js";
 import { logger } from "./shared/logger.js";
 import {
@@ -174,6 +176,12 @@ async function startServer() {
 		await initPuppeteerService();
 		logger.info("✅ Puppeteer service initialized");
 
+		// Start processing queued renders (including jobs interrupted by a restart)
+		initRenderQueue();
+
+		// Evict least recently used schematics and renders past the storage budget
+		initCacheCleanup();
+
 		try {
 			if (process.env.DISCORD_TOKEN) {
 				await initDiscordBot();
@@ -3,6 +3,8 @@ import path from "path";
 import { fileURLToPath } from "url";
 import { Router, json, getQuery, getParams, parseJson } from "./utils/router.js";
 import { initPuppeteerService, isPuppeteerReady } from "./services/puppeteer.js";
+import { initRenderQueue } from "./services/render-queue.js";
+import { initCacheCleanup } from "./services/storage.js";
 import { initDiscordBot } from "./bot/index.js";
 import { logger } from "./shared/logger.js";
 import {
@@ -18,6 +20,8 @@ import { setupAdminRoutes } from "./api/routes/admin.bun.js";
 import { setupAnalyticsRoutes } from "./api/routes/analytics.bun.js";
 import { setupRenderRoutes } from "./api/routes/render.bun.js";
 import { setupBatchDownloadRoutes } from "./api/routes/batch-download.bun.js";
+import { setupJobRoutes } from "./api/routes/jobs.bun.js";
+import { setupSchematicRoutes } from "./api/routes/schematics.bun.js";
 // TODO: Convert synthase routes
 
 const __filename = fileURLToPath(import.meta.url);
@@ -38,6 +42,8 @@ setupAdminRoutes(router);
 setupAnalyticsRoutes(router);
 setupRenderRoutes(router);
 setupBatchDownloadRoutes(router);
+setupJobRoutes(router);
+setupSchematicRoutes(router);
 
 // Health check
 router.get("/health", async (req) => {
@@ -60,6 +66,14 @@ router.get("/api", async (req) => {
 		endpoints: [
 			"GET /health",
 			"POST /api/render-schematic",
+			"POST /api/diff",
+			"POST /api/build-guide",
+			"POST /api/jobs",
+			"GET /api/jobs/:id",
+			"GET /api/jobs/:id/events",
+			"GET /api/artifacts/:id",
+			"POST /api/convert",
+			"GET /api/schematics/:hash/materials",
 			"GET /api/admin/metrics",
 			"GET /api/admin/active-renders",
 			"GET /api/admin/render-history",
@@ -236,6 +250,12 @@ async function startServer() {
 		await initPuppeteerService();
 		logger.info("✅ Puppeteer service initialized");
 
+		// Start processing queued renders (including jobs interrupted by a restart)
+		initRenderQueue();
+
+		// Evict least recently used schematics and renders past the storage budget
+		initCacheCleanup();
+
 		try {
 			if (process.env.DISCORD_TOKEN) {
 				await initDiscordBot();
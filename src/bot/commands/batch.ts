@@ -12,7 +12,7 @@ import { readFile, writeFile, mkdir } from 'fs/promises';
 import { join } from 'path';
 import { randomUUID } from 'crypto';
 import { statements } from '../../services/database';
-import { calculateHash } from '../../services/storage';
+import { calculateHash, readArtifact } from '../../services/storage';
 import {
 	extractZipSecurely,
 	createResultZip,
@@ -54,7 +54,7 @@ export default class Batch implements ICommand {
 		.addAttachmentOption((option) =>
 			option
 				.setName('zip')
-				.setDescription('A zip file containing .schem or .litematic files')
+				.setDescription('A zip of .schem, .litematic, .schematic, .nbt or .mcstructure files')
 				.setRequired(true)
 		)
 		.addStringOption((option) =>
@@ -176,7 +176,7 @@ export default class Batch implements ICommand {
 
 			// Check if any schematics were found
 			if (extraction.schematics.length === 0) {
-				let message = '❌ **No valid schematics found in the zip file.**\n\nSupported formats: `.schem`, `.litematic`';
+				let message = '❌ **No valid schematics found in the zip file.**\n\nSupported formats: `.schem`, `.litematic`, `.schematic`, `.nbt`, `.mcstructure`';
 				if (extraction.skippedFiles.length > 0) {
 					message += `\n\n**Skipped files:**\n${extraction.skippedFiles.slice(0, 10).map((f) => `• ${f}`).join('\n')}`;
 					if (extraction.skippedFiles.length > 10) {
@@ -267,8 +267,10 @@ export default class Batch implements ICommand {
 						const imageArtifact = artifacts.find((a: any) => a.type === 'image');
 
 						if (imageArtifact) {
-							const fs = await import('fs/promises');
-							const cachedBuffer = await fs.readFile(imageArtifact.file_path);
+							const cachedBuffer = await readArtifact(imageArtifact);
+							if (!cachedBuffer) {
+								throw new Error('Cached artifact is missing from storage');
+							}
 
 							results.push({
 								name: schematic.name,
@@ -310,6 +312,7 @@ export default class Batch implements ICommand {
 								options: renderOptions,
 								type: 'image',
 								source: 'discord',
+								priority: 'batch',
 								originalFilename: schematic.name,
 								userId: interaction.user.id,
 								channelId: interaction.channelId,
@@ -0,0 +1,59 @@
+import { AttachmentBuilder, ChatInputCommandInteraction, MessageFlags, SlashCommandBuilder } from "discord.js";
+import { ICommand } from "../command";
+import { logger } from "../../shared/logger";
+import { checkError } from "../utils/render";
+import { convertSchematic, ConversionTarget } from "../../services/schematic-converter";
+
+export default class Convert implements ICommand {
+	info = new SlashCommandBuilder()
+		.setName("convert")
+		.setDescription("Converts a schematic to another format")
+		.addAttachmentOption((option) => option
+			.setName("schematic")
+			.setDescription("The schematic to convert")
+			.setRequired(true)
+		)
+		.addStringOption((option) => option
+			.setName("to")
+			.setDescription("Target format")
+			.setRequired(true)
+			.addChoices(
+				{ name: "Litematica (.litematic)", value: "litematic" },
+				{ name: "WorldEdit / Sponge (.schem)", value: "schem" },
+				{ name: "Legacy MCEdit (.schematic)", value: "schematic" },
+				{ name: "Structure block (.nbt)", value: "nbt" },
+			)
+		);
+
+	async handle(interaction: ChatInputCommandInteraction) {
+		// Options
+		const attachment = interaction.options.getAttachment("schematic");
+		const to = interaction.options.getString("to", true) as ConversionTarget;
+
+		// Pre-checking
+		const error = checkError(attachment);
+		if (error != null) {
+			await interaction.reply({ content: error, flags: MessageFlags.Ephemeral });
+			return;
+		}
+
+		await interaction.deferReply();
+
+		try {
+			const response = await fetch(attachment!.url);
+			if (!response.ok)
+				throw new Error(`Failed to download attachment: ${response.statusText}`);
+
+			const result = await convertSchematic(Buffer.from(await response.arrayBuffer()), to, attachment!.name);
+			const warnings = result.report.warnings.map(warning => `⚠️ ${warning}`);
+
+			await interaction.editReply({
+				content: [`✅ Converted **${attachment!.name}** to \`.${to}\``, ...warnings].join("\n"),
+				files: [new AttachmentBuilder(result.data, { name: result.filename })],
+			});
+		} catch (error) {
+			logger.error(`Failed to convert "${attachment!.name}" to ${to}:`, error);
+			await interaction.editReply({ content: `❌ Could not convert this schematic.` });
+		}
+	}
+}
@@ -0,0 +1,62 @@
+import { ChatInputCommandInteraction, MessageFlags, SlashCommandBuilder } from "discord.js";
+import { ICommand } from "../command";
+import { logger } from "../../shared/logger";
+import { checkError } from "../utils/render";
+import { createDiffEmbed, renderDiff } from "../utils/diff";
+
+export default class Diff implements ICommand {
+	info = new SlashCommandBuilder()
+		.setName("diff")
+		.setDescription("Shows what changed between two versions of a schematic")
+		.addAttachmentOption((option) => option
+			.setName("old")
+			.setDescription("The earlier version")
+			.setRequired(true)
+		)
+		.addAttachmentOption((option) => option
+			.setName("new")
+			.setDescription("The later version")
+			.setRequired(true)
+		)
+		.addBooleanOption((option) => option
+			.setName("isometric")
+			.setDescription("Use the isometric camera")
+		)
+		.addBooleanOption((option) => option
+			.setName("keep_position")
+			.setDescription("Compare raw coordinates instead of lining up both builds' corners")
+		);
+
+	async handle(interaction: ChatInputCommandInteraction) {
+		// Options
+		const oldAttachment = interaction.options.getAttachment("old");
+		const newAttachment = interaction.options.getAttachment("new");
+		const isometric = interaction.options.getBoolean("isometric") ?? false;
+		const keepPosition = interaction.options.getBoolean("keep_position") ?? false;
+
+		// Pre-checking
+		const error = checkError(oldAttachment) ?? checkError(newAttachment);
+		if (error != null) {
+			await interaction.reply({ content: error, flags: MessageFlags.Ephemeral });
+			return;
+		}
+
+		await interaction.deferReply();
+
+		try {
+			const { file, stats } = await renderDiff(
+				oldAttachment!,
+				newAttachment!,
+				{ isometric, align: keepPosition ? "none" : "origin" },
+				interaction.user.id
+			);
+			await interaction.editReply({
+				files: [file],
+				embeds: [createDiffEmbed(stats, oldAttachment!.name, newAttachment!.name)],
+			});
+		} catch (error) {
+			logger.error(`Failed to diff "${oldAttachment!.name}" and "${newAttachment!.name}":`, error);
+			await interaction.editReply({ content: `❌ Could not compare these schematics.` });
+		}
+	}
+}
@@ -0,0 +1,43 @@
+import { ChatInputCommandInteraction, MessageFlags, SlashCommandBuilder } from "discord.js";
+import { ICommand } from "../command";
+import { logger } from "../../shared/logger";
+import { checkError } from "../utils/render";
+import { getMaterials, createMaterialsReply } from "../utils/materials";
+
+export default class Materials implements ICommand {
+	info = new SlashCommandBuilder()
+		.setName("materials")
+		.setDescription("Lists the blocks needed to build a schematic")
+		.addAttachmentOption((option) => option
+			.setName("schematic")
+			.setDescription("The schematic to count")
+			.setRequired(true)
+		)
+		.addBooleanOption((option) => option
+			.setName("split_states")
+			.setDescription("List each block state separately (e.g. stairs facing north/south)")
+		);
+
+	async handle(interaction: ChatInputCommandInteraction) {
+		// Options
+		const attachment = interaction.options.getAttachment("schematic");
+		const splitStates = interaction.options.getBoolean("split_states") ?? false;
+
+		// Pre-checking
+		const error = checkError(attachment);
+		if (error != null) {
+			await interaction.reply({ content: error, flags: MessageFlags.Ephemeral });
+			return;
+		}
+
+		await interaction.deferReply();
+
+		try {
+			const list = await getMaterials(attachment!, !splitStates);
+			await interaction.editReply(createMaterialsReply(list, attachment!.name));
+		} catch (error) {
+			logger.error(`Failed to build material list for "${attachment!.name}":`, error);
+			await interaction.editReply({ content: `❌ Could not read the blocks in this schematic.` });
+		}
+	}
+}
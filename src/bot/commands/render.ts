@@ -2,7 +2,7 @@ import { ChatInputCommandInteraction, MessageFlags, SlashCommandBuilder } from "
 import { ICommand } from "../command";
 import { logger } from "../../shared/logger";
 import { TimeoutError } from "puppeteer";
-import { checkError, render, createRenderActionButtons, storeAttachmentUrl, addRotationReactions } from "../utils/render";
+import { checkError, render, createRenderActionButtons, storeAttachmentUrl, addRotationReactions, createSchematicEmbeds, RenderCustomOptions } from "../utils/render";
 
 export default class Render implements ICommand {
 	info = new SlashCommandBuilder()
@@ -25,12 +25,25 @@ export default class Render implements ICommand {
 				.setDescription("The schematic to render")
 				.setRequired(true)
 			)
+			.addStringOption((option) => option
+				.setName("camera_path")
+				.setDescription("How the camera moves around the build")
+				.addChoices(
+					{ name: "Circular", value: "circular" },
+					{ name: "Orbit", value: "orbit" },
+					{ name: "Static", value: "static" },
+					{ name: "Cinematic", value: "cinematic" },
+				)
+			)
 		);
 
 	async handle(interaction: ChatInputCommandInteraction) {
 		// Options
 		const attachment = interaction.options.getAttachment("schematic");
 		const videoMode = interaction.options.getSubcommand() == "video";
+		const cameraPath = videoMode
+			? (interaction.options.getString("camera_path") ?? undefined) as RenderCustomOptions["cameraPath"]
+			: undefined;
 
 		// Pre-checking
 		const error = checkError(attachment);
@@ -43,7 +56,7 @@ export default class Render implements ICommand {
 		await interaction.deferReply();
 
 		try {
-			const file = await render(attachment!, videoMode);
+			const { file, schematic } = await render(attachment!, videoMode, { cameraPath }, interaction.user.id);
 
 			// Store attachment for button interactions
 			const urlHash = Buffer.from(attachment!.url).toString('base64').substring(0, 50);
@@ -55,6 +68,7 @@ export default class Render implements ICommand {
 			const response = await interaction.editReply({
 				content: `✅ Rendered **${attachment!.name}** • Try different views below:`,
 				files: [file],
+				embeds: createSchematicEmbeds(schematic),
 				components: buttons
 			});
 
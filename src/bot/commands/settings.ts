@@ -39,17 +39,17 @@ export default class Settings implements ICommand {
 				},
 				{
 					name: "🆚 Compare Views",
-					value: "Right-click message → **Compare views**\nRenders both perspective AND isometric side-by-side!",
+					value: "Right-click message → **Compare views**\nFront, right, top and isometric views in one image!",
 					inline: false
 				},
 				{
 					name: "📝 Supported Formats",
-					value: "• `.schem` (Sponge Schematic)\n• `.litematic` (Litematica)\n• Max file size: 25MB",
+					value: "• `.schem` (Sponge Schematic)\n• `.litematic` (Litematica)\n• `.schematic` (legacy MCEdit)\n• `.nbt` (structure block)\n• `.mcstructure` (Bedrock)\n• Max file size: 25MB",
 					inline: false
 				},
 				{
 					name: "⚡ Pro Tips",
-					value: "• Buttons stay active for 30 minutes\n• Try different views without re-uploading\n• 4K renders take longer but look amazing\n• Videos are 5 seconds, 360° rotation",
+					value: "• Buttons stay active for 30 minutes\n• Try different views without re-uploading\n• 4K renders take longer but look amazing\n• Videos are 5 seconds; pick a camera path (circular, orbit, static, cinematic) with `/render video`",
 					inline: false
 				}
 			)
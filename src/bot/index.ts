@@ -8,6 +8,7 @@ import {
 	UserContextMenuCommandInteraction,
 	MessageContextMenuCommandInteraction,
 	ButtonInteraction,
+	ModalSubmitInteraction,
 	MessageReaction,
 	User as DiscordUser,
 	Partials
@@ -20,8 +21,14 @@ import {
 	createRenderActionButtons,
 	storeAttachmentUrl,
 	RenderCustomOptions,
-	addRotationReactions
+	addRotationReactions,
+	createSchematicEmbeds,
+	CUTAWAY_CAP_COLOR,
+	BUTTON_BACKGROUNDS
 } from "./utils/render.js";
+import { RenderVariant } from "../shared/types.js";
+import { createFilterModal, describeFilter, parseFilterModal } from "./utils/filter.js";
+import { validateBlockFilter } from "../shared/block-filter.js";
 import { TimeoutError } from "puppeteer";
 
 let client: Client | null = null;
@@ -92,6 +99,21 @@ export async function initDiscordBot(): Promise<void> {
 					}
 				}
 			}
+
+			// Handle modal submissions (block filter)
+			if (interaction.isModalSubmit()) {
+				try {
+					await handleModalSubmit(interaction);
+				} catch (error) {
+					logger.error("Error handling modal submission:", error);
+					if (!interaction.replied && !interaction.deferred) {
+						await interaction.reply({
+							content: "❌ An error occurred while processing your request.",
+							flags: MessageFlags.Ephemeral
+						});
+					}
+				}
+			}
 		});
 
 		client.on(Events.MessageReactionAdd, async (reaction, user) => {
@@ -224,38 +246,60 @@ async function handleButtonInteraction(interaction: ButtonInteraction) {
 	const options: RenderCustomOptions = {};
 	let isVideo = false;
 	let description = "";
+	let prefetch: RenderVariant[] = [];
 
 	switch (action) {
 		case 'iso':
 			options.isometric = true;
+			prefetch = [{ isometric: false }];
 			description = "🏛️ Isometric view";
 			break;
 		case 'persp':
 			options.isometric = false;
+			prefetch = [{ isometric: true }];
 			description = "📐 Perspective view";
 			break;
 		case 'video':
 			isVideo = true;
 			description = "🎬 360° video";
 			break;
+		case 'build':
+			isVideo = true;
+			options.animation = 'build';
+			description = "🧱 build timelapse";
+			break;
+		case 'cutx':
+		case 'cuty':
+		case 'cutz': {
+			const axis = action.slice(3) as 'x' | 'y' | 'z';
+			options.clip = { axis, capColor: CUTAWAY_CAP_COLOR };
+			description = `✂️ ${axis.toUpperCase()} cutaway`;
+			break;
+		}
 		case 'bg':
 			const bgType = parts[2];
+			options.background = BUTTON_BACKGROUNDS[bgType];
 			if (bgType === 'transparent') {
-				options.background = 'transparent';
 				description = "☁️ Transparent background";
 			} else if (bgType === 'dark') {
-				options.background = '#1a1a1a';
 				description = "🌑 Dark background";
 			} else if (bgType === 'light') {
-				options.background = '#f0f0f0';
 				description = "☀️ Light background";
 			}
+			// The other backgrounds come from the same load, ready for the next click
+			prefetch = Object.values(BUTTON_BACKGROUNDS)
+				.filter((background) => background !== options.background)
+				.map((background) => ({ background }));
 			break;
 		case 'hd':
 			options.width = 3840;
 			options.height = 2160;
 			description = "✨ 4K render";
 			break;
+		case 'filter':
+			// The modal submission does the rendering
+			await interaction.showModal(createFilterModal(urlHash));
+			return;
 		default:
 			await interaction.reply({
 				content: "❌ Unknown render action.",
@@ -264,6 +308,55 @@ async function handleButtonInteraction(interaction: ButtonInteraction) {
 			return;
 	}
 
+	await rerender(interaction, cached, isVideo, options, description, prefetch);
+}
+
+async function handleModalSubmit(interaction: ModalSubmitInteraction) {
+	const customId = interaction.customId;
+	if (!customId.startsWith('filter_')) {
+		logger.warn(`Unknown modal customId: ${customId}`);
+		return;
+	}
+
+	const urlHash = customId.slice('filter_'.length);
+	const cached = getAttachmentFromCache(urlHash);
+	if (!cached) {
+		await interaction.reply({
+			content: "❌ This render has expired. Please upload the schematic again.",
+			flags: MessageFlags.Ephemeral
+		});
+		return;
+	}
+
+	const filter = parseFilterModal(interaction);
+	if (!filter.hide && !filter.only && !filter.highlight) {
+		await interaction.reply({
+			content: "❌ Enter at least one block id or tag to filter by.",
+			flags: MessageFlags.Ephemeral
+		});
+		return;
+	}
+
+	const filterError = validateBlockFilter(filter);
+	if (filterError) {
+		await interaction.reply({ content: `❌ ${filterError}`, flags: MessageFlags.Ephemeral });
+		return;
+	}
+
+	await rerender(interaction, cached, false, { filter }, describeFilter(filter));
+}
+
+/**
+ * Render a cached attachment again with new options and reply with it
+ */
+async function rerender(
+	interaction: ButtonInteraction | ModalSubmitInteraction,
+	cached: { url: string, name: string },
+	isVideo: boolean,
+	options: RenderCustomOptions,
+	description: string,
+	prefetch: RenderVariant[] = []
+) {
 	// Acknowledge the interaction
 	await interaction.deferReply();
 
@@ -276,14 +369,15 @@ async function handleButtonInteraction(interaction: ButtonInteraction) {
 		} as any;
 
 		// Render with new options
-		const result = await render(mockAttachment, isVideo, options);
+		const { file, schematic } = await render(mockAttachment, isVideo, options, interaction.user.id, prefetch);
 
 		// Update buttons to reflect current state
 		const buttons = createRenderActionButtons(cached.url, options);
 
 		const response = await interaction.editReply({
 			content: `✅ Re-rendered **${cached.name}** with ${description}`,
-			files: [result],
+			files: [file],
+			embeds: createSchematicEmbeds(schematic),
 			components: buttons
 		});
 
@@ -291,10 +385,10 @@ async function handleButtonInteraction(interaction: ButtonInteraction) {
 			await addRotationReactions(response);
 		}
 
-		logger.info(`Button render completed: ${description} for ${cached.name}`);
+		logger.info(`Re-render completed: ${description} for ${cached.name}`);
 
 	} catch (error) {
-		logger.error(`Button render failed:`, error);
+		logger.error(`Re-render failed:`, error);
 
 		if (error instanceof TimeoutError) {
 			await interaction.editReply({
@@ -371,13 +465,14 @@ async function handleRotationReaction(reaction: MessageReaction, user: DiscordUs
 			isometric: isIsometric
 		};
 
-		const result = await render(mockAttachment, false, options);
+		const { file, schematic } = await render(mockAttachment, false, options, user.id);
 
 		const actionButtons = createRenderActionButtons(cached.url, options);
 
 		await message.edit({
 			content: `✅ Rotated **${cached.name}** to ${newRotation}°`,
-			files: [result],
+			files: [file],
+			embeds: createSchematicEmbeds(schematic),
 			components: actionButtons
 		});
 
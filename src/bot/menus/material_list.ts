@@ -0,0 +1,32 @@
+import { ApplicationCommandType, ContextMenuCommandBuilder, MessageContextMenuCommandInteraction, MessageFlags } from "discord.js";
+import { IMenuCommand } from "../command";
+import { checkError } from "../utils/render";
+import { getMaterials, createMaterialsReply } from "../utils/materials";
+import { logger } from "../../shared/logger";
+
+export default class MaterialList implements IMenuCommand {
+	info = new ContextMenuCommandBuilder()
+		.setName("Material list")
+		.setType(ApplicationCommandType.Message);
+
+	async handle(interaction: MessageContextMenuCommandInteraction) {
+		const attachments = interaction.targetMessage.attachments;
+		const attachment = attachments.find(attachment => checkError(attachment) == null);
+
+		// Pre-checking
+		if (attachment == undefined) {
+			await interaction.reply({ content: "❌ no valid attachment found on this message", flags: MessageFlags.Ephemeral });
+			return;
+		}
+
+		await interaction.deferReply();
+
+		try {
+			const list = await getMaterials(attachment);
+			await interaction.editReply(createMaterialsReply(list, attachment.name));
+		} catch (error) {
+			logger.error(`Failed to build material list for "${attachment.name}":`, error);
+			await interaction.editReply({ content: `❌ Could not read the blocks in this schematic.` });
+		}
+	}
+}
@@ -1,6 +1,6 @@
 import { ApplicationCommandType, ContextMenuCommandBuilder, MessageContextMenuCommandInteraction, MessageFlags } from "discord.js";
 import { IMenuCommand } from "../command";
-import { checkError, render, storeAttachmentUrl } from "../utils/render";
+import { checkError, render, storeAttachmentUrl, createSchematicEmbeds } from "../utils/render";
 import { TimeoutError } from "puppeteer";
 import { logger } from "../../shared/logger";
 
@@ -23,21 +23,24 @@ export default class RenderComparison implements IMenuCommand {
 		await interaction.deferReply();
 
 		try {
-			// Render both perspective and isometric views
-			logger.info(`Rendering comparison for ${attachment.name}`);
+			// One page load, tiled into a single contact sheet
+			logger.info(`Rendering comparison sheet for ${attachment.name}`);
 
-			const [perspectiveImage, isometricImage] = await Promise.all([
-				render(attachment, false, { isometric: false }),
-				render(attachment, false, { isometric: true })
-			]);
+			const { file, schematic } = await render(
+				attachment,
+				false,
+				{ sheet: { views: ["front", "right", "top", "isometric"] } },
+				interaction.user.id
+			);
 
 			// Store attachment for button interactions
 			const urlHash = Buffer.from(attachment.url).toString('base64').substring(0, 50);
 			storeAttachmentUrl(urlHash, attachment.url, attachment.name);
 
 			await interaction.editReply({
-				content: `✅ **${attachment.name}** comparison\n📐 Perspective vs 🏛️ Isometric`,
-				files: [perspectiveImage, isometricImage]
+				content: `✅ **${attachment.name}** comparison\n📐 Front · Right · Top · 🏛️ Isometric`,
+				files: [file],
+				embeds: createSchematicEmbeds(schematic)
 			});
 
 		} catch (error) {
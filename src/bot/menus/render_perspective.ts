@@ -1,6 +1,6 @@
 import { ApplicationCommandType, ContextMenuCommandBuilder, MessageContextMenuCommandInteraction, MessageFlags } from "discord.js";
 import { IMenuCommand } from "../command";
-import { checkError, render, createRenderActionButtons, storeAttachmentUrl, addRotationReactions } from "../utils/render";
+import { checkError, render, createRenderActionButtons, storeAttachmentUrl, createSchematicEmbeds, addRotationReactions } from "../utils/render";
 import { TimeoutError } from "puppeteer";
 import { logger } from "../../shared/logger";
 
@@ -23,7 +23,7 @@ export default class RenderPerspective implements IMenuCommand {
 		await interaction.deferReply();
 
 		try {
-			const image = await render(attachment, false, { isometric: false });
+			const { file: image, schematic } = await render(attachment, false, { isometric: false }, interaction.user.id);
 
 			// Store attachment for button interactions
 			const urlHash = Buffer.from(attachment.url).toString('base64').substring(0, 50);
@@ -35,6 +35,7 @@ export default class RenderPerspective implements IMenuCommand {
 			const response = await interaction.editReply({
 				content: `✅ Rendered **${attachment.name}** (Perspective) • Try different views below:`,
 				files: [image],
+				embeds: createSchematicEmbeds(schematic),
 				components: buttons
 			});
 
@@ -1,6 +1,6 @@
 import { ApplicationCommandType, ContextMenuCommandBuilder, MessageContextMenuCommandInteraction, MessageFlags } from "discord.js";
 import { IMenuCommand } from "../command";
-import { checkError, render, createRenderActionButtons, storeAttachmentUrl } from "../utils/render";
+import { checkError, render, createRenderActionButtons, storeAttachmentUrl, createSchematicEmbeds } from "../utils/render";
 import { TimeoutError } from "puppeteer";
 import { logger } from "../../shared/logger";
 
@@ -23,7 +23,7 @@ export default class RenderVideo implements IMenuCommand {
 		await interaction.deferReply();
 
 		try {
-			const video = await render(attachment, true);
+			const { file: video, schematic } = await render(attachment, true, {}, interaction.user.id);
 
 			// Store attachment for button interactions
 			const urlHash = Buffer.from(attachment.url).toString('base64').substring(0, 50);
@@ -35,6 +35,7 @@ export default class RenderVideo implements IMenuCommand {
 			await interaction.editReply({
 				content: `✅ Rendered **${attachment.name}** video • Try different views below:`,
 				files: [video],
+				embeds: createSchematicEmbeds(schematic),
 				components: buttons
 			});
 
@@ -0,0 +1,83 @@
+import { Attachment, AttachmentBuilder, EmbedBuilder } from "discord.js";
+import { processDiffRender } from "../../services/render-service";
+import { getExtensionForMime } from "../../shared/formats";
+import { logger } from "../../shared/logger";
+import { DiffSpec, SchematicDiffStats } from "../../shared/types";
+
+// Block types listed per side of the diff in the embed
+const EMBED_MAX_BLOCKS = 8;
+
+async function download(attachment: Attachment): Promise<Buffer> {
+	const response = await fetch(attachment.url);
+	if (!response.ok)
+		throw new Error(`Failed to download attachment: ${response.statusText}`);
+	return Buffer.from(await response.arrayBuffer());
+}
+
+/**
+ * Render the new version of a schematic with its changes since the old one highlighted
+ */
+export async function renderDiff(
+	oldAttachment: Attachment,
+	newAttachment: Attachment,
+	options: { isometric?: boolean; align?: DiffSpec["align"] } = {},
+	userId?: string
+) {
+	logger.info(`Processing diff render ${oldAttachment.url} -> ${newAttachment.url}`);
+
+	const [oldBuffer, newBuffer] = await Promise.all([download(oldAttachment), download(newAttachment)]);
+
+	const { result, stats } = await processDiffRender(
+		{
+			schematicData: newBuffer,
+			options: {
+				width: 1920,
+				height: 1080,
+				format: "image/png",
+				isometric: options.isometric,
+			},
+			type: "image",
+			source: "discord",
+			priority: "interactive",
+			userId,
+			originalFilename: newAttachment.name,
+		},
+		{ data: oldBuffer, filename: oldAttachment.name },
+		options.align
+	);
+
+	const file = new AttachmentBuilder(result.outputBuffer, {
+		name: newAttachment.name.replace(/\.[^/.]+$/, "") + `_diff.${getExtensionForMime(result.mimeType)}`,
+	});
+
+	return { file, stats };
+}
+
+function describeBlocks(counts: Record<string, number>): string {
+	const entries = Object.entries(counts).sort((a, b) => b[1] - a[1]);
+	if (entries.length === 0) return "—";
+
+	const lines = entries
+		.slice(0, EMBED_MAX_BLOCKS)
+		.map(([name, count]) => `\`${count.toLocaleString()}\` ${name.replace(/^minecraft:/, "")}`);
+	if (entries.length > EMBED_MAX_BLOCKS) lines.push(`…and ${entries.length - EMBED_MAX_BLOCKS} more`);
+	return lines.join("\n");
+}
+
+/**
+ * Embed with the diff counts and the block types added and removed
+ */
+export function createDiffEmbed(stats: SchematicDiffStats, oldName: string, newName: string): EmbedBuilder {
+	return new EmbedBuilder()
+		.setColor(0x5865f2)
+		.setTitle(`${oldName} → ${newName}`)
+		.setDescription("🟩 added · 🟥 removed · 🟨 changed state")
+		.addFields(
+			{ name: "🟩 Added", value: stats.added.toLocaleString(), inline: true },
+			{ name: "🟥 Removed", value: stats.removed.toLocaleString(), inline: true },
+			{ name: "🟨 Changed", value: stats.changed.toLocaleString(), inline: true },
+			{ name: "Added blocks", value: describeBlocks(stats.addedBlocks), inline: true },
+			{ name: "Removed blocks", value: describeBlocks(stats.removedBlocks), inline: true },
+		)
+		.setFooter({ text: `${stats.oldBlocks.toLocaleString()} → ${stats.newBlocks.toLocaleString()} blocks, ${stats.unchanged.toLocaleString()} unchanged` });
+}
@@ -0,0 +1,64 @@
+import { ActionRowBuilder, ModalBuilder, ModalSubmitInteraction, TextInputBuilder, TextInputStyle } from "discord.js";
+import { BLOCK_TAGS } from "../../shared/block-filter";
+import { BlockFilter } from "../../shared/types";
+
+// Placeholders are capped at 100 characters
+const TAG_HINT = `e.g. stone, *_glass or ${Object.keys(BLOCK_TAGS).map((tag) => `#${tag}`).join(" ")}`.substring(0, 100);
+
+const FILTER_FIELDS = [
+	{ id: "hide", label: "Hide blocks", placeholder: TAG_HINT },
+	{ id: "only", label: "Show only these blocks", placeholder: "#redstone, #ores" },
+	{ id: "highlight", label: "Highlight (ghosts everything else)", placeholder: "*_ore, diamond_block" },
+] as const;
+
+export function createFilterModal(urlHash: string): ModalBuilder {
+	return new ModalBuilder()
+		.setCustomId(`filter_${urlHash}`)
+		.setTitle("Filter blocks")
+		.addComponents(
+			...FILTER_FIELDS.map((field) => new ActionRowBuilder<TextInputBuilder>().addComponents(
+				new TextInputBuilder()
+					.setCustomId(field.id)
+					.setLabel(field.label)
+					.setPlaceholder(field.placeholder)
+					.setStyle(TextInputStyle.Short)
+					.setRequired(false)
+			)),
+			new ActionRowBuilder<TextInputBuilder>().addComponents(
+				new TextInputBuilder()
+					.setCustomId("style")
+					.setLabel("Highlight style: tint or outline")
+					.setPlaceholder("tint")
+					.setStyle(TextInputStyle.Short)
+					.setRequired(false)
+			)
+		);
+}
+
+/**
+ * Read the filter modal's comma-separated block lists
+ */
+export function parseFilterModal(interaction: ModalSubmitInteraction): BlockFilter {
+	const filter: BlockFilter = {};
+
+	for (const field of FILTER_FIELDS) {
+		const entries = interaction.fields.getTextInputValue(field.id)
+			.split(/[,\s]+/)
+			.map((entry) => entry.trim())
+			.filter((entry) => entry.length > 0);
+		if (entries.length > 0) filter[field.id] = entries;
+	}
+
+	const style = interaction.fields.getTextInputValue("style").trim().toLowerCase();
+	if (style) filter.highlightStyle = style as BlockFilter["highlightStyle"];
+
+	return filter;
+}
+
+export function describeFilter(filter: BlockFilter): string {
+	const parts: string[] = [];
+	if (filter.hide) parts.push(`hiding ${filter.hide.join(", ")}`);
+	if (filter.only) parts.push(`only ${filter.only.join(", ")}`);
+	if (filter.highlight) parts.push(`highlighting ${filter.highlight.join(", ")}`);
+	return `🔍 filter (${parts.join("; ")})`;
+}
@@ -0,0 +1,59 @@
+import { Attachment, AttachmentBuilder, EmbedBuilder } from "discord.js";
+import { storeFile } from "../../services/storage";
+import { ensureSchematicMetadata, getBlockCounts } from "../../services/schematic-metadata";
+import { buildMaterialList, describeQuantity, formatMaterialsCsv, MaterialList } from "../../services/materials";
+import { logger } from "../../shared/logger";
+
+// Keep the embed well under Discord's 4096 character description limit
+const EMBED_MAX_ROWS = 25;
+
+/**
+ * Download a schematic attachment and build its material list
+ */
+export async function getMaterials(attachment: Attachment, mergeStates: boolean = true): Promise<MaterialList> {
+	logger.info(`Building material list for ${attachment.url}`);
+
+	const response = await fetch(attachment.url);
+	if (!response.ok)
+		throw new Error(`Failed to download attachment: ${response.statusText}`);
+
+	const schematicBuffer = Buffer.from(await response.arrayBuffer());
+	const { hash } = await storeFile(schematicBuffer, {
+		originalFilename: attachment.name,
+		mimeType: 'application/octet-stream',
+	});
+	await ensureSchematicMetadata(hash, schematicBuffer);
+
+	const blockCounts = await getBlockCounts(hash);
+	if (!blockCounts)
+		throw new Error("Could not read blocks from this schematic");
+
+	return buildMaterialList(blockCounts, { mergeStates });
+}
+
+/**
+ * Embed with the largest materials, plus the full list as a CSV attachment
+ */
+export function createMaterialsReply(list: MaterialList, filename: string) {
+	const baseName = filename.replace(/\.[^/.]+$/, "");
+
+	const rows = list.entries.slice(0, EMBED_MAX_ROWS).map(entry => {
+		const name = entry.state ? `${entry.name} [${entry.state}]` : entry.name;
+		return `\`${entry.count.toLocaleString().padStart(7)}\` **${name}** — ${describeQuantity(entry)}`;
+	});
+	if (list.entries.length > EMBED_MAX_ROWS) {
+		rows.push(`*…and ${list.entries.length - EMBED_MAX_ROWS} more in the CSV*`);
+	}
+
+	const embed = new EmbedBuilder()
+		.setColor(0x5865f2)
+		.setTitle(`🧱 Materials for ${baseName}`)
+		.setDescription(rows.join("\n") || "This schematic has no placeable blocks.")
+		.setFooter({ text: `${list.totalItems.toLocaleString()} items • ${list.entries.length} materials • SB = shulker box` });
+
+	const csv = new AttachmentBuilder(Buffer.from(formatMaterialsCsv(list)), {
+		name: `${baseName}_materials.csv`,
+	});
+
+	return { embeds: [embed], files: [csv] };
+}
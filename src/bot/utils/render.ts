@@ -1,8 +1,9 @@
-import { Attachment, AttachmentBuilder, ActionRowBuilder, ButtonBuilder, ButtonStyle } from "discord.js";
-import { renderSchematic, renderSchematicVideo } from "../../services/renderer";
+import { Attachment, AttachmentBuilder, ActionRowBuilder, ButtonBuilder, ButtonStyle, EmbedBuilder } from "discord.js";
+import { processRender, processRenderVariants } from "../../services/render-service";
 import { logger } from "../../shared/logger";
+import { SCHEMATIC_EXTENSIONS, getExtensionForMime } from "../../shared/formats";
+import { BlockFilter, ClipPlane, RenderVariant, SchematicMetadata, SheetSpec } from "../../shared/types";
 
-const SUPPORTED_FORMATS = ['schem', 'litematic'];
 const MAX_FILE_SIZE = 25 * 1024 * 1024; // 25MB
 
 export interface RenderCustomOptions {
@@ -12,17 +13,33 @@ export interface RenderCustomOptions {
 	width?: number;
 	height?: number;
 	rotation?: number;
+	cameraPath?: 'circular' | 'orbit' | 'static' | 'cinematic';
+	animation?: 'build';
+	clip?: ClipPlane;
+	filter?: BlockFilter;
+	sheet?: SheetSpec;
 }
 
+// Backgrounds offered by the re-render buttons
+export const BUTTON_BACKGROUNDS: Record<string, string> = {
+	transparent: 'transparent',
+	dark: '#1a1a1a',
+	light: '#f0f0f0',
+};
+
+// The Cutaway button steps through the mid-planes in this order
+const CUTAWAY_AXES: NonNullable<ClipPlane['axis']>[] = ['x', 'y', 'z'];
+export const CUTAWAY_CAP_COLOR = '#5a5a5a';
+
 export function checkError(attachment: Attachment | null) {
 	// Check schematic existance
 	if (attachment == null)
 		return "❌ Schematic not found";
 
 	// Check schem format
-	const format = attachment.name.split('.').slice(1).pop() ?? '';
-	if (!SUPPORTED_FORMATS.includes(format))
-		return `❌ Invalid file format "${format}". Supported formats: ${SUPPORTED_FORMATS.join(", ")}`;
+	const format = attachment.name.split('.').slice(1).pop()?.toLowerCase() ?? '';
+	if (!SCHEMATIC_EXTENSIONS.includes(format))
+		return `❌ Invalid file format "${format}". Supported formats: ${SCHEMATIC_EXTENSIONS.join(", ")}`;
 
 	// Check file size
 	if (attachment.size > MAX_FILE_SIZE)
@@ -32,10 +49,17 @@ export function checkError(attachment: Attachment | null) {
 	return null;
 }
 
+/**
+ * Render an attachment. Image renders can also `prefetch` variants (another
+ * background or view): once the requested render is back they are queued as one
+ * low-priority job, so switching to them later is a cache hit.
+ */
 export async function render(
 	attachment: Attachment,
 	videoMode: boolean = false,
-	customOptions: RenderCustomOptions = {}
+	customOptions: RenderCustomOptions = {},
+	userId?: string,
+	prefetch: RenderVariant[] = []
 ) {
 	logger.info(`Processing ${videoMode ? "video" : "image"} render ${attachment.url} with options:`, customOptions);
 
@@ -47,8 +71,12 @@ export async function render(
 
 	// Set up render options with custom overrides
 	const renderOptions = videoMode ? {
-		// Video settings
-		duration: 5,
+		// Video settings (MP4 previews inline in Discord, WebM does not)
+		format: "video/mp4" as const,
+		// Build timelapses get longer to assemble, plus a moment on the finished build
+		duration: customOptions.animation === 'build' ? 8 : 5,
+		animation: customOptions.animation,
+		holdSeconds: customOptions.animation === 'build' ? 1.5 : undefined,
 		width: customOptions.width || 1280,
 		height: customOptions.height || 720,
 		frameRate: 30,
@@ -56,6 +84,7 @@ export async function render(
 		background: customOptions.background,
 		framing: customOptions.framing,
 		rotation: customOptions.rotation,
+		cameraPath: customOptions.cameraPath,
 	} : {
 		// Image settings
 		width: customOptions.width || 1920,
@@ -66,22 +95,75 @@ export async function render(
 		background: customOptions.background,
 		framing: customOptions.framing,
 		rotation: customOptions.rotation,
+		clip: customOptions.clip,
+		filter: customOptions.filter,
+		sheet: customOptions.sheet,
+	};
+
+	// Render the schematic through the queue (interactive priority, fair per user)
+	const request = {
+		schematicData: schematicBuffer,
+		options: renderOptions,
+		source: 'discord' as const,
+		priority: 'interactive' as const,
+		userId,
+		originalFilename: attachment.name,
 	};
+	const result = await processRender({ ...request, type: videoMode ? 'video' : 'image' });
 
-	// Render the schematic
-	const renderer = videoMode ? renderSchematicVideo : renderSchematic;
-	const renderedBuffer = await renderer(schematicBuffer, renderOptions);
+	// Nobody waits for prefetches, so they queue behind everyone's real renders
+	if (!videoMode && prefetch.length > 0) {
+		processRenderVariants({ ...request, priority: 'batch' }, prefetch).catch((error) => {
+			logger.warn("Prefetching render variants failed:", error);
+		});
+	}
 
 	// Create Discord attachment
-	return new AttachmentBuilder(renderedBuffer, {
-		name: attachment.name.replace(/\.[^/.]+$/, "") + (videoMode ? "_animation.webm" : "_render.png"),
+	const file = new AttachmentBuilder(result.outputBuffer, {
+		name: attachment.name.replace(/\.[^/.]+$/, "") + (videoMode ? "_animation" : customOptions.sheet ? "_views" : "_render") + `.${getExtensionForMime(result.mimeType)}`,
 	});
+
+	return { file, schematic: result.schematic };
+}
+
+/**
+ * Embed summarising a schematic (dimensions, block count, palette, format).
+ * Returns an empty list when no metadata could be extracted, so it can be passed straight to `embeds`.
+ */
+export function createSchematicEmbeds(schematic: SchematicMetadata | null): EmbedBuilder[] {
+	if (!schematic) return [];
+
+	const embed = new EmbedBuilder()
+		.setColor(0x5865f2)
+		.setTitle(schematic.name || "Schematic info");
+
+	if (schematic.dimensions) {
+		const { width, height, length } = schematic.dimensions;
+		embed.addFields({ name: "📏 Dimensions", value: `${width} × ${height} × ${length}`, inline: true });
+	}
+	if (schematic.blockCount !== undefined) {
+		embed.addFields({ name: "🧱 Blocks", value: schematic.blockCount.toLocaleString(), inline: true });
+	}
+	if (schematic.paletteSize !== undefined) {
+		embed.addFields({ name: "🎨 Palette", value: `${schematic.paletteSize} states`, inline: true });
+	}
+
+	const version = schematic.formatVersion !== null ? ` v${schematic.formatVersion}` : "";
+	embed.addFields({ name: "📄 Format", value: `.${schematic.format}${version}`, inline: true });
+	if (schematic.author) {
+		embed.addFields({ name: "👤 Author", value: schematic.author, inline: true });
+	}
+
+	return [embed];
 }
 
 export function createRenderActionButtons(attachmentUrl: string, currentOptions: RenderCustomOptions = {}): ActionRowBuilder<ButtonBuilder>[] {
 	// Encode attachment URL in button custom IDs (truncate if too long)
 	const urlHash = Buffer.from(attachmentUrl).toString('base64').substring(0, 50);
 
+	const currentAxis = currentOptions.clip ? CUTAWAY_AXES.indexOf(currentOptions.clip.axis ?? 'x') : -1;
+	const nextAxis = CUTAWAY_AXES[(currentAxis + 1) % CUTAWAY_AXES.length];
+
 	// Row 1: View type buttons
 	const row1 = new ActionRowBuilder<ButtonBuilder>().addComponents(
 		new ButtonBuilder()
@@ -97,10 +179,18 @@ export function createRenderActionButtons(attachmentUrl: string, currentOptions:
 		new ButtonBuilder()
 			.setCustomId(`render_video_${urlHash}`)
 			.setLabel("🎬 Video")
-			.setStyle(ButtonStyle.Secondary)
+			.setStyle(ButtonStyle.Secondary),
+		new ButtonBuilder()
+			.setCustomId(`render_build_${urlHash}`)
+			.setLabel("🧱 Build timelapse")
+			.setStyle(ButtonStyle.Secondary),
+		new ButtonBuilder()
+			.setCustomId(`render_cut${nextAxis}_${urlHash}`)
+			.setLabel(`✂️ Cutaway ${nextAxis.toUpperCase()}`)
+			.setStyle(currentOptions.clip ? ButtonStyle.Primary : ButtonStyle.Secondary)
 	);
 
-	// Row 2: Background options
+	// Row 2: Background, resolution and block filter
 	const row2 = new ActionRowBuilder<ButtonBuilder>().addComponents(
 		new ButtonBuilder()
 			.setCustomId(`render_bg_transparent_${urlHash}`)
@@ -117,7 +207,11 @@ export function createRenderActionButtons(attachmentUrl: string, currentOptions:
 		new ButtonBuilder()
 			.setCustomId(`render_hd_${urlHash}`)
 			.setLabel("✨ 4K")
-			.setStyle(ButtonStyle.Secondary)
+			.setStyle(ButtonStyle.Secondary),
+		new ButtonBuilder()
+			.setCustomId(`render_filter_${urlHash}`)
+			.setLabel("🔍 Filter")
+			.setStyle(currentOptions.filter ? ButtonStyle.Primary : ButtonStyle.Secondary)
 	);
 
 	return [row1, row2];
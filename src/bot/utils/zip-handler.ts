@@ -5,13 +5,14 @@ import { tmpdir } from 'os';
 import { randomUUID } from 'crypto';
 import { pipeline } from 'stream/promises';
 import { logger } from '../../shared/logger';
+import { SCHEMATIC_EXTENSIONS } from '../../shared/formats';
 
 // Security limits for zip extraction
 const MAX_FILE_COUNT = 100; // Maximum files in a zip
 const MAX_TOTAL_SIZE = 100 * 1024 * 1024; // 100MB total uncompressed
 const MAX_SINGLE_FILE_SIZE = 25 * 1024 * 1024; // 25MB per file
 const MAX_COMPRESSION_RATIO = 100; // Prevent zip bombs (uncompressed/compressed ratio)
-const SUPPORTED_SCHEMATIC_FORMATS = ['.schem', '.litematic'];
+const SUPPORTED_SCHEMATIC_FORMATS = SCHEMATIC_EXTENSIONS.map(ext => `.${ext}`);
 
 export interface ExtractedSchematic {
 	name: string;
@@ -204,7 +205,7 @@ export async function createResultZip(results: BatchRenderResult[]): Promise<Buf
 		for (const result of results) {
 			if (result.success && result.buffer) {
 				// Replace schematic extension with .png
-				const outputName = result.name.replace(/\.(schem|litematic)$/i, '.png');
+				const outputName = result.name.replace(/\.(schem|litematic|schematic|nbt|mcstructure)$/i, '.png');
 				archive.append(result.buffer, { name: outputName });
 			}
 		}
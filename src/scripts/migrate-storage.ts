@@ -0,0 +1,22 @@
+/**
+ * Copy stored schematics and render artifacts from data/storage into the driver
+ * configured by STORAGE_DRIVER (e.g. S3), so several render nodes can share them.
+ *
+ * Usage: bun --env-file=.env src/scripts/migrate-storage.ts [--delete-local]
+ */
+import { migrateLocalStorage } from "../services/storage.js";
+import { logger } from "../shared/logger.js";
+
+const deleteLocal = process.argv.includes("--delete-local");
+
+migrateLocalStorage({ deleteLocal })
+	.then(({ missing }) => {
+		if (missing > 0) {
+			logger.warn(`${missing} stored files were missing locally and could not be copied`);
+		}
+		process.exit(0);
+	})
+	.catch((error) => {
+		logger.error("❌ Storage migration failed:", error);
+		process.exit(1);
+	});
@@ -0,0 +1,44 @@
+// Child process entry: counts the blocks of a schematic read from stdin and sends the
+// result over IPC, so nucleation's per-block objects never touch the server's heap.
+// Spawned by schematic-metadata.ts; not imported anywhere.
+import { prepareSchematic } from './schematic-formats.js';
+import { AIR_BLOCKS, blockKey, getBlocks, getDimensions, withSchematic } from './nucleation.js';
+
+export interface BlockCountMessage {
+  success: boolean;
+  counts?: Record<string, number>;
+  dimensions?: { width: number; height: number; length: number };
+  error?: string;
+}
+
+async function countBlocks(data: Buffer): Promise<BlockCountMessage> {
+  return withSchematic(prepareSchematic(data).data, (schematic) => {
+    const counts: Record<string, number> = {};
+    // This process is disposable, so it takes schematics of any size
+    for (const block of getBlocks(schematic, Infinity)) {
+      if (AIR_BLOCKS.has(block.name)) continue;
+      const key = blockKey(block.name, block.properties);
+      counts[key] = (counts[key] || 0) + 1;
+    }
+    return { success: true, counts, dimensions: getDimensions(schematic) };
+  });
+}
+
+async function run(): Promise<void> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer);
+  }
+
+  let message: BlockCountMessage;
+  try {
+    message = await countBlocks(Buffer.concat(chunks));
+  } catch (error: any) {
+    message = { success: false, error: error?.message || String(error) };
+  }
+
+  // Exit only once the parent has the message
+  process.send!(message, undefined, undefined, () => process.exit(message.success ? 0 : 1));
+}
+
+run();
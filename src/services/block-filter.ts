@@ -0,0 +1,99 @@
+import { AIR_BLOCKS, SchematicBlock, getBlocks, getDimensions, withSchematic } from './nucleation.js';
+import { writeBlocksAsSchematic } from './schematic-formats.js';
+import { matchesAnyBlockPattern } from '../shared/block-filter.js';
+import { BlockFilter, BlockHighlight } from '../shared/types.js';
+
+export const FILTER_COLORS = {
+  highlight: '#facc15',
+  ghost: '#9ca3af',
+};
+
+export interface FilteredSchematic {
+  // Sponge .schem with the hidden (and ghosted) blocks removed
+  data: Buffer;
+  // Highlighted and ghosted blocks, in the filtered schematic's coordinates
+  highlights: BlockHighlight[];
+  // Where the original coordinates start in the filtered schematic, for moving other highlights over
+  origin: [number, number, number];
+}
+
+type Vec3 = [number, number, number];
+
+function bounds(blocks: SchematicBlock[]): { min: Vec3; max: Vec3 } {
+  let minX = Infinity, minY = Infinity, minZ = Infinity;
+  let maxX = -Infinity, maxY = -Infinity, maxZ = -Infinity;
+  for (const block of blocks) {
+    minX = Math.min(minX, block.x);
+    minY = Math.min(minY, block.y);
+    minZ = Math.min(minZ, block.z);
+    maxX = Math.max(maxX, block.x);
+    maxY = Math.max(maxY, block.y);
+    maxZ = Math.max(maxZ, block.z);
+  }
+  return { min: [minX, minY, minZ], max: [maxX, maxY, maxZ] };
+}
+
+/**
+ * Remove the blocks a filter hides and rewrite the schematic without them. With a
+ * `highlight` list, matching blocks are marked and every other block is taken out
+ * and drawn as a faint ghost instead, so the highlighted ones show through.
+ * The schematic keeps its full size so the framing matches an unfiltered render.
+ */
+export async function applyBlockFilter(data: Buffer, filter: BlockFilter): Promise<FilteredSchematic> {
+  const { blocks, dimensions } = await withSchematic(data, schematic => ({
+    blocks: getBlocks(schematic),
+    dimensions: getDimensions(schematic),
+  }));
+
+  // Air blocks carry the schematic's extent even when the build doesn't fill it
+  const { min, max } = blocks.length > 0 ? bounds(blocks) : { min: [0, 0, 0] as Vec3, max: [-1, -1, -1] as Vec3 };
+  const size = {
+    width: Math.max(dimensions.width, max[0] - min[0] + 1),
+    height: Math.max(dimensions.height, max[1] - min[1] + 1),
+    length: Math.max(dimensions.length, max[2] - min[2] + 1),
+  };
+
+  const kept: SchematicBlock[] = [];
+  const highlighted: number[] = [];
+  const ghosts: number[] = [];
+
+  for (const block of blocks) {
+    if (AIR_BLOCKS.has(block.name)) continue;
+    if (filter.hide && matchesAnyBlockPattern(block.name, filter.hide)) continue;
+    if (filter.only && !matchesAnyBlockPattern(block.name, filter.only)) continue;
+
+    const position = [block.x - min[0], block.y - min[1], block.z - min[2]];
+    if (!filter.highlight) {
+      kept.push(block);
+    } else if (matchesAnyBlockPattern(block.name, filter.highlight)) {
+      kept.push(block);
+      highlighted.push(...position);
+    } else {
+      ghosts.push(...position);
+    }
+  }
+
+  if (kept.length === 0 && ghosts.length === 0) {
+    throw new Error('The block filter leaves nothing to render');
+  }
+
+  const highlights: BlockHighlight[] = [];
+  if (filter.highlight) {
+    highlights.push(
+      { color: FILTER_COLORS.ghost, opacity: 0.12, positions: ghosts },
+      filter.highlightStyle === 'outline'
+        ? { color: filter.highlightColor || FILTER_COLORS.highlight, opacity: 1, positions: highlighted, style: 'outline' }
+        : { color: filter.highlightColor || FILTER_COLORS.highlight, opacity: 0.45, positions: highlighted }
+    );
+  }
+
+  return {
+    data: writeBlocksAsSchematic(kept, min, size),
+    highlights,
+    origin: [-min[0], -min[1], -min[2]],
+  };
+}
+
+export default {
+  applyBlockFilter,
+};
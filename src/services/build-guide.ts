@@ -0,0 +1,103 @@
+import { processRenderVariants, RenderRequest } from './render-service.js';
+import { AIR_BLOCKS, blockKey, getBlocks, withSchematic } from './nucleation.js';
+import { prepareSchematic } from './schematic-formats.js';
+import { buildMaterialList, formatMaterialsText } from './materials.js';
+import { getExtensionForMime } from '../shared/formats.js';
+import { logger } from '../shared/logger.js';
+import { LayerRange, RenderOptions } from '../shared/types.js';
+
+// Every layer is rendered in turn from one page load; taller builds should be split into several guides
+export const MAX_GUIDE_LAYERS = 128;
+
+export interface BuildGuide {
+  zip: Buffer;
+  layers: number;  // layers with blocks, i.e. images in the zip
+}
+
+/**
+ * Block state counts for each layer, counted from the lowest block row like `RenderOptions.layers`
+ */
+export async function getLayerBlockCounts(data: Buffer): Promise<Record<string, number>[]> {
+  const blocks = await withSchematic(prepareSchematic(data).data, getBlocks);
+  const solid = blocks.filter(block => !AIR_BLOCKS.has(block.name));
+
+  let minY = Infinity;
+  for (const block of solid) minY = Math.min(minY, block.y);
+
+  const layers: Record<string, number>[] = [];
+  for (const block of solid) {
+    const counts = (layers[block.y - minY] ??= {});
+    const key = blockKey(block.name, block.properties);
+    counts[key] = (counts[key] || 0) + 1;
+  }
+  // Hollow gaps (floating builds) still get a layer so indices match the renders
+  return Array.from(layers, counts => counts ?? {});
+}
+
+async function createZip(entries: { name: string; data: Buffer | string }[]): Promise<Buffer> {
+  // Dynamic import for archiver
+  const archiver = (await import('archiver')).default;
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    const archive = archiver('zip', { zlib: { level: 9 } });
+
+    archive.on('data', (chunk) => chunks.push(chunk));
+    archive.on('end', () => resolve(Buffer.concat(chunks)));
+    archive.on('error', (err) => reject(err));
+
+    for (const entry of entries) {
+      archive.append(entry.data, { name: entry.name });
+    }
+    archive.finalize();
+  });
+}
+
+/**
+ * Render every layer of a schematic top-down with a block grid, zipped together with
+ * a material list per layer (`layer_000.png` + `layer_000.txt`, ...)
+ */
+export async function createBuildGuide(
+  request: Omit<RenderRequest, 'type' | 'options'> & { options: RenderOptions },
+  range?: LayerRange
+): Promise<BuildGuide> {
+  const layerCounts = await getLayerBlockCounts(request.schematicData);
+  const from = range?.from ?? 0;
+  const to = Math.min(range?.to ?? layerCounts.length - 1, layerCounts.length - 1);
+
+  const layers: number[] = [];
+  for (let y = from; y <= to; y++) {
+    if (Object.keys(layerCounts[y]).length > 0) layers.push(y);
+  }
+  if (layers.length === 0) {
+    throw new Error('No blocks in the requested layers');
+  }
+  if (layers.length > MAX_GUIDE_LAYERS) {
+    throw new Error(`Build guides are limited to ${MAX_GUIDE_LAYERS} layers; pass a smaller range`);
+  }
+
+  const startTime = Date.now();
+  const baseName = (request.originalFilename || 'schematic').replace(/\.[^/.]+$/, '');
+  const pad = (y: number) => String(y).padStart(3, '0');
+
+  // One queued job loads the schematic once and steps through the layers; each is cached on its own
+  const grid = request.options.grid ?? true;
+  const renders = await processRenderVariants(
+    { ...request, options: { ...request.options, layers: { from: layers[0], to: layers[0] }, grid } },
+    layers.map(y => ({ layers: { from: y, to: y }, grid }))
+  );
+
+  const entries = layers.flatMap((y, index) => [
+    { name: `layer_${pad(y)}.${getExtensionForMime(renders[index].mimeType)}`, data: renders[index].outputBuffer },
+    { name: `layer_${pad(y)}.txt`, data: formatMaterialsText(buildMaterialList(layerCounts[y]), `${baseName} layer ${y}`) },
+  ]);
+  const zip = await createZip(entries);
+
+  logger.info(`Built ${layers.length}-layer guide for ${baseName} in ${Date.now() - startTime}ms`);
+  return { zip, layers: layers.length };
+}
+
+export default {
+  createBuildGuide,
+  getLayerBlockCounts,
+};
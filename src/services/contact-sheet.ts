@@ -0,0 +1,103 @@
+import sharp from 'sharp';
+
+// Height of the caption strip along the bottom of the sheet
+const CAPTION_HEIGHT = 48;
+
+export interface SheetLayout {
+  columns: number;
+  rows: number;
+  panelWidth: number;
+  panelHeight: number;
+  captionHeight: number;
+}
+
+export interface SheetPanel {
+  label: string;
+  image: Buffer;  // PNG, panelWidth x panelHeight
+}
+
+/**
+ * Split a sheet of `width` x `height` into equal panels for `count` views,
+ * leaving room for the caption
+ */
+export function getSheetLayout(
+  count: number,
+  width: number,
+  height: number,
+  columns?: number,
+  caption?: boolean
+): SheetLayout {
+  const cols = columns ?? Math.ceil(Math.sqrt(count));
+  const rows = Math.ceil(count / cols);
+  const captionHeight = caption ? CAPTION_HEIGHT : 0;
+
+  return {
+    columns: cols,
+    rows,
+    panelWidth: Math.max(1, Math.floor(width / cols)),
+    panelHeight: Math.max(1, Math.floor((height - captionHeight) / rows)),
+    captionHeight,
+  };
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+function labelSvg(text: string): Buffer {
+  const width = text.length * 13 + 24;
+  return Buffer.from(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="36">` +
+    `<rect width="${width}" height="36" rx="8" fill="#000000" fill-opacity="0.55"/>` +
+    `<text x="12" y="25" font-family="sans-serif" font-size="20" font-weight="bold" fill="#ffffff">${escapeXml(text)}</text>` +
+    `</svg>`
+  );
+}
+
+function captionSvg(text: string, width: number): Buffer {
+  return Buffer.from(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${CAPTION_HEIGHT}">` +
+    `<rect width="${width}" height="${CAPTION_HEIGHT}" fill="#111827"/>` +
+    `<text x="16" y="31" font-family="sans-serif" font-size="22" fill="#f9fafb">${escapeXml(text)}</text>` +
+    `</svg>`
+  );
+}
+
+/**
+ * Tile rendered views into one PNG, optionally with each view's name in its
+ * corner and a caption strip (name, dimensions) along the bottom
+ */
+export async function composeContactSheet(
+  panels: SheetPanel[],
+  layout: SheetLayout,
+  options: { background?: string; labels?: boolean; caption?: string } = {}
+): Promise<Buffer> {
+  const width = layout.panelWidth * layout.columns;
+  const height = layout.panelHeight * layout.rows + layout.captionHeight;
+  const background = !options.background || options.background.toLowerCase() === 'transparent'
+    ? { r: 0, g: 0, b: 0, alpha: 0 }
+    : options.background;
+
+  const layers: sharp.OverlayOptions[] = [];
+  panels.forEach((panel, index) => {
+    const left = (index % layout.columns) * layout.panelWidth;
+    const top = Math.floor(index / layout.columns) * layout.panelHeight;
+    layers.push({ input: panel.image, left, top });
+    if (options.labels !== false) {
+      layers.push({ input: labelSvg(panel.label), left: left + 12, top: top + 12 });
+    }
+  });
+  if (options.caption && layout.captionHeight > 0) {
+    layers.push({ input: captionSvg(options.caption, width), left: 0, top: height - layout.captionHeight });
+  }
+
+  return sharp({ create: { width, height, channels: 4, background } })
+    .composite(layers)
+    .png({ compressionLevel: 9 })
+    .toBuffer();
+}
+
+export default {
+  composeContactSheet,
+  getSheetLayout,
+};
@@ -3,16 +3,18 @@ import { Database } from 'bun:sqlite';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import { logger } from '../shared/logger.js';
+import { hashRenderOptions } from './render-options.js';
 import fs from 'fs';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-const DB_PATH = path.join(__dirname, '../../data/schemat-render.db');
+// DATABASE_PATH=:memory: keeps the database in memory (tests)
+const DB_PATH = process.env.DATABASE_PATH || path.join(__dirname, '../../data/schemat-render.db');
 
 // Ensure data directory exists
 const dataDir = path.dirname(DB_PATH);
-if (!fs.existsSync(dataDir)) {
+if (DB_PATH !== ':memory:' && !fs.existsSync(dataDir)) {
   fs.mkdirSync(dataDir, { recursive: true });
 }
 
@@ -79,6 +81,18 @@ function initDatabaseSchema() {
       dimensions_x INTEGER,
       dimensions_y INTEGER,
       dimensions_z INTEGER,
+      palette_size INTEGER,
+      schematic_format TEXT,
+      format_version INTEGER,
+      schematic_name TEXT,
+      schematic_author TEXT,
+      block_counts_json TEXT,
+      metadata_extracted_at INTEGER,
+      
+      -- Conversions: files produced by /api/convert point back at their source
+      source_file_hash TEXT,
+      conversion_target TEXT,
+      conversion_report_json TEXT,
       
       -- Caching
       access_count INTEGER DEFAULT 0,
@@ -173,6 +187,54 @@ function initDatabaseSchema() {
     );
   `);
 
+  // Migrate existing file_cache table to add extracted schematic metadata columns
+  const fileCacheMetadataColumns = [
+    'palette_size INTEGER',
+    'schematic_format TEXT',
+    'format_version INTEGER',
+    'schematic_name TEXT',
+    'schematic_author TEXT',
+    'block_counts_json TEXT',
+    'metadata_extracted_at INTEGER',
+    'source_file_hash TEXT',
+    'conversion_target TEXT',
+    'conversion_report_json TEXT',
+  ];
+  for (const column of fileCacheMetadataColumns) {
+    try {
+      db.exec(`ALTER TABLE file_cache ADD COLUMN ${column};`);
+    } catch (err: any) {
+      // Column already exists, ignore
+      if (!err.message?.includes('duplicate column')) {
+        logger.warn(`Failed to add file_cache column ${column}:`, err);
+      }
+    }
+  }
+
+  // Migrate existing renders table to add the canonical options hash used as the cache key
+  try {
+    db.exec(`
+      ALTER TABLE renders ADD COLUMN options_hash TEXT;
+    `);
+  } catch (err: any) {
+    // Column already exists, ignore
+    if (!err.message?.includes('duplicate column')) {
+      logger.warn('Failed to add options_hash column:', err);
+    }
+  }
+
+  // Migrate existing artifacts table to address files by storage key rather than local path
+  try {
+    db.exec(`
+      ALTER TABLE artifacts ADD COLUMN storage_key TEXT;
+    `);
+  } catch (err: any) {
+    // Column already exists, ignore
+    if (!err.message?.includes('duplicate column')) {
+      logger.warn('Failed to add storage_key column:', err);
+    }
+  }
+
   // Migrate existing batch_jobs table to add source file columns if they don't exist
   try {
     db.exec(`
@@ -227,6 +289,53 @@ function initDatabaseSchema() {
     );
   `);
 
+  // Render queue table - persistent job queue feeding the browser pool
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS render_queue (
+      id TEXT PRIMARY KEY,
+      render_id TEXT NOT NULL,
+      type TEXT NOT NULL CHECK(type IN ('image', 'video')),
+      
+      -- Scheduling (lower priority value runs first)
+      priority INTEGER NOT NULL,
+      status TEXT NOT NULL CHECK(status IN ('queued', 'running', 'completed', 'error')),
+      
+      -- Job input (the schematic itself lives in file_cache/storage)
+      file_hash TEXT NOT NULL,
+      original_filename TEXT,
+      options_json TEXT NOT NULL,
+      variants_json TEXT,
+      
+      -- Source tracking
+      source TEXT,
+      user_id TEXT,
+      channel_id TEXT,
+      message_id TEXT,
+      
+      -- Timestamps
+      enqueued_at INTEGER NOT NULL,
+      started_at INTEGER,
+      finished_at INTEGER,
+      
+      -- Error info
+      error_message TEXT,
+      
+      created_at INTEGER DEFAULT (strftime('%s', 'now'))
+    );
+  `);
+
+  // Migrate existing render_queue table to carry the variants of single-load jobs apart from their options
+  try {
+    db.exec(`
+      ALTER TABLE render_queue ADD COLUMN variants_json TEXT;
+    `);
+  } catch (err: any) {
+    // Column already exists, ignore
+    if (!err.message?.includes('duplicate column')) {
+      logger.warn('Failed to add variants_json column:', err);
+    }
+  }
+
   // Create indexes for better query performance
   db.exec(`
     CREATE INDEX IF NOT EXISTS idx_renders_file_hash ON renders(file_hash);
@@ -234,20 +343,64 @@ function initDatabaseSchema() {
     CREATE INDEX IF NOT EXISTS idx_renders_type ON renders(type);
     CREATE INDEX IF NOT EXISTS idx_renders_source ON renders(source);
     CREATE INDEX IF NOT EXISTS idx_renders_created_at ON renders(created_at);
+    CREATE INDEX IF NOT EXISTS idx_renders_cache ON renders(file_hash, options_hash, status);
     CREATE INDEX IF NOT EXISTS idx_artifacts_render_id ON artifacts(render_id);
     CREATE INDEX IF NOT EXISTS idx_artifacts_file_hash ON artifacts(file_hash);
+    CREATE INDEX IF NOT EXISTS idx_artifacts_storage_key ON artifacts(storage_key);
     CREATE INDEX IF NOT EXISTS idx_file_cache_access_count ON file_cache(access_count);
+    CREATE INDEX IF NOT EXISTS idx_file_cache_source ON file_cache(source_file_hash, conversion_target);
     CREATE INDEX IF NOT EXISTS idx_batch_jobs_user_id ON batch_jobs(user_id);
     CREATE INDEX IF NOT EXISTS idx_batch_jobs_status ON batch_jobs(status);
     CREATE INDEX IF NOT EXISTS idx_batch_jobs_created_at ON batch_jobs(created_at);
     CREATE INDEX IF NOT EXISTS idx_batch_items_batch_id ON batch_items(batch_id);
     CREATE INDEX IF NOT EXISTS idx_batch_items_file_hash ON batch_items(file_hash);
     CREATE INDEX IF NOT EXISTS idx_batch_items_status ON batch_items(status);
+    CREATE INDEX IF NOT EXISTS idx_render_queue_status_priority ON render_queue(status, priority, enqueued_at);
+    CREATE INDEX IF NOT EXISTS idx_render_queue_user_id ON render_queue(user_id);
   `);
 
+  backfillOptionsHashes();
+  backfillStorageKeys();
+
   logger.info('✅ Database schema initialized');
 }
 
+// Artifacts stored before storage keys existed only have a local path ending in the key (ab/cd/<hash>)
+function backfillStorageKeys() {
+  const rows = db.prepare(`
+    SELECT id, file_path FROM artifacts WHERE storage_key IS NULL
+  `).all() as any[];
+  if (rows.length === 0) return;
+
+  const setKey = db.prepare('UPDATE artifacts SET storage_key = ? WHERE id = ?');
+  db.transaction(() => {
+    for (const row of rows) {
+      setKey.run(String(row.file_path).split(/[\\/]/).slice(-3).join('/'), row.id);
+    }
+  })();
+  logger.info(`Added storage keys to ${rows.length} existing artifacts`);
+}
+
+// Renders stored before options were hashed get a hash, so they stay cache hits
+function backfillOptionsHashes() {
+  const rows = db.prepare(`
+    SELECT id, type, options_json FROM renders WHERE options_hash IS NULL AND status = 'completed'
+  `).all() as any[];
+  if (rows.length === 0) return;
+
+  const setHash = db.prepare('UPDATE renders SET options_hash = ? WHERE id = ?');
+  db.transaction(() => {
+    for (const row of rows) {
+      try {
+        setHash.run(hashRenderOptions(row.type, JSON.parse(row.options_json || '{}')), row.id);
+      } catch {
+        // Unreadable options can't be matched anyway
+      }
+    }
+  })();
+  logger.info(`Hashed render options for ${rows.length} existing renders`);
+}
+
 // Initialize schema immediately
 initDatabaseSchema();
 
@@ -258,8 +411,8 @@ export const statements = {
     INSERT INTO renders (
       id, file_hash, type, status, start_time, file_size, 
       original_filename, width, height, format, options_json, 
-      source, user_id
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      options_hash, source, user_id
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `),
 
   updateRenderComplete: db.prepare(`
@@ -280,6 +433,12 @@ export const statements = {
     SELECT * FROM renders WHERE file_hash = ? ORDER BY created_at DESC
   `),
 
+  getCompletedRenderByOptionsHash: db.prepare(`
+    SELECT * FROM renders
+    WHERE file_hash = ? AND options_hash = ? AND status = 'completed'
+    ORDER BY created_at DESC LIMIT 1
+  `),
+
   getRecentRenders: db.prepare(`
     SELECT * FROM renders ORDER BY created_at DESC LIMIT ?
   `),
@@ -293,6 +452,28 @@ export const statements = {
 
   getFileCache: db.prepare('SELECT * FROM file_cache WHERE file_hash = ?'),
 
+  updateFileMetadata: db.prepare(`
+    UPDATE file_cache
+    SET block_count = ?, dimensions_x = ?, dimensions_y = ?, dimensions_z = ?,
+        palette_size = ?, schematic_format = ?, format_version = ?,
+        schematic_name = ?, schematic_author = ?, block_counts_json = ?,
+        metadata_extracted_at = ?
+    WHERE file_hash = ?
+  `),
+
+  linkConvertedFile: db.prepare(`
+    UPDATE file_cache
+    SET source_file_hash = ?, conversion_target = ?, conversion_report_json = ?
+    WHERE file_hash = ?
+  `),
+
+  getConvertedFile: db.prepare(`
+    SELECT * FROM file_cache
+    WHERE source_file_hash = ? AND conversion_target = ?
+    ORDER BY created_at DESC
+    LIMIT 1
+  `),
+
   updateFileAccess: db.prepare(`
     UPDATE file_cache 
     SET access_count = access_count + 1, last_accessed = strftime('%s', 'now')
@@ -302,12 +483,14 @@ export const statements = {
   // Artifacts
   insertArtifact: db.prepare(`
     INSERT INTO artifacts (
-      id, render_id, file_hash, type, file_path, file_size, mime_type, width, height
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      id, render_id, file_hash, type, storage_key, file_path, file_size, mime_type, width, height
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `),
 
   getArtifactsByRender: db.prepare('SELECT * FROM artifacts WHERE render_id = ?'),
 
+  getArtifactById: db.prepare('SELECT * FROM artifacts WHERE id = ?'),
+
   getThumbnailByFileHash: db.prepare(`
     SELECT a.* FROM artifacts a
     JOIN renders r ON a.render_id = r.id
@@ -447,6 +630,133 @@ export const statements = {
   `),
 
   getBatchItems: db.prepare('SELECT * FROM batch_items WHERE batch_id = ? ORDER BY created_at'),
+
+  // Storage migration
+  getAllFileCacheEntries: db.prepare('SELECT file_hash, mime_type FROM file_cache'),
+
+  getAllArtifactKeys: db.prepare('SELECT DISTINCT storage_key, mime_type FROM artifacts'),
+
+  updateFileCacheLocation: db.prepare('UPDATE file_cache SET file_path = ? WHERE file_hash = ?'),
+
+  updateArtifactLocation: db.prepare('UPDATE artifacts SET file_path = ? WHERE storage_key = ?'),
+
+  // Integrity scan
+  getArtifactStorageRefs: db.prepare('SELECT id, render_id, type, storage_key FROM artifacts'),
+
+  deleteArtifactsByStorageKey: db.prepare('DELETE FROM artifacts WHERE storage_key = ?'),
+
+  // A completed render whose output is gone can no longer be served from the cache
+  markRenderOutputMissing: db.prepare(`
+    UPDATE renders SET status = 'error', error_message = ? WHERE id = ? AND status = 'completed'
+  `),
+
+  // Render queue
+  insertQueueJob: db.prepare(`
+    INSERT INTO render_queue (
+      id, render_id, type, priority, status, file_hash, original_filename,
+      options_json, variants_json, source, user_id, channel_id, message_id, enqueued_at
+    ) VALUES (?, ?, ?, ?, 'queued', ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `),
+
+  getQueueJobById: db.prepare('SELECT * FROM render_queue WHERE id = ?'),
+
+  // Queued jobs of the most urgent priority, oldest first
+  getNextQueuedJobs: db.prepare(`
+    SELECT * FROM render_queue
+    WHERE status = 'queued'
+    AND priority = (SELECT MIN(priority) FROM render_queue WHERE status = 'queued')
+    ORDER BY enqueued_at ASC
+  `),
+
+  // Only ever makes a queued job more urgent
+  raiseQueueJobPriority: db.prepare(`
+    UPDATE render_queue SET priority = ? WHERE id = ? AND status = 'queued' AND priority > ?
+  `),
+
+  updateQueueJobRunning: db.prepare(`
+    UPDATE render_queue SET status = 'running', started_at = ? WHERE id = ?
+  `),
+
+  updateQueueJobComplete: db.prepare(`
+    UPDATE render_queue SET status = 'completed', finished_at = ?, render_id = ? WHERE id = ?
+  `),
+
+  updateQueueJobError: db.prepare(`
+    UPDATE render_queue SET status = 'error', finished_at = ?, error_message = ? WHERE id = ?
+  `),
+
+  // Jobs that were running when the process died go back to the queue
+  requeueInterruptedJobs: db.prepare(`
+    UPDATE render_queue SET status = 'queued', started_at = NULL WHERE status = 'running'
+  `),
+
+  deleteFinishedQueueJobs: db.prepare(`
+    DELETE FROM render_queue WHERE status IN ('completed', 'error') AND finished_at < ?
+  `),
+
+  getQueueCounts: db.prepare(`
+    SELECT status, priority, COUNT(*) as count
+    FROM render_queue
+    WHERE status IN ('queued', 'running')
+    GROUP BY status, priority
+  `),
+
+  getQueuePosition: db.prepare(`
+    SELECT COUNT(*) as ahead FROM render_queue
+    WHERE status = 'queued'
+    AND (priority < ? OR (priority = ? AND enqueued_at < ?))
+  `),
+
+  // Cache eviction: stored schematics, least recently used first
+  getEvictionCandidates: db.prepare(`
+    SELECT
+      fc.file_hash,
+      fc.original_filename,
+      fc.file_path,
+      fc.file_size,
+      fc.access_count,
+      COALESCE(fc.last_accessed, fc.created_at) as last_used,
+      (SELECT COUNT(*) FROM artifacts a WHERE a.file_hash = fc.file_hash) as artifact_count,
+      (SELECT COUNT(*) FROM renders r WHERE r.file_hash = fc.file_hash) as render_count
+    FROM file_cache fc
+    ORDER BY last_used ASC, fc.access_count ASC
+  `),
+
+  // Stored artifact files by the schematics whose renders use them (identical outputs share one file)
+  getArtifactStorageKeys: db.prepare(`
+    SELECT file_hash, storage_key, MAX(file_size) as file_size FROM artifacts
+    WHERE storage_key IS NOT NULL
+    GROUP BY file_hash, storage_key
+  `),
+
+  // Schematics still needed: in a batch since the cutoff, queued or rendering (including the earlier version a diff job compares against)
+  getProtectedFileHashes: db.prepare(`
+    SELECT bi.file_hash FROM batch_items bi
+    JOIN batch_jobs bj ON bi.batch_id = bj.id
+    WHERE bj.created_at >= ?
+    UNION
+    SELECT file_hash FROM render_queue WHERE status IN ('queued', 'running')
+    UNION
+    SELECT file_hash FROM renders WHERE status = 'running'
+    UNION
+    -- Diff jobs also load the earlier version they compare against
+    SELECT json_extract(options_json, '$.diff.against') FROM render_queue
+    WHERE status IN ('queued', 'running') AND json_extract(options_json, '$.diff.against') IS NOT NULL
+  `),
+
+  getArtifactsByFileHash: db.prepare('SELECT * FROM artifacts WHERE file_hash = ?'),
+
+  countArtifactsByStorageKey: db.prepare('SELECT COUNT(*) as count FROM artifacts WHERE storage_key = ?'),
+
+  deleteArtifactsByFileHash: db.prepare('DELETE FROM artifacts WHERE file_hash = ?'),
+
+  deletePerformanceMetricsByFileHash: db.prepare(`
+    DELETE FROM performance_metrics WHERE render_id IN (SELECT id FROM renders WHERE file_hash = ?)
+  `),
+
+  deleteRendersByFileHash: db.prepare('DELETE FROM renders WHERE file_hash = ?'),
+
+  deleteFileCache: db.prepare('DELETE FROM file_cache WHERE file_hash = ?'),
 };
 
 export default db;
@@ -0,0 +1,74 @@
+import sharp from 'sharp';
+import { ImageFormat } from '../shared/types.js';
+
+// sharp quality (1-100) used when the request doesn't set one
+const DEFAULT_QUALITY: Record<ImageFormat, number> = {
+  'image/png': 100,
+  'image/jpeg': 90,
+  'image/webp': 90,
+  'image/avif': 60,
+};
+
+export interface EncodeOptions {
+  quality?: number;    // 0-1
+  background?: string; // used to flatten transparency for jpeg
+}
+
+/**
+ * Convert a 0-1 quality to sharp's 1-100 scale (falls back to the format default)
+ */
+export function toSharpQuality(format: ImageFormat, quality?: number): number {
+  if (quality === undefined || !Number.isFinite(quality)) return DEFAULT_QUALITY[format];
+  return Math.min(100, Math.max(1, Math.round(quality * 100)));
+}
+
+/**
+ * Apply the output encoder for a format to a sharp pipeline
+ */
+function applyFormat(image: sharp.Sharp, format: ImageFormat, options: EncodeOptions): sharp.Sharp {
+  const quality = toSharpQuality(format, options.quality);
+
+  switch (format) {
+    case 'image/jpeg': {
+      // JPEG has no alpha channel: flatten onto the requested background (white if transparent)
+      const background = options.background && options.background.toLowerCase() !== 'transparent'
+        ? options.background
+        : '#ffffff';
+      return image.flatten({ background }).jpeg({ quality, mozjpeg: true });
+    }
+    case 'image/webp':
+      return image.webp({ quality, alphaQuality: 100 });
+    case 'image/avif':
+      return image.avif({ quality });
+    default:
+      return image.png({ compressionLevel: 9 });
+  }
+}
+
+/**
+ * Encode a PNG screenshot into the requested output format
+ */
+export async function encodeImage(png: Buffer, format: ImageFormat, options: EncodeOptions = {}): Promise<Buffer> {
+  // The browser already produced a PNG, so there is nothing to transcode
+  if (format === 'image/png') return png;
+
+  return applyFormat(sharp(png), format, options).toBuffer();
+}
+
+/**
+ * Build a thumbnail of a rendered image in the same format as the render
+ */
+export async function encodeThumbnail(
+  image: Buffer,
+  format: ImageFormat,
+  size: { width: number; height: number },
+  options: EncodeOptions = {}
+): Promise<Buffer> {
+  const resized = sharp(image).resize(size.width, size.height, { fit: 'inside' });
+  return applyFormat(resized, format, options).toBuffer();
+}
+
+export default {
+  encodeImage,
+  encodeThumbnail,
+};
@@ -0,0 +1,175 @@
+/**
+ * Pre-1.13 numeric block IDs for reading and writing MCEdit `.schematic` files.
+ * Only common building blocks are covered; anything else is reported as
+ * unsupported by the converter and read or written as air.
+ */
+
+export type LegacyBlock = [id: number, data: number];
+
+const COLORS = [
+  'white', 'orange', 'magenta', 'light_blue', 'yellow', 'lime', 'pink', 'gray',
+  'light_gray', 'cyan', 'purple', 'blue', 'brown', 'green', 'red', 'black',
+];
+
+const WOODS = ['oak', 'spruce', 'birch', 'jungle', 'acacia', 'dark_oak'];
+
+const STAIR_IDS: Record<string, number> = {
+  oak_stairs: 53, cobblestone_stairs: 67, brick_stairs: 108, stone_brick_stairs: 109,
+  nether_brick_stairs: 114, sandstone_stairs: 128, spruce_stairs: 134, birch_stairs: 135,
+  jungle_stairs: 136, quartz_stairs: 156, acacia_stairs: 163, dark_oak_stairs: 164,
+  red_sandstone_stairs: 180, purpur_stairs: 203,
+};
+
+// [single slab id, data] — the double slab is always id - 1
+const SLABS: Record<string, LegacyBlock> = {
+  smooth_stone_slab: [44, 0], sandstone_slab: [44, 1], cobblestone_slab: [44, 3],
+  brick_slab: [44, 4], stone_brick_slab: [44, 5], nether_brick_slab: [44, 6], quartz_slab: [44, 7],
+  red_sandstone_slab: [182, 0], purpur_slab: [205, 0],
+};
+
+const SIMPLE: Record<string, LegacyBlock> = {
+  stone: [1, 0], granite: [1, 1], polished_granite: [1, 2], diorite: [1, 3],
+  polished_diorite: [1, 4], andesite: [1, 5], polished_andesite: [1, 6],
+  grass_block: [2, 0], dirt: [3, 0], coarse_dirt: [3, 1], podzol: [3, 2],
+  cobblestone: [4, 0], bedrock: [7, 0], water: [9, 0], lava: [11, 0],
+  sand: [12, 0], red_sand: [12, 1], gravel: [13, 0], gold_ore: [14, 0], iron_ore: [15, 0],
+  coal_ore: [16, 0], sponge: [19, 0], wet_sponge: [19, 1], glass: [20, 0], lapis_ore: [21, 0],
+  lapis_block: [22, 0], sandstone: [24, 0], chiseled_sandstone: [24, 1], cut_sandstone: [24, 2],
+  note_block: [25, 0], cobweb: [30, 0], dead_bush: [32, 0], dandelion: [37, 0], poppy: [38, 0],
+  brown_mushroom: [39, 0], red_mushroom: [40, 0], gold_block: [41, 0], iron_block: [42, 0],
+  bricks: [45, 0], tnt: [46, 0], bookshelf: [47, 0], mossy_cobblestone: [48, 0],
+  obsidian: [49, 0], torch: [50, 5], spawner: [52, 0], redstone_wire: [55, 0],
+  diamond_ore: [56, 0], diamond_block: [57, 0], crafting_table: [58, 0], farmland: [60, 0],
+  furnace: [61, 0], ladder: [65, 0], rail: [66, 0], lever: [69, 0], redstone_ore: [73, 0],
+  redstone_torch: [76, 5], snow: [78, 0], ice: [79, 0], snow_block: [80, 0], cactus: [81, 0],
+  clay: [82, 0], sugar_cane: [83, 0], jukebox: [84, 0], oak_fence: [85, 0], pumpkin: [86, 0],
+  netherrack: [87, 0], soul_sand: [88, 0], glowstone: [89, 0], jack_o_lantern: [91, 0],
+  stone_bricks: [98, 0], mossy_stone_bricks: [98, 1], cracked_stone_bricks: [98, 2],
+  chiseled_stone_bricks: [98, 3], iron_bars: [101, 0], glass_pane: [102, 0], melon: [103, 0],
+  vine: [106, 0], oak_fence_gate: [107, 0], mycelium: [110, 0], lily_pad: [111, 0],
+  nether_bricks: [112, 0], nether_brick_fence: [113, 0], enchanting_table: [116, 0],
+  end_stone: [121, 0], redstone_lamp: [123, 0], emerald_ore: [129, 0], emerald_block: [133, 0],
+  beacon: [138, 0], cobblestone_wall: [139, 0], mossy_cobblestone_wall: [139, 1],
+  anvil: [145, 0], redstone_block: [152, 0], nether_quartz_ore: [153, 0], hopper: [154, 0],
+  quartz_block: [155, 0], chiseled_quartz_block: [155, 1], quartz_pillar: [155, 2],
+  slime_block: [165, 0], prismarine: [168, 0], prismarine_bricks: [168, 1],
+  dark_prismarine: [168, 2], sea_lantern: [169, 0], hay_block: [170, 0], terracotta: [172, 0],
+  coal_block: [173, 0], packed_ice: [174, 0], red_sandstone: [179, 0],
+  chiseled_red_sandstone: [179, 1], cut_red_sandstone: [179, 2], spruce_fence_gate: [183, 0],
+  birch_fence_gate: [184, 0], jungle_fence_gate: [185, 0], dark_oak_fence_gate: [186, 0],
+  acacia_fence_gate: [187, 0], spruce_fence: [188, 0], birch_fence: [189, 0],
+  jungle_fence: [190, 0], dark_oak_fence: [191, 0], acacia_fence: [192, 0],
+  end_rod: [198, 0], purpur_block: [201, 0], purpur_pillar: [202, 0], end_stone_bricks: [206, 0],
+  magma_block: [213, 0], nether_wart_block: [214, 0], red_nether_bricks: [215, 0],
+  bone_block: [216, 0], observer: [218, 0],
+};
+
+const LEGACY_IDS = new Map<string, LegacyBlock>();
+
+for (const [name, block] of Object.entries(SIMPLE)) LEGACY_IDS.set(name, block);
+
+COLORS.forEach((color, data) => {
+  LEGACY_IDS.set(`${color}_wool`, [35, data]);
+  LEGACY_IDS.set(`${color}_stained_glass`, [95, data]);
+  LEGACY_IDS.set(`${color}_terracotta`, [159, data]);
+  LEGACY_IDS.set(`${color}_stained_glass_pane`, [160, data]);
+  LEGACY_IDS.set(`${color}_carpet`, [171, data]);
+  LEGACY_IDS.set(`${color}_concrete`, [251, data]);
+  LEGACY_IDS.set(`${color}_concrete_powder`, [252, data]);
+});
+
+WOODS.forEach((wood, index) => {
+  LEGACY_IDS.set(`${wood}_planks`, [5, index]);
+  LEGACY_IDS.set(`${wood}_sapling`, [6, index]);
+  LEGACY_IDS.set(`${wood}_log`, index < 4 ? [17, index] : [162, index - 4]);
+  LEGACY_IDS.set(`${wood}_leaves`, index < 4 ? [18, index] : [161, index - 4]);
+  LEGACY_IDS.set(`${wood}_slab`, [126, index]);
+});
+
+const STAIR_FACING: Record<string, number> = { east: 0, west: 1, south: 2, north: 3 };
+const LOG_AXIS: Record<string, number> = { y: 0, x: 4, z: 8 };
+
+// States the game recomputes on load (connections, fluids, leaf decay), so losing them is harmless
+const DERIVED_STATES = new Set(['shape', 'north', 'south', 'east', 'west', 'up', 'waterlogged', 'snowy', 'distance', 'persistent', 'level']);
+
+/**
+ * Legacy ID and data value for a modern block state. `exact` is false when
+ * some of the block's states could not be represented in the data value.
+ */
+export function toLegacyBlock(
+  name: string,
+  properties: Record<string, string> = {}
+): { block: LegacyBlock; exact: boolean } | null {
+  const id = name.startsWith('minecraft:') ? name.slice('minecraft:'.length) : name;
+  const hasStates = Object.keys(properties).some(state => !DERIVED_STATES.has(state));
+
+  if (id in STAIR_IDS) {
+    const data = (STAIR_FACING[properties.facing] ?? 0) + (properties.half === 'top' ? 4 : 0);
+    return { block: [STAIR_IDS[id], data], exact: true };
+  }
+
+  const slab = SLABS[id] || (LEGACY_IDS.get(id) && id.endsWith('_slab') ? LEGACY_IDS.get(id)! : undefined);
+  if (slab) {
+    if (properties.type === 'double') return { block: [slab[0] - 1, slab[1]], exact: true };
+    return { block: [slab[0], slab[1] + (properties.type === 'top' ? 8 : 0)], exact: true };
+  }
+
+  const block = LEGACY_IDS.get(id);
+  if (!block) return null;
+
+  if (id.endsWith('_log') && properties.axis) {
+    return { block: [block[0], block[1] + (LOG_AXIS[properties.axis] ?? 0)], exact: true };
+  }
+
+  return { block, exact: !hasStates };
+}
+
+// Reverse lookups for upgrading legacy files; the first modern name listed for an id:data wins
+const MODERN_NAMES = new Map<string, string>();
+for (const [name, [id, data]] of LEGACY_IDS) {
+  if (!MODERN_NAMES.has(`${id}:${data}`)) MODERN_NAMES.set(`${id}:${data}`, name);
+}
+const STAIR_NAMES = new Map(Object.entries(STAIR_IDS).map(([name, id]) => [id, name]));
+const SLAB_NAMES = new Map<string, string>();
+for (const [name, [id, data]] of Object.entries(SLABS)) SLAB_NAMES.set(`${id}:${data}`, name);
+WOODS.forEach((wood, index) => SLAB_NAMES.set(`126:${index}`, `${wood}_slab`));
+
+const LEGACY_FLUIDS: Record<number, string> = { 8: 'water', 9: 'water', 10: 'lava', 11: 'lava' };
+const WALL_TORCH_FACING = ['', 'east', 'west', 'south', 'north'];
+
+/**
+ * Modern block state (`minecraft:oak_stairs[facing=north,half=top]`) for a legacy id and data value.
+ * Returns null for air and for ids this table doesn't know.
+ */
+export function fromLegacyBlock(id: number, data: number): string | null {
+  if (id === 0) return null;
+
+  if (LEGACY_FLUIDS[id]) return `minecraft:${LEGACY_FLUIDS[id]}`;
+
+  const stairs = STAIR_NAMES.get(id);
+  if (stairs) {
+    const facing = Object.keys(STAIR_FACING).find(key => STAIR_FACING[key] === (data & 3))!;
+    return `minecraft:${stairs}[facing=${facing},half=${data & 4 ? 'top' : 'bottom'}]`;
+  }
+
+  // Single slabs keep top/bottom in bit 8; double slabs use the id one below
+  const slab = SLAB_NAMES.get(`${id}:${data & 7}`);
+  if (slab) return `minecraft:${slab}[type=${data & 8 ? 'top' : 'bottom'}]`;
+  const doubleSlab = SLAB_NAMES.get(`${id + 1}:${data & 7}`);
+  if (doubleSlab) return `minecraft:${doubleSlab}[type=double]`;
+
+  if (id === 17 || id === 162) {
+    const name = MODERN_NAMES.get(`${id}:${data & 3}`);
+    const axis = Object.keys(LOG_AXIS).find(key => LOG_AXIS[key] === (data & 12)) || 'y';
+    return name ? `minecraft:${name}[axis=${axis}]` : null;
+  }
+
+  if ((id === 50 || id === 76) && data >= 1 && data <= 4) {
+    const torch = id === 50 ? 'wall_torch' : 'redstone_wall_torch';
+    return `minecraft:${torch}[facing=${WALL_TORCH_FACING[data]}]`;
+  }
+
+  // Fall back to the block's default variant when the data value only encodes orientation
+  const name = MODERN_NAMES.get(`${id}:${data}`) || MODERN_NAMES.get(`${id}:${data & 7}`) || MODERN_NAMES.get(`${id}:0`);
+  return name ? `minecraft:${name}` : null;
+}
@@ -0,0 +1,275 @@
+/**
+ * Bill of materials: turns per-block-state counts into the items a builder
+ * has to gather, with stack and shulker box breakdowns.
+ */
+
+export type MaterialExportFormat = 'json' | 'csv' | 'txt';
+
+export const MATERIAL_EXPORT_FORMATS: MaterialExportFormat[] = ['json', 'csv', 'txt'];
+
+export interface MaterialEntry {
+  id: string;
+  name: string;
+  // Block state (e.g. `facing=north,half=bottom`) when states are not merged
+  state?: string;
+  count: number;
+  stackSize: number;
+  stacks: number;
+  remainder: number;
+  shulkerBoxes: number;
+}
+
+export interface MaterialList {
+  totalItems: number;
+  entries: MaterialEntry[];
+}
+
+const SHULKER_SLOTS = 27;
+
+// Blocks that only exist in-world, placed with a differently named item
+const BLOCK_ITEMS: Record<string, string> = {
+  'minecraft:redstone_wire': 'minecraft:redstone',
+  'minecraft:tripwire': 'minecraft:string',
+  'minecraft:wall_torch': 'minecraft:torch',
+  'minecraft:soul_wall_torch': 'minecraft:soul_torch',
+  'minecraft:redstone_wall_torch': 'minecraft:redstone_torch',
+  'minecraft:water': 'minecraft:water_bucket',
+  'minecraft:lava': 'minecraft:lava_bucket',
+  'minecraft:wheat': 'minecraft:wheat_seeds',
+  'minecraft:carrots': 'minecraft:carrot',
+  'minecraft:potatoes': 'minecraft:potato',
+  'minecraft:beetroots': 'minecraft:beetroot_seeds',
+  'minecraft:cocoa': 'minecraft:cocoa_beans',
+  'minecraft:sweet_berry_bush': 'minecraft:sweet_berries',
+  'minecraft:pumpkin_stem': 'minecraft:pumpkin_seeds',
+  'minecraft:attached_pumpkin_stem': 'minecraft:pumpkin_seeds',
+  'minecraft:melon_stem': 'minecraft:melon_seeds',
+  'minecraft:attached_melon_stem': 'minecraft:melon_seeds',
+  'minecraft:bamboo_sapling': 'minecraft:bamboo',
+  'minecraft:cave_vines': 'minecraft:glow_berries',
+  'minecraft:cave_vines_plant': 'minecraft:glow_berries',
+  'minecraft:kelp_plant': 'minecraft:kelp',
+  'minecraft:big_dripleaf_stem': 'minecraft:big_dripleaf',
+  'minecraft:powder_snow': 'minecraft:powder_snow_bucket',
+};
+
+// Wall-mounted variants share an item with the standing block
+const WALL_SUFFIXES: Array<[string, string]> = [
+  ['_wall_hanging_sign', '_hanging_sign'],
+  ['_wall_sign', '_sign'],
+  ['_wall_banner', '_banner'],
+  ['_wall_head', '_head'],
+  ['_wall_skull', '_skull'],
+  ['_wall_fan', '_fan'],
+];
+
+// Technical blocks with no item at all
+const NO_ITEM = new Set([
+  'minecraft:piston_head',
+  'minecraft:moving_piston',
+  'minecraft:fire',
+  'minecraft:soul_fire',
+  'minecraft:nether_portal',
+  'minecraft:end_portal',
+  'minecraft:end_gateway',
+  'minecraft:bubble_column',
+  'minecraft:barrier',
+  'minecraft:structure_void',
+  'minecraft:light',
+]);
+
+// Blocks whose state says how many items one placed block took
+const COUNT_STATES: Record<string, string> = {
+  'minecraft:sea_pickle': 'pickles',
+  'minecraft:turtle_egg': 'eggs',
+  'minecraft:snow': 'layers',
+};
+
+const STACK_SIZE_16 = [/_sign$/, /_hanging_sign$/, /_banner$/, /^minecraft:snowball$/, /^minecraft:ender_pearl$/, /^minecraft:egg$/];
+const STACK_SIZE_1 = [/_bed$/, /_bucket$/, /_shulker_box$/, /^minecraft:shulker_box$/, /^minecraft:cake$/];
+
+function parseBlockKey(key: string): { id: string; state: string; properties: Record<string, string> } {
+  const bracket = key.indexOf('[');
+  if (bracket === -1) return { id: key, state: '', properties: {} };
+
+  const state = key.slice(bracket + 1, -1);
+  const properties: Record<string, string> = {};
+  for (const pair of state.split(',')) {
+    const [name, value] = pair.split('=');
+    if (name) properties[name] = value;
+  }
+  return { id: key.slice(0, bracket), state, properties };
+}
+
+/**
+ * Item id and quantity needed to place one block of this state (null if it has no item)
+ */
+function toItem(id: string, properties: Record<string, string>): { item: string; quantity: number } | null {
+  if (NO_ITEM.has(id)) return null;
+
+  // Two-block structures (doors, tall flowers, beds) are placed with a single item
+  if (properties.half === 'upper') return null;
+  if (id.endsWith('_bed') && properties.part === 'head') return null;
+
+  let item = BLOCK_ITEMS[id] || id;
+  for (const [suffix, replacement] of WALL_SUFFIXES) {
+    if (item.endsWith(suffix)) {
+      item = item.slice(0, -suffix.length) + replacement;
+      break;
+    }
+  }
+  if (item.startsWith('minecraft:potted_')) {
+    item = 'minecraft:flower_pot';
+  }
+
+  let quantity = 1;
+  if (id.endsWith('_slab') && properties.type === 'double') quantity = 2;
+  if (id.endsWith('candle') && properties.candles) quantity = parseInt(properties.candles, 10) || 1;
+  if (COUNT_STATES[id] && properties[COUNT_STATES[id]]) {
+    quantity = parseInt(properties[COUNT_STATES[id]], 10) || 1;
+  }
+
+  return { item, quantity };
+}
+
+export function getStackSize(item: string): number {
+  if (STACK_SIZE_1.some(pattern => pattern.test(item))) return 1;
+  if (STACK_SIZE_16.some(pattern => pattern.test(item))) return 16;
+  return 64;
+}
+
+/**
+ * `minecraft:oak_planks` → `Oak Planks` (other namespaces are kept as a prefix)
+ */
+export function getItemName(item: string): string {
+  const [namespace, path] = item.includes(':') ? item.split(':', 2) : ['minecraft', item];
+  const name = path
+    .split('_')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+  return namespace === 'minecraft' ? name : `${namespace}:${name}`;
+}
+
+/**
+ * Build a material list from block-state counts. With `mergeStates` (the default)
+ * every state of a block is summed into one row per item.
+ */
+export function buildMaterialList(
+  blockCounts: Record<string, number>,
+  options: { mergeStates?: boolean } = {}
+): MaterialList {
+  const mergeStates = options.mergeStates !== false;
+  const totals = new Map<string, { item: string; state?: string; count: number }>();
+
+  for (const [key, blocks] of Object.entries(blockCounts)) {
+    const { id, state, properties } = parseBlockKey(key);
+    const converted = toItem(id, properties);
+    if (!converted) continue;
+
+    const rowKey = mergeStates ? converted.item : key;
+    const row = totals.get(rowKey) || {
+      item: converted.item,
+      state: mergeStates || !state ? undefined : state,
+      count: 0,
+    };
+    row.count += blocks * converted.quantity;
+    totals.set(rowKey, row);
+  }
+
+  const entries: MaterialEntry[] = [...totals.values()].map(({ item, state, count }) => {
+    const stackSize = getStackSize(item);
+    return {
+      id: item,
+      name: getItemName(item),
+      ...(state ? { state } : {}),
+      count,
+      stackSize,
+      stacks: Math.floor(count / stackSize),
+      remainder: count % stackSize,
+      shulkerBoxes: Math.round((count / (stackSize * SHULKER_SLOTS)) * 100) / 100,
+    };
+  });
+
+  entries.sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+
+  return {
+    totalItems: entries.reduce((sum, entry) => sum + entry.count, 0),
+    entries,
+  };
+}
+
+/**
+ * Human-readable quantity, e.g. `2 SB + 5 × 64 + 12`
+ */
+export function describeQuantity(entry: MaterialEntry): string {
+  const perBox = entry.stackSize * SHULKER_SLOTS;
+  const boxes = Math.floor(entry.count / perBox);
+  const stacks = Math.floor((entry.count % perBox) / entry.stackSize);
+
+  const parts: string[] = [];
+  if (boxes > 0) parts.push(`${boxes} SB`);
+  if (stacks > 0) parts.push(`${stacks} × ${entry.stackSize}`);
+  if (entry.remainder > 0 || parts.length === 0) parts.push(String(entry.remainder));
+  return parts.join(' + ');
+}
+
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function formatMaterialsCsv(list: MaterialList): string {
+  const rows = [['Item', 'Block ID', 'State', 'Total', 'Stack Size', 'Stacks', 'Remainder', 'Shulker Boxes']];
+  for (const entry of list.entries) {
+    rows.push([
+      entry.name,
+      entry.id,
+      entry.state || '',
+      String(entry.count),
+      String(entry.stackSize),
+      String(entry.stacks),
+      String(entry.remainder),
+      String(entry.shulkerBoxes),
+    ]);
+  }
+  return rows.map(row => row.map(csvField).join(',')).join('\n') + '\n';
+}
+
+/**
+ * Plain-text table in the layout of Litematica's material list export
+ */
+export function formatMaterialsText(list: MaterialList, title: string): string {
+  const header = ['Item', 'Total', 'Stacks'];
+  const rows = list.entries.map(entry => [
+    entry.state ? `${entry.name} [${entry.state}]` : entry.name,
+    String(entry.count),
+    describeQuantity(entry),
+  ]);
+
+  const widths = header.map((cell, i) => Math.max(cell.length, ...rows.map(row => row[i].length)));
+  const separator = '+' + widths.map(width => '-'.repeat(width + 2)).join('+') + '+';
+  const line = (cells: string[]) => '| ' + cells.map((cell, i) => cell.padEnd(widths[i])).join(' | ') + ' |';
+  const titleLine = `| Material List for '${title}'`;
+
+  return [
+    separator,
+    titleLine.padEnd(separator.length - 1) + '|',
+    separator,
+    line(header),
+    separator,
+    ...rows.map(line),
+    separator,
+    line(header),
+    separator,
+    '',
+  ].join('\n');
+}
+
+export default {
+  buildMaterialList,
+  describeQuantity,
+  formatMaterialsCsv,
+  formatMaterialsText,
+  getItemName,
+  getStackSize,
+};
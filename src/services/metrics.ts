@@ -22,6 +22,8 @@ let totalRenders = 0;
 let successfulRenders = 0;
 let failedRenders = 0;
 let totalProcessingTime = 0;
+// Requests that joined an identical render already in progress
+let coalescedRenders = 0;
 
 export function trackRenderStart(id: string, type: 'image' | 'video', fileSize: number): void {
 	const metric: RenderMetric = {
@@ -87,6 +89,11 @@ export function trackRenderError(id: string, error: any): void {
 	logger.error(`[METRICS] Render failed: ${id} - ${metric.error}`);
 }
 
+export function trackCoalescedRender(id: string, joinedJobId: string): void {
+	coalescedRenders++;
+	logger.info(`[METRICS] Render coalesced: ${id} joined job ${joinedJobId}`);
+}
+
 export function getActiveRenders(): RenderMetric[] {
 	return Array.from(metrics.values());
 }
@@ -106,6 +113,7 @@ export function getMetricsStats() {
 		successRate: totalRenders > 0 ? (successfulRenders / totalRenders) * 100 : 0,
 		activeRenders: activeRenders.length,
 		avgProcessingTime: Math.round(avgProcessingTime),
+		coalesced: coalescedRenders,
 		recentRenders: metricsHistory.slice(0, 10),
 	};
 }
@@ -117,6 +125,7 @@ export function resetMetrics(): void {
 	successfulRenders = 0;
 	failedRenders = 0;
 	totalProcessingTime = 0;
+	coalescedRenders = 0;
 	logger.info('[METRICS] Metrics reset');
 }
 
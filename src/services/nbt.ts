@@ -0,0 +1,290 @@
+import zlib from 'zlib';
+import { InvalidSchematicError } from './schematic-errors.js';
+
+/**
+ * Minimal NBT parser for schematic headers and legacy block data.
+ * Int and long arrays are not decoded (only their length is kept) so large
+ * block data stays cheap to skip; byte arrays are exposed as zero-copy views.
+ */
+
+export type NbtValue =
+  | number
+  | bigint
+  | string
+  | NbtValue[]
+  | { [key: string]: NbtValue }
+  | { arrayLength: number; bytes?: Buffer };
+
+export type NbtCompound = { [key: string]: NbtValue };
+
+const TAG_END = 0;
+const TAG_BYTE = 1;
+const TAG_SHORT = 2;
+const TAG_INT = 3;
+const TAG_LONG = 4;
+const TAG_FLOAT = 5;
+const TAG_DOUBLE = 6;
+const TAG_BYTE_ARRAY = 7;
+const TAG_STRING = 8;
+const TAG_LIST = 9;
+const TAG_COMPOUND = 10;
+const TAG_INT_ARRAY = 11;
+const TAG_LONG_ARRAY = 12;
+
+class NbtReader {
+  private offset = 0;
+
+  // Bedrock Edition (.mcstructure) writes NBT little-endian
+  constructor(private buffer: Buffer, private littleEndian: boolean = false) {}
+
+  readRoot(): NbtCompound {
+    const type = this.buffer.readUInt8(this.offset++);
+    if (type !== TAG_COMPOUND) {
+      throw new Error(`NBT root must be a compound tag, got type ${type}`);
+    }
+    this.readString(); // root name
+    return this.readCompound();
+  }
+
+  private readInt16(): number {
+    const value = this.littleEndian ? this.buffer.readInt16LE(this.offset) : this.buffer.readInt16BE(this.offset);
+    this.offset += 2;
+    return value;
+  }
+
+  private readInt32(): number {
+    const value = this.littleEndian ? this.buffer.readInt32LE(this.offset) : this.buffer.readInt32BE(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  private readString(): string {
+    const length = this.littleEndian ? this.buffer.readUInt16LE(this.offset) : this.buffer.readUInt16BE(this.offset);
+    this.offset += 2;
+    const value = this.buffer.toString('utf8', this.offset, this.offset + length);
+    this.offset += length;
+    return value;
+  }
+
+  private readCompound(): NbtCompound {
+    const result: NbtCompound = {};
+    for (;;) {
+      const type = this.buffer.readUInt8(this.offset++);
+      if (type === TAG_END) return result;
+      const name = this.readString();
+      result[name] = this.readPayload(type);
+    }
+  }
+
+  private skipArray(elementSize: number): { arrayLength: number } {
+    const length = this.readInt32();
+    this.offset += length * elementSize;
+    return { arrayLength: length };
+  }
+
+  private readByteArray(): { arrayLength: number; bytes: Buffer } {
+    const length = this.readInt32();
+    const bytes = this.buffer.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return { arrayLength: length, bytes };
+  }
+
+  private readPayload(type: number): NbtValue {
+    let value: NbtValue;
+    switch (type) {
+      case TAG_BYTE:
+        value = this.buffer.readInt8(this.offset);
+        this.offset += 1;
+        return value;
+      case TAG_SHORT:
+        return this.readInt16();
+      case TAG_INT:
+        return this.readInt32();
+      case TAG_LONG:
+        value = this.littleEndian ? this.buffer.readBigInt64LE(this.offset) : this.buffer.readBigInt64BE(this.offset);
+        this.offset += 8;
+        return value;
+      case TAG_FLOAT:
+        value = this.littleEndian ? this.buffer.readFloatLE(this.offset) : this.buffer.readFloatBE(this.offset);
+        this.offset += 4;
+        return value;
+      case TAG_DOUBLE:
+        value = this.littleEndian ? this.buffer.readDoubleLE(this.offset) : this.buffer.readDoubleBE(this.offset);
+        this.offset += 8;
+        return value;
+      case TAG_BYTE_ARRAY:
+        return this.readByteArray();
+      case TAG_STRING:
+        return this.readString();
+      case TAG_LIST: {
+        const elementType = this.buffer.readUInt8(this.offset++);
+        const length = this.readInt32();
+        const list: NbtValue[] = [];
+        for (let i = 0; i < length; i++) {
+          list.push(this.readPayload(elementType));
+        }
+        return list;
+      }
+      case TAG_COMPOUND:
+        return this.readCompound();
+      case TAG_INT_ARRAY:
+        return this.skipArray(4);
+      case TAG_LONG_ARRAY:
+        return this.skipArray(8);
+      default:
+        throw new Error(`Unknown NBT tag type ${type} at offset ${this.offset - 1}`);
+    }
+  }
+}
+
+export function asCompound(value: NbtValue | undefined): NbtCompound | undefined {
+  return value && typeof value === 'object' && !Array.isArray(value) && !('arrayLength' in value)
+    ? (value as NbtCompound)
+    : undefined;
+}
+
+export function asBytes(value: NbtValue | undefined): Buffer | undefined {
+  return value && typeof value === 'object' && 'bytes' in value ? (value.bytes as Buffer) : undefined;
+}
+
+export function asNumber(value: NbtValue | undefined): number | undefined {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'bigint') return Number(value);
+  return undefined;
+}
+
+export function isGzip(data: Buffer): boolean {
+  return data.length > 2 && data[0] === 0x1f && data[1] === 0x8b;
+}
+
+/**
+ * Parse an NBT file (gzip-compressed or raw) into its root compound
+ */
+export function readNbt(data: Buffer, options: { littleEndian?: boolean } = {}): NbtCompound {
+  return new NbtReader(isGzip(data) ? gunzip(data) : data, options.littleEndian).readRoot();
+}
+
+// A few KB of gzip can expand to gigabytes; uploads are inflated no further than this
+const MAX_UNCOMPRESSED_SIZE = parseInt(process.env.MAX_SCHEMATIC_UNCOMPRESSED_MB || '256') * 1024 * 1024;
+
+function gunzip(data: Buffer): Buffer {
+  try {
+    return zlib.gunzipSync(data, { maxOutputLength: MAX_UNCOMPRESSED_SIZE });
+  } catch (error: any) {
+    if (error?.code === 'ERR_BUFFER_TOO_LARGE') {
+      throw new InvalidSchematicError(`Schematic decompresses to more than ${MAX_UNCOMPRESSED_SIZE / (1024 * 1024)}MB`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Typed NBT values for writing (the reader's plain numbers don't say which tag they came from)
+ */
+export type NbtTag =
+  | { type: 'byte' | 'short' | 'int' | 'float' | 'double'; value: number }
+  | { type: 'long'; value: bigint }
+  | { type: 'string'; value: string }
+  | { type: 'byteArray'; value: Uint8Array }
+  | { type: 'intArray'; value: number[] }
+  | { type: 'list'; elementType: NbtTag['type']; value: NbtTag[] }
+  | { type: 'compound'; value: Record<string, NbtTag> };
+
+const TAG_IDS: Record<NbtTag['type'], number> = {
+  byte: TAG_BYTE,
+  short: TAG_SHORT,
+  int: TAG_INT,
+  long: TAG_LONG,
+  float: TAG_FLOAT,
+  double: TAG_DOUBLE,
+  byteArray: TAG_BYTE_ARRAY,
+  string: TAG_STRING,
+  list: TAG_LIST,
+  compound: TAG_COMPOUND,
+  intArray: TAG_INT_ARRAY,
+};
+
+export const nbt = {
+  byte: (value: number): NbtTag => ({ type: 'byte', value }),
+  short: (value: number): NbtTag => ({ type: 'short', value }),
+  int: (value: number): NbtTag => ({ type: 'int', value }),
+  string: (value: string): NbtTag => ({ type: 'string', value }),
+  byteArray: (value: Uint8Array): NbtTag => ({ type: 'byteArray', value }),
+  intArray: (value: number[]): NbtTag => ({ type: 'intArray', value }),
+  list: (elementType: NbtTag['type'], value: NbtTag[]): NbtTag => ({ type: 'list', elementType, value }),
+  compound: (value: Record<string, NbtTag>): NbtTag => ({ type: 'compound', value }),
+};
+
+function encodeString(value: string): Buffer {
+  const bytes = Buffer.from(value, 'utf8');
+  const length = Buffer.alloc(2);
+  length.writeUInt16BE(bytes.length);
+  return Buffer.concat([length, bytes]);
+}
+
+function encodePayload(tag: NbtTag, chunks: Buffer[]): void {
+  let buffer: Buffer;
+  switch (tag.type) {
+    case 'byte':
+      buffer = Buffer.alloc(1);
+      buffer.writeInt8(tag.value);
+      break;
+    case 'short':
+      buffer = Buffer.alloc(2);
+      buffer.writeInt16BE(tag.value);
+      break;
+    case 'int':
+      buffer = Buffer.alloc(4);
+      buffer.writeInt32BE(tag.value);
+      break;
+    case 'long':
+      buffer = Buffer.alloc(8);
+      buffer.writeBigInt64BE(tag.value);
+      break;
+    case 'float':
+      buffer = Buffer.alloc(4);
+      buffer.writeFloatBE(tag.value);
+      break;
+    case 'double':
+      buffer = Buffer.alloc(8);
+      buffer.writeDoubleBE(tag.value);
+      break;
+    case 'string':
+      buffer = encodeString(tag.value);
+      break;
+    case 'byteArray':
+      buffer = Buffer.alloc(4);
+      buffer.writeInt32BE(tag.value.length);
+      chunks.push(buffer, Buffer.from(tag.value));
+      return;
+    case 'intArray':
+      buffer = Buffer.alloc(4 + tag.value.length * 4);
+      buffer.writeInt32BE(tag.value.length);
+      tag.value.forEach((value, i) => buffer.writeInt32BE(value, 4 + i * 4));
+      break;
+    case 'list':
+      buffer = Buffer.alloc(5);
+      buffer.writeUInt8(tag.value.length > 0 ? TAG_IDS[tag.elementType] : TAG_END);
+      buffer.writeInt32BE(tag.value.length, 1);
+      chunks.push(buffer);
+      for (const element of tag.value) encodePayload(element, chunks);
+      return;
+    case 'compound':
+      for (const [name, child] of Object.entries(tag.value)) {
+        chunks.push(Buffer.from([TAG_IDS[child.type]]), encodeString(name));
+        encodePayload(child, chunks);
+      }
+      chunks.push(Buffer.from([TAG_END]));
+      return;
+  }
+  chunks.push(buffer);
+}
+
+/**
+ * Serialise a root compound as a gzip-compressed NBT file
+ */
+export function writeNbt(root: Record<string, NbtTag>, rootName: string = ''): Buffer {
+  const chunks: Buffer[] = [Buffer.from([TAG_COMPOUND]), encodeString(rootName)];
+  encodePayload(nbt.compound(root), chunks);
+  return zlib.gzipSync(Buffer.concat(chunks));
+}
@@ -0,0 +1,82 @@
+import nucleation, { SchematicWrapper } from 'nucleation';
+import { InvalidSchematicError } from './schematic-errors.js';
+
+export const AIR_BLOCKS = new Set(['minecraft:air', 'minecraft:cave_air', 'minecraft:void_air']);
+
+// Every loaded block becomes a JS object on the heap, so the server only loads schematics up
+// to this volume (diffs, filters, build guides, conversions); block counting has no such limit
+// because it runs in a child process (see block-count-worker.ts)
+export const MAX_LOADED_BLOCKS = parseInt(process.env.MAX_LOADED_BLOCKS || '4194304');
+
+export interface SchematicBlock {
+  x: number;
+  y: number;
+  z: number;
+  name: string;
+  properties?: Record<string, string>;
+}
+
+// nucleation is a WASM module that must be initialised once before use
+let nucleationReady: Promise<unknown> | null = null;
+
+function initNucleation(): Promise<unknown> {
+  if (!nucleationReady) {
+    nucleationReady = Promise.resolve(nucleation());
+  }
+  return nucleationReady;
+}
+
+/**
+ * Parse a schematic with nucleation, run `fn` on it and free the WASM memory afterwards
+ */
+export async function withSchematic<T>(
+  data: Buffer,
+  fn: (schematic: SchematicWrapper) => T | Promise<T>
+): Promise<T> {
+  await initNucleation();
+
+  const schematic = new SchematicWrapper();
+  try {
+    try {
+      schematic.from_data(new Uint8Array(data));
+    } catch (error: any) {
+      throw new InvalidSchematicError(`Could not parse schematic: ${error?.message || error}`);
+    }
+    return await fn(schematic);
+  } finally {
+    schematic.free?.();
+  }
+}
+
+/**
+ * Every block in a parsed schematic, air included. Schematics larger than `maxBlocks`
+ * are rejected before any block is loaded.
+ */
+export function getBlocks(schematic: SchematicWrapper, maxBlocks: number = MAX_LOADED_BLOCKS): SchematicBlock[] {
+  const { width, height, length } = getDimensions(schematic);
+  const volume = width * height * length;
+  if (volume > maxBlocks) {
+    throw new InvalidSchematicError(
+      `Schematic is too large for this operation (${volume.toLocaleString()} blocks, limit ${maxBlocks.toLocaleString()})`
+    );
+  }
+  return schematic.blocks() as SchematicBlock[];
+}
+
+export function getDimensions(schematic: SchematicWrapper): { width: number; height: number; length: number } {
+  const [width, height, length] = Array.from(schematic.get_dimensions() as ArrayLike<number>);
+  return { width, height, length };
+}
+
+/**
+ * Block id with its sorted block states, e.g. `minecraft:oak_stairs[facing=north,half=bottom]`
+ */
+export function blockKey(name: string, properties?: Record<string, string> | Map<string, string> | null): string {
+  const entries = properties instanceof Map ? [...properties.entries()] : Object.entries(properties || {});
+  if (entries.length === 0) return name;
+  const states = entries
+    .map(([key, value]) => `${key}=${value}`)
+    .sort()
+    .join(',');
+  return `${name}[${states}]`;
+}
@@ -18,8 +18,21 @@ if (IS_DEV && (detectedFrontendUrl.includes(`:${PORT}`) || detectedFrontendUrl.i
 
 const FRONTEND_URL = detectedFrontendUrl;
 
-// Track active browser instances for monitoring
-const activeBrowsers = new Map<string, { browser: Browser; page: Page; startTime: number }>();
+// A warm browser: Chromium launched, React app loaded and renderer ready
+interface PooledBrowser {
+	browser: Browser;
+	page: Page;
+	startTime: number;
+	renderCount: number;
+	busy: boolean;
+	leasedAt?: number;
+	leaseMs?: number; // how long the current lease may run before it counts as stuck
+}
+
+// Browser pool (idle + leased) and callers waiting for a free page
+const browserPool = new Map<string, PooledBrowser>();
+const poolWaiters: Array<{ resolve: (id: string) => void; reject: (err: any) => void }> = [];
+let launchingBrowsers = 0;
 
 // tell TypeScript that window.schematicRendererInitialized, THREE, and window.schematicHelpers are defined
 
@@ -31,7 +44,7 @@ export async function initPuppeteerService(): Promise<void> {
 
 	initializationPromise = (async () => {
 		try {
-			logger.info("🚀 Initializing Puppeteer service (isolated browser mode)...");
+			logger.info("🚀 Initializing Puppeteer service (browser pool mode)...");
 
 			// Test if React app is accessible
 			const testBrowser = await puppeteer.launch({
@@ -62,7 +75,16 @@ export async function initPuppeteerService(): Promise<void> {
 			await testBrowser.close();
 
 			isInitialized = true;
-			logger.info("✅ Puppeteer service fully initialized (isolated browser mode)");
+
+			// Pre-warm the pool in the background and watch for stuck leases
+			ensureWarmPool();
+			if (!staleCheckInterval) {
+				staleCheckInterval = setInterval(() => {
+					cleanupStaleBrowsers().catch((error) => logger.warn("Stale browser cleanup failed:", error));
+				}, 60_000);
+			}
+
+			logger.info("✅ Puppeteer service fully initialized (browser pool mode)");
 		} catch (error: any) {
 			console.error("Failed to initialize Puppeteer:");
 			console.error("Error message:", error.message);
@@ -81,27 +103,27 @@ export async function initPuppeteerService(): Promise<void> {
 export interface BrowserRenderOptions {
 	isometric?: boolean;
 	background?: string;
+	expectedMs?: number; // time the render needs beyond loading and one capture (long videos, many variants)
 }
 
-// Maximum concurrent browsers allowed
-const MAX_CONCURRENT_BROWSERS = 3;
+// Maximum concurrent browsers allowed (the pool never grows past this)
+const MAX_CONCURRENT_BROWSERS = parseInt(process.env.MAX_CONCURRENT_RENDERS || "3");
+
+// Pool tuning
+const POOL_MIN_IDLE = parseInt(process.env.BROWSER_POOL_MIN_IDLE || "1"); // Warm pages kept ready
+const MAX_RENDERS_PER_BROWSER = parseInt(process.env.BROWSER_POOL_MAX_RENDERS || "25"); // Recycle after N renders
+const MAX_BROWSER_HEAP_MB = parseInt(process.env.BROWSER_POOL_MAX_HEAP_MB || "384"); // Recycle when JS heap grows past this
+const STALE_LEASE_MS = 5 * 60 * 1000; // A render holding a page longer than this plus its expected time is considered stuck
+
+let staleCheckInterval: ReturnType<typeof setInterval> | null = null;
 
 /**
- * Create a new isolated browser instance with initialized page
+ * Launch a browser, load the React app and wait for the renderer to be ready
  */
-export async function createIsolatedBrowser(renderOptions?: BrowserRenderOptions): Promise<{ browser: Browser; page: Page; id: string }> {
+async function launchPooledBrowser(busy: boolean): Promise<string> {
 	const browserId = `browser-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 
-	// Check if we have too many browsers active - wait if so
-	while (activeBrowsers.size >= MAX_CONCURRENT_BROWSERS) {
-		logger.warn(`[${browserId}] Too many active browsers (${activeBrowsers.size}), waiting...`);
-		await new Promise(resolve => setTimeout(resolve, 1000));
-
-		// Clean up any stale browsers (older than 5 minutes)
-		await cleanupStaleBrowsers();
-	}
-
-	logger.info(`[${browserId}] Creating new isolated browser instance (active: ${activeBrowsers.size})...`);
+	logger.info(`[${browserId}] Launching pooled browser instance (pool: ${browserPool.size}/${MAX_CONCURRENT_BROWSERS})...`);
 
 	const browser = await puppeteer.launch({
 		// @ts-ignore
@@ -150,19 +172,9 @@ export async function createIsolatedBrowser(renderOptions?: BrowserRenderOptions
 	await page.setViewport({ width: 1920, height: 1080 });
 
 	try {
-		// Build URL with render options as query parameters
-		const url = new URL(FRONTEND_URL);
-		if (renderOptions?.isometric !== undefined) {
-			url.searchParams.set('isometric', renderOptions.isometric.toString());
-		}
-		if (renderOptions?.background) {
-			url.searchParams.set('background', renderOptions.background);
-		}
+		logger.info(`[${browserId}] Loading React app from detected URL: ${FRONTEND_URL} (Source: ${IS_DEV ? 'Vite Direct' : 'Production/Proxy'})`);
 
-		const finalUrl = url.toString();
-		logger.info(`[${browserId}] Loading React app from detected URL: ${finalUrl} (Source: ${IS_DEV ? 'Vite Direct' : 'Production/Proxy'})`);
-
-		await page.goto(finalUrl, {
+		await page.goto(FRONTEND_URL, {
 			waitUntil: "domcontentloaded",
 			timeout: 60000,
 		});
@@ -177,62 +189,58 @@ export async function createIsolatedBrowser(renderOptions?: BrowserRenderOptions
 					typeof window.schematicHelpers.waitForReady === "function" &&
 					typeof window.schematicHelpers.startVideoRecording === "function" &&
 					typeof window.schematicHelpers.takeScreenshot === "function" &&
-					typeof window.schematicHelpers.loadSchematic === "function"
+					typeof window.schematicHelpers.loadSchematic === "function" &&
+					typeof window.schematicHelpers.clearScene === "function"
 				);
 			},
 			{
-				timeout: 30000, // Increased from 15s to 30s
+				timeout: 30000,
 				polling: 500,
 			}
 		);
 
 		logger.info(`[${browserId}] ✅ Schematic helpers found!`);
 
-		// Check current status before waiting
-		const preWaitStatus = await page.evaluate(() => {
-			return {
-				hasHelpers: !!window.schematicHelpers,
-				isReady: window.schematicHelpers?.isReady(),
-				rendererInitialized: window.schematicRendererInitialized,
-			};
+		// Wait for the renderer to be fully initialized
+		await page.evaluate(() => {
+			return new Promise((resolve, reject) => {
+				const timeout = setTimeout(() => {
+					reject(new Error("Renderer initialization timeout after 30 seconds"));
+				}, 30000);
+
+				window.schematicHelpers
+					.waitForReady()
+					.then(() => {
+						clearTimeout(timeout);
+						resolve(true);
+					})
+					.catch(reject);
+			});
 		});
 
-		if (preWaitStatus.isReady) {
-			logger.info(`[${browserId}] ✅ Renderer already ready, skipping wait`);
-		} else {
-			logger.info(`[${browserId}] Waiting for renderer initialization...`);
-
-			// Wait for the renderer to be fully initialized
-			await page.evaluate(() => {
-				return new Promise((resolve, reject) => {
-					const timeout = setTimeout(() => {
-						reject(
-							new Error("Renderer initialization timeout after 30 seconds")
-						);
-					}, 30000); // Increased from 10 to 30 seconds
-
-					// Check if helpers exist first
-					if (!window.schematicHelpers || !window.schematicHelpers.waitForReady) {
-						reject(new Error("schematicHelpers.waitForReady not available"));
-						return;
-					}
-
-					window.schematicHelpers
-						.waitForReady()
-						.then(() => {
-							clearTimeout(timeout);
-							resolve(true);
-						})
-						.catch(reject);
-				});
-			});
-		}
+		// Remember the initial scene state so the page can be reset between jobs
+		await page.evaluate(() => {
+			const renderer = (window as any).rendererRef?.current;
+			const background = renderer?.sceneManager?.scene?.background ?? null;
+			const threeRenderer = renderer?.renderManager?.renderer;
+			(window as any).poolDefaults = {
+				background: background?.clone ? background.clone() : background,
+				clearColor: threeRenderer ? threeRenderer.getClearColor(new window.THREE.Color()).getHex() : 0x000000,
+				clearAlpha: threeRenderer ? threeRenderer.getClearAlpha() : 0,
+			};
+		});
 
-		// Track active browser
-		activeBrowsers.set(browserId, { browser, page, startTime: Date.now() });
+		browserPool.set(browserId, {
+			browser,
+			page,
+			startTime: Date.now(),
+			renderCount: 0,
+			busy,
+			leasedAt: busy ? Date.now() : undefined,
+		});
 
-		logger.info(`[${browserId}] ✅ Isolated browser ready and initialized`);
-		return { browser, page, id: browserId };
+		logger.info(`[${browserId}] ✅ Pooled browser warm and ready`);
+		return browserId;
 	} catch (error) {
 		logger.error(`[${browserId}] ❌ Browser initialization failed:`, error);
 
@@ -249,17 +257,186 @@ export async function createIsolatedBrowser(renderOptions?: BrowserRenderOptions
 }
 
 /**
- * Close and cleanup isolated browser instance
+ * Launch a browser while counting it against the pool capacity
+ */
+async function spawnPooledBrowser(busy: boolean): Promise<string> {
+	launchingBrowsers++;
+	try {
+		return await launchPooledBrowser(busy);
+	} finally {
+		launchingBrowsers--;
+	}
+}
+
+/**
+ * Hand idle pages (or fresh launches, while under capacity) to waiting callers in FIFO order
  */
-export async function closeIsolatedBrowser(browserId: string): Promise<void> {
-	const browserInstance = activeBrowsers.get(browserId);
+function drainPoolWaiters(): void {
+	while (poolWaiters.length > 0) {
+		const idle = Array.from(browserPool.entries()).find(([, instance]) => !instance.busy);
+		if (idle) {
+			const [browserId, instance] = idle;
+			instance.busy = true;
+			instance.leasedAt = Date.now();
+			poolWaiters.shift()!.resolve(browserId);
+			continue;
+		}
+
+		if (browserPool.size + launchingBrowsers < MAX_CONCURRENT_BROWSERS) {
+			const waiter = poolWaiters.shift()!;
+			spawnPooledBrowser(true).then(waiter.resolve, waiter.reject);
+			continue;
+		}
+
+		break;
+	}
+}
+
+/**
+ * Keep POOL_MIN_IDLE warm pages around so the next render skips the boot
+ */
+function ensureWarmPool(): void {
+	if (!isInitialized) return;
+
+	const idleCount = Array.from(browserPool.values()).filter((instance) => !instance.busy).length;
+	let missing = Math.min(
+		POOL_MIN_IDLE - idleCount - launchingBrowsers,
+		MAX_CONCURRENT_BROWSERS - browserPool.size - launchingBrowsers
+	);
+
+	while (missing-- > 0) {
+		spawnPooledBrowser(false)
+			.then(() => drainPoolWaiters())
+			.catch((error) => logger.warn("Failed to pre-warm pooled browser:", error));
+	}
+}
+
+/**
+ * Lease a warm browser page from the pool, waiting for one to free up if the pool is at capacity
+ */
+export async function acquireBrowser(renderOptions?: BrowserRenderOptions): Promise<{ browser: Browser; page: Page; id: string; leaseId: string }> {
+	if (poolWaiters.length > 0 || browserPool.size >= MAX_CONCURRENT_BROWSERS) {
+		logger.info(`Browser pool busy (${browserPool.size}/${MAX_CONCURRENT_BROWSERS}, ${poolWaiters.length} waiting), queueing...`);
+	}
+
+	const browserId = await new Promise<string>((resolve, reject) => {
+		poolWaiters.push({ resolve, reject });
+		drainPoolWaiters();
+	});
+
+	const instance = browserPool.get(browserId)!;
+	instance.leaseMs = STALE_LEASE_MS + (renderOptions?.expectedMs ?? 0);
+
+	try {
+		// The camera preset used to come from the URL; pooled pages switch it per job instead
+		await instance.page.evaluate((isometric) => {
+			const renderer = (window as any).rendererRef?.current;
+			renderer?.cameraManager?.switchCameraPreset(isometric ? "isometric" : "perspective");
+		}, !!renderOptions?.isometric);
+	} catch (error) {
+		logger.error(`[${browserId}] Failed to prepare pooled page:`, error);
+		await releaseBrowser(browserId, { recycle: true });
+		throw error;
+	}
+
+	logger.info(`[${browserId}] Leased pooled browser (render #${instance.renderCount + 1})`);
+	return {
+		browser: instance.browser,
+		page: instance.page,
+		id: browserId,
+		leaseId: `${browserId}-r${instance.renderCount + 1}`,
+	};
+}
+
+/**
+ * Return a leased page to the pool, resetting its scene or recycling it when it is worn out
+ */
+export async function releaseBrowser(browserId: string, options: { recycle?: boolean } = {}): Promise<void> {
+	const instance = browserPool.get(browserId);
+	if (!instance) {
+		logger.warn(`[${browserId}] Browser instance not found for release`);
+		drainPoolWaiters();
+		return;
+	}
+
+	instance.renderCount++;
+
+	let recycleReason: string | null = options.recycle ? "render failed" : null;
+
+	if (!recycleReason && instance.renderCount >= MAX_RENDERS_PER_BROWSER) {
+		recycleReason = `served ${instance.renderCount} renders`;
+	}
+
+	if (!recycleReason) {
+		const heapUsed = await getBrowserHeapUsage(browserId);
+		if (heapUsed > MAX_BROWSER_HEAP_MB * 1024 * 1024) {
+			recycleReason = `JS heap at ${Math.round(heapUsed / 1024 / 1024)}MB`;
+		}
+	}
+
+	if (!recycleReason) {
+		try {
+			await instance.page.evaluate(async () => {
+				await window.schematicHelpers.clearScene();
+
+				const renderer = (window as any).rendererRef?.current;
+				const defaults = (window as any).poolDefaults;
+				if (renderer && defaults) {
+					if (renderer.sceneManager?.scene) {
+						renderer.sceneManager.scene.background = defaults.background?.clone ? defaults.background.clone() : defaults.background;
+					}
+					renderer.renderManager?.renderer?.setClearColor(defaults.clearColor, defaults.clearAlpha);
+				}
+			});
+		} catch (error) {
+			logger.warn(`[${browserId}] Failed to reset pooled page:`, error);
+			recycleReason = "scene reset failed";
+		}
+	}
+
+	if (recycleReason) {
+		logger.info(`[${browserId}] Recycling pooled browser (${recycleReason})`);
+		await destroyPooledBrowser(browserId);
+		ensureWarmPool();
+	} else {
+		instance.busy = false;
+		instance.leasedAt = undefined;
+		instance.leaseMs = undefined;
+		logger.info(`[${browserId}] ✅ Returned to pool (${instance.renderCount} renders served)`);
+	}
+
+	drainPoolWaiters();
+}
+
+/**
+ * Read the JS heap of a pooled page from the Puppeteer metrics
+ */
+async function getBrowserHeapUsage(browserId: string): Promise<number> {
+	try {
+		const metrics = await getPuppeteerMetrics();
+		const entry = metrics.browserPerformance.find((b) => b.id === browserId);
+		return entry?.performance?.jsHeapSizeUsed || 0;
+	} catch (error) {
+		logger.warn(`[${browserId}] Could not read heap usage:`, error);
+		return 0;
+	}
+}
+
+/**
+ * Close a pooled browser and remove it from the pool
+ */
+async function destroyPooledBrowser(browserId: string): Promise<void> {
+	const browserInstance = browserPool.get(browserId);
 	if (!browserInstance) {
 		logger.warn(`[${browserId}] Browser instance not found for cleanup`);
 		return;
 	}
 
+	// Remove first so the slot is immediately available to waiters
+	browserPool.delete(browserId);
+
 	const duration = Date.now() - browserInstance.startTime;
-	logger.info(`[${browserId}] Closing isolated browser (lived ${duration}ms)`);
+	logger.info(`[${browserId}] Closing pooled browser (lived ${duration}ms, ${browserInstance.renderCount} renders)`);
 
 	try {
 		// First close the page
@@ -286,51 +463,55 @@ export async function closeIsolatedBrowser(browserId: string): Promise<void> {
 			}
 		}
 
-		activeBrowsers.delete(browserId);
 		logger.info(`[${browserId}] ✅ Browser closed successfully`);
 	} catch (error) {
 		logger.error(`[${browserId}] Error closing browser:`, error);
-		activeBrowsers.delete(browserId);
 	}
 }
 
 /**
- * Cleanup stale browsers that have been running too long
+ * Cleanup browsers whose lease has been held longer than its render should take (stuck renders)
  */
-async function cleanupStaleBrowsers(maxAgeMs: number = 5 * 60 * 1000): Promise<void> {
+async function cleanupStaleBrowsers(): Promise<void> {
 	const now = Date.now();
 	const staleBrowserIds: string[] = [];
 
-	for (const [browserId, instance] of activeBrowsers.entries()) {
-		const age = now - instance.startTime;
-		if (age > maxAgeMs) {
-			logger.warn(`[${browserId}] Browser is stale (${Math.round(age / 1000)}s old), marking for cleanup`);
+	for (const [browserId, instance] of browserPool.entries()) {
+		if (!instance.busy || !instance.leasedAt) continue;
+
+		const age = now - instance.leasedAt;
+		if (age > (instance.leaseMs ?? STALE_LEASE_MS)) {
+			logger.warn(`[${browserId}] Browser lease is stale (${Math.round(age / 1000)}s old), marking for cleanup`);
 			staleBrowserIds.push(browserId);
 		}
 	}
 
 	// Clean up stale browsers
 	for (const browserId of staleBrowserIds) {
-		await closeIsolatedBrowser(browserId);
+		await destroyPooledBrowser(browserId);
 	}
 
 	if (staleBrowserIds.length > 0) {
 		logger.info(`Cleaned up ${staleBrowserIds.length} stale browser(s)`);
+		ensureWarmPool();
+		drainPoolWaiters();
 	}
 }
 
 /**
- * Force cleanup all active browsers (for emergency cleanup)
+ * Force cleanup all pooled browsers (for emergency cleanup)
  */
 export async function forceCleanupAllBrowsers(): Promise<void> {
-	logger.warn(`Force cleaning up all ${activeBrowsers.size} active browsers...`);
+	logger.warn(`Force cleaning up all ${browserPool.size} pooled browsers...`);
 
-	const browserIds = Array.from(activeBrowsers.keys());
+	const browserIds = Array.from(browserPool.keys());
 	for (const browserId of browserIds) {
-		await closeIsolatedBrowser(browserId);
+		await destroyPooledBrowser(browserId);
 	}
 
 	logger.info('Force cleanup complete');
+	ensureWarmPool();
+	drainPoolWaiters();
 }
 
 /**
@@ -360,12 +541,20 @@ export async function waitForPuppeteerReady(
  * Get detailed browser pool status (for monitoring)
  */
 export function getBrowserStatus() {
+	const instances = Array.from(browserPool.entries());
 	return {
 		initialized: isInitialized,
-		activeBrowsers: activeBrowsers.size,
-		browsers: Array.from(activeBrowsers.entries()).map(([id, instance]) => ({
+		activeBrowsers: browserPool.size,
+		busyBrowsers: instances.filter(([, instance]) => instance.busy).length,
+		idleBrowsers: instances.filter(([, instance]) => !instance.busy).length,
+		launchingBrowsers,
+		waiting: poolWaiters.length,
+		maxBrowsers: MAX_CONCURRENT_BROWSERS,
+		browsers: instances.map(([id, instance]) => ({
 			id,
 			uptime: Date.now() - instance.startTime,
+			renderCount: instance.renderCount,
+			busy: instance.busy,
 		})),
 	};
 }
@@ -376,7 +565,7 @@ export function getBrowserStatus() {
 export async function getPuppeteerMetrics() {
 	const metrics = {
 		initialized: isInitialized,
-		activeBrowsers: activeBrowsers.size,
+		activeBrowsers: browserPool.size,
 		totalPages: 0,
 		browserMemoryUsage: 0,
 		browserPerformance: [] as any[],
@@ -389,7 +578,7 @@ export async function getPuppeteerMetrics() {
 	};
 
 	// Get detailed metrics for each browser
-	for (const [browserId, browserInstance] of activeBrowsers.entries()) {
+	for (const [browserId, browserInstance] of browserPool.entries()) {
 		try {
 			const { browser, page, startTime } = browserInstance;
 			const uptime = Date.now() - startTime;
@@ -418,6 +607,8 @@ export async function getPuppeteerMetrics() {
 				id: browserId,
 				uptime,
 				pageCount: pages.length,
+				renderCount: browserInstance.renderCount,
+				busy: browserInstance.busy,
 				performance: performanceMetrics,
 			});
 
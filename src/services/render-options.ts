@@ -0,0 +1,161 @@
+import crypto from 'crypto';
+import { toSharpQuality } from './image-encoder.js';
+import { normalizeImageFormat, normalizeVideoFormat } from '../shared/formats.js';
+import { normalizeBlockFilter } from '../shared/block-filter.js';
+import { DEFAULT_SHEET_VIEWS } from '../shared/contact-sheet.js';
+import { ImageFormat, RenderOptions, VideoRenderOptions } from '../shared/types.js';
+
+export type RenderType = 'image' | 'video';
+
+// Same limit the frontend shrinks gif/apng output to when none is given
+const DEFAULT_MAX_FILE_SIZE = 10 * 1024 * 1024;
+
+// Options each render type actually reads; anything else can't change the output
+const IMAGE_FIELDS = new Set([
+  'width', 'height', 'format', 'quality', 'isometric', 'background', 'framing', 'rotation',
+  'camera', 'diff', 'highlights', 'layers', 'grid', 'clip', 'filter', 'sheet',
+]);
+const VIDEO_FIELDS = new Set([
+  'width', 'height', 'format', 'duration', 'frameRate', 'maxFileSize', 'isometric', 'background',
+  'framing', 'cameraPath', 'rotation', 'camera', 'cameraKeyframes', 'animation', 'layersPerSecond',
+  'holdSeconds',
+]);
+
+function pick<T extends object>(options: T, fields: Set<string>): T {
+  return Object.fromEntries(Object.entries(options).filter(([key]) => fields.has(key))) as T;
+}
+
+// Whole turns make no difference, and no rotation is the same as 0
+function normalizeRotation(rotation: number | undefined): number | undefined {
+  if (rotation === undefined || !Number.isFinite(rotation)) return undefined;
+  const degrees = ((rotation % 360) + 360) % 360;
+  return degrees === 0 ? undefined : degrees;
+}
+
+function canonicalImageOptions(options: RenderOptions): RenderOptions {
+  const format = normalizeImageFormat(options.format) || options.format;
+  const canonical: RenderOptions = {
+    ...pick(options, IMAGE_FIELDS),
+    width: Math.round(options.width || 1920),
+    height: Math.round(options.height || 1080),
+    format,
+    // PNG ignores quality; the others encode at their default when none is given
+    quality: format && format !== 'image/png'
+      ? toSharpQuality(format as ImageFormat, options.quality) / 100
+      : undefined,
+    isometric: !!options.isometric,
+    background: options.background?.trim().toLowerCase(),
+    framing: options.framing || 'medium',
+    rotation: normalizeRotation(options.rotation),
+    filter: normalizeBlockFilter(options.filter),
+  };
+
+  if (options.layers) {
+    canonical.layers = { from: options.layers.from, to: options.layers.to ?? options.layers.from };
+    canonical.grid = options.grid !== false;
+  } else {
+    delete canonical.grid;
+  }
+
+  if (options.clip) {
+    canonical.clip = {
+      ...options.clip,
+      axis: options.clip.normal ? undefined : options.clip.axis || 'x',
+      position: options.clip.position ?? 0,
+      keep: options.clip.keep || 'negative',
+      capColor: options.clip.capColor?.trim().toLowerCase(),
+    };
+  }
+
+  if (options.diff) {
+    canonical.diff = { against: options.diff.against, align: options.diff.align || 'origin' };
+  }
+
+  if (options.sheet) {
+    const views = options.sheet.views?.length ? options.sheet.views : DEFAULT_SHEET_VIEWS;
+    canonical.sheet = {
+      views,
+      columns: options.sheet.columns ?? Math.ceil(Math.sqrt(views.length)),
+      labels: options.sheet.labels !== false,
+    };
+  }
+
+  return canonical;
+}
+
+function canonicalVideoOptions(options: VideoRenderOptions): VideoRenderOptions {
+  const format = normalizeVideoFormat(options.format) || options.format;
+  const canonical: VideoRenderOptions = {
+    ...pick(options, VIDEO_FIELDS),
+    width: Math.round(options.width || 1920),
+    height: Math.round(options.height || 1080),
+    format,
+    duration: options.duration || 6,
+    frameRate: options.frameRate || 30,
+    // Keyframes take over from the camera path
+    cameraPath: options.cameraKeyframes?.length ? undefined : options.cameraPath || 'circular',
+    isometric: !!options.isometric,
+    background: options.background?.trim().toLowerCase(),
+    framing: options.framing || 'medium',
+    rotation: normalizeRotation(options.rotation),
+    // Only gif and apng are shrunk to fit
+    maxFileSize: format === 'image/gif' || format === 'image/apng'
+      ? options.maxFileSize ?? DEFAULT_MAX_FILE_SIZE
+      : undefined,
+  };
+
+  if (options.animation) {
+    canonical.holdSeconds = options.holdSeconds ?? 0;
+  } else {
+    delete canonical.layersPerSecond;
+    delete canonical.holdSeconds;
+  }
+
+  return canonical;
+}
+
+// Numbers rounded, object keys sorted and empty values dropped, all the way down
+function tidy(value: unknown): unknown {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? Math.round(value * 1000) / 1000 : null;
+  }
+  if (Array.isArray(value)) return value.map(tidy);
+  if (value && typeof value === 'object') {
+    const result: Record<string, unknown> = {};
+    for (const key of Object.keys(value).sort()) {
+      const entry = (value as Record<string, unknown>)[key];
+      if (entry !== undefined && entry !== null) result[key] = tidy(entry);
+    }
+    return result;
+  }
+  return value;
+}
+
+/**
+ * Canonical form of render options: defaults filled in, fields the render type
+ * doesn't read dropped, numbers rounded and keys sorted. Options that render the
+ * same output canonicalize to the same object.
+ */
+export function canonicalizeRenderOptions(
+  type: RenderType,
+  options: RenderOptions | VideoRenderOptions
+): RenderOptions | VideoRenderOptions {
+  const canonical = type === 'image'
+    ? canonicalImageOptions(options as RenderOptions)
+    : canonicalVideoOptions(options as VideoRenderOptions);
+  return tidy(canonical) as RenderOptions | VideoRenderOptions;
+}
+
+/**
+ * Stable hash of a render's canonical options, stored in `renders.options_hash`
+ * as the render cache key
+ */
+export function hashRenderOptions(type: RenderType, options: RenderOptions | VideoRenderOptions): string {
+  const canonical = canonicalizeRenderOptions(type, options);
+  return crypto.createHash('sha256').update(`${type}:${JSON.stringify(canonical)}`).digest('hex');
+}
+
+export default {
+  canonicalizeRenderOptions,
+  hashRenderOptions,
+};
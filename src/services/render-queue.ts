@@ -0,0 +1,404 @@
+import { statements } from './database.js';
+import { logger } from '../shared/logger.js';
+import { RenderVariant } from '../shared/types.js';
+
+export type RenderPriority = 'interactive' | 'api' | 'batch';
+
+// Lower value is served first: interactive Discord > API > batch
+const PRIORITY_VALUES: Record<RenderPriority, number> = {
+  interactive: 0,
+  api: 1,
+  batch: 2,
+};
+
+// Jobs running at once (each one holds a page from the browser pool)
+const MAX_CONCURRENT_JOBS = parseInt(process.env.MAX_CONCURRENT_RENDERS || '3');
+
+// Finished jobs are kept this long for inspection
+const FINISHED_JOB_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface QueuedJob {
+  id: string;
+  render_id: string;
+  type: 'image' | 'video';
+  priority: number;
+  status: 'queued' | 'running' | 'completed' | 'error';
+  file_hash: string;
+  original_filename: string | null;
+  options_json: string;
+  variants_json: string | null;
+  source: string | null;
+  user_id: string | null;
+  channel_id: string | null;
+  message_id: string | null;
+  enqueued_at: number;
+  started_at: number | null;
+  finished_at: number | null;
+  error_message: string | null;
+}
+
+export interface EnqueueJobParams {
+  renderId: string;
+  type: 'image' | 'video';
+  priority: RenderPriority;
+  fileHash: string;
+  originalFilename?: string;
+  options: any;
+  variants?: RenderVariant[];  // rendered from one load of `options`, instead of `options` alone
+  source?: string;
+  userId?: string;
+  channelId?: string;
+  messageId?: string;
+}
+
+export type JobStage =
+  | 'queued'
+  | 'browser_ready'
+  | 'schematic_loaded'
+  | 'capturing'
+  | 'encoding'
+  | 'completed'
+  | 'error';
+
+export interface JobEvent {
+  jobId: string;
+  stage: JobStage;
+  timestamp: number;
+  position?: number | null;
+  renderId?: string;
+  error?: string;
+}
+
+export type JobEventListener = (event: JobEvent) => void;
+
+/**
+ * Runs a job. `schematicData` is null for jobs restored after a restart,
+ * in which case the executor loads the schematic from storage by hash.
+ */
+export type JobExecutor = (job: QueuedJob, schematicData: Buffer | null) => Promise<{ renderId: string }>;
+
+// Jobs enqueued by this process that still have a caller awaiting them
+const liveJobs = new Map<string, {
+  schematicData: Buffer;
+  resolve: (result: any) => void;
+  reject: (error: any) => void;
+}>();
+
+// jobId -> userId of jobs currently running
+const runningJobs = new Map<string, string>();
+
+// userId -> last time one of their jobs was dispatched (round-robin between users)
+const lastDispatchByUser = new Map<string, number>();
+
+// Progress subscribers and the latest event of each unfinished job
+const jobListeners = new Map<string, Set<JobEventListener>>();
+const lastJobEvents = new Map<string, JobEvent>();
+
+let executor: JobExecutor | null = null;
+let queueStarted = false;
+
+/**
+ * Register the function that performs queued renders
+ */
+export function registerJobExecutor(fn: JobExecutor): void {
+  executor = fn;
+}
+
+/**
+ * Add a render job to the persistent queue and wait for its result
+ */
+export function enqueueRenderJob<T extends { renderId: string }>(
+  params: EnqueueJobParams,
+  schematicData: Buffer
+): { jobId: string; result: Promise<T> } {
+  const jobId = createQueueJob(params);
+
+  const result = new Promise<T>((resolve, reject) => {
+    liveJobs.set(jobId, { schematicData, resolve, reject });
+  });
+
+  const position = getQueuePosition(jobId);
+  logger.info(`[${jobId}] Queued ${params.type} render (${params.priority}, user: ${params.userId || 'anonymous'}, ${position} ahead)`);
+  reportJobStage(jobId, 'queued', { position });
+
+  pumpQueue();
+
+  return { jobId, result };
+}
+
+/**
+ * Record a job that was answered from the render cache without queueing
+ */
+export function recordCachedJob(params: EnqueueJobParams): string {
+  const jobId = createQueueJob(params);
+  const now = Date.now();
+
+  statements.updateQueueJobRunning.run(now, jobId);
+  statements.updateQueueJobComplete.run(now, params.renderId, jobId);
+
+  return jobId;
+}
+
+/**
+ * Move a queued job up to `priority` if that is more urgent than its own, e.g. when an
+ * interactive request joins a batch job. Returns whether the job moved.
+ */
+export function raiseJobPriority(jobId: string, priority: RenderPriority): boolean {
+  const value = PRIORITY_VALUES[priority];
+  const result = statements.raiseQueueJobPriority.run(value, jobId, value) as any;
+  if (!result?.changes) return false;
+
+  const position = getQueuePosition(jobId);
+  logger.info(`[${jobId}] Raised to ${priority} priority (${position} ahead)`);
+  reportJobStage(jobId, 'queued', { position });
+  return true;
+}
+
+function createQueueJob(params: EnqueueJobParams): string {
+  const jobId = `job-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+  statements.insertQueueJob.run(
+    jobId,
+    params.renderId,
+    params.type,
+    PRIORITY_VALUES[params.priority],
+    params.fileHash,
+    params.originalFilename || null,
+    JSON.stringify(params.options),
+    params.variants ? JSON.stringify(params.variants) : null,
+    params.source || null,
+    params.userId || null,
+    params.channelId || null,
+    params.messageId || null,
+    Date.now()
+  );
+
+  return jobId;
+}
+
+/**
+ * Start as many queued jobs as there are free slots
+ */
+function pumpQueue(): void {
+  // Jobs wait until the service (and browser pool) is up
+  if (!queueStarted) return;
+
+  if (!executor) {
+    logger.warn('Render queue has no executor registered yet');
+    return;
+  }
+
+  while (runningJobs.size < MAX_CONCURRENT_JOBS) {
+    const job = pickNextJob();
+    if (!job) return;
+    startJob(job);
+  }
+}
+
+/**
+ * Pick the next job: most urgent priority first, then the user who has the
+ * fewest running jobs and was served least recently, then FIFO.
+ */
+function pickNextJob(): QueuedJob | null {
+  const candidates = statements.getNextQueuedJobs.all() as QueuedJob[];
+  if (candidates.length === 0) return null;
+
+  const runningByUser = new Map<string, number>();
+  for (const userId of runningJobs.values()) {
+    runningByUser.set(userId, (runningByUser.get(userId) || 0) + 1);
+  }
+
+  let best: QueuedJob | null = null;
+  const seenUsers = new Set<string>();
+
+  // Candidates are FIFO-ordered, so the first job seen per user is that user's oldest
+  for (const job of candidates) {
+    const userId = job.user_id || 'anonymous';
+    if (seenUsers.has(userId)) continue;
+    seenUsers.add(userId);
+
+    if (!best) {
+      best = job;
+      continue;
+    }
+
+    const bestUser = best.user_id || 'anonymous';
+    const running = runningByUser.get(userId) || 0;
+    const bestRunning = runningByUser.get(bestUser) || 0;
+    if (running !== bestRunning) {
+      if (running < bestRunning) best = job;
+      continue;
+    }
+
+    const lastDispatch = lastDispatchByUser.get(userId) || 0;
+    const bestLastDispatch = lastDispatchByUser.get(bestUser) || 0;
+    if (lastDispatch < bestLastDispatch) best = job;
+  }
+
+  return best;
+}
+
+function startJob(job: QueuedJob): void {
+  const userId = job.user_id || 'anonymous';
+  const now = Date.now();
+
+  statements.updateQueueJobRunning.run(now, job.id);
+  runningJobs.set(job.id, userId);
+  lastDispatchByUser.set(userId, now);
+
+  const live = liveJobs.get(job.id);
+  logger.info(`[${job.id}] Starting ${job.type} render after ${now - job.enqueued_at}ms in queue${live ? '' : ' (restored)'}`);
+
+  executor!(job, live?.schematicData ?? null)
+    .then((result) => {
+      statements.updateQueueJobComplete.run(Date.now(), result.renderId, job.id);
+      reportJobStage(job.id, 'completed', { renderId: result.renderId });
+      live?.resolve(result);
+    })
+    .catch((error: any) => {
+      statements.updateQueueJobError.run(Date.now(), error?.message || String(error), job.id);
+      reportJobStage(job.id, 'error', { error: error?.message || String(error) });
+      if (live) {
+        live.reject(error);
+      } else {
+        logger.error(`[${job.id}] Restored job failed:`, error);
+      }
+    })
+    .finally(() => {
+      runningJobs.delete(job.id);
+      liveJobs.delete(job.id);
+      pumpQueue();
+    });
+}
+
+/**
+ * Publish a progress stage for a job to its subscribers
+ */
+export function reportJobStage(
+  jobId: string,
+  stage: JobStage,
+  extra: Pick<JobEvent, 'position' | 'renderId' | 'error'> = {}
+): void {
+  const event: JobEvent = { jobId, stage, timestamp: Date.now(), ...extra };
+
+  for (const listener of jobListeners.get(jobId) || []) {
+    try {
+      listener(event);
+    } catch (error) {
+      logger.warn(`[${jobId}] Job event listener failed:`, error);
+    }
+  }
+
+  if (stage === 'completed' || stage === 'error') {
+    // Finished jobs are answered from the database from now on
+    jobListeners.delete(jobId);
+    lastJobEvents.delete(jobId);
+  } else {
+    lastJobEvents.set(jobId, event);
+  }
+}
+
+/**
+ * Listen for progress events of a job. Returns an unsubscribe function.
+ */
+export function subscribeToJob(jobId: string, listener: JobEventListener): () => void {
+  let listeners = jobListeners.get(jobId);
+  if (!listeners) {
+    listeners = new Set();
+    jobListeners.set(jobId, listeners);
+  }
+  listeners.add(listener);
+
+  return () => {
+    const current = jobListeners.get(jobId);
+    if (!current) return;
+    current.delete(listener);
+    if (current.size === 0) jobListeners.delete(jobId);
+  };
+}
+
+/**
+ * Latest progress event of a queued or running job
+ */
+export function getLastJobEvent(jobId: string): JobEvent | null {
+  return lastJobEvents.get(jobId) || null;
+}
+
+/**
+ * Number of queued jobs that will be served before this one
+ */
+export function getQueuePosition(jobId: string): number | null {
+  const job = statements.getQueueJobById.get(jobId) as QueuedJob | undefined;
+  if (!job || job.status !== 'queued') return null;
+
+  const row = statements.getQueuePosition.get(job.priority, job.priority, job.enqueued_at) as any;
+  return row?.ahead || 0;
+}
+
+/**
+ * Get a queue job by id
+ */
+export function getQueueJob(jobId: string): QueuedJob | null {
+  return (statements.getQueueJobById.get(jobId) as QueuedJob | undefined) || null;
+}
+
+/**
+ * Name of a stored priority value
+ */
+export function getPriorityName(priority: number): string {
+  const entry = Object.entries(PRIORITY_VALUES).find(([, value]) => value === priority);
+  return entry ? entry[0] : String(priority);
+}
+
+/**
+ * Get queue statistics (for monitoring)
+ */
+export function getQueueStats() {
+  const rows = statements.getQueueCounts.all() as Array<{ status: string; priority: number; count: number }>;
+
+  const queued: Record<string, number> = { interactive: 0, api: 0, batch: 0 };
+  let running = 0;
+  for (const row of rows) {
+    if (row.status === 'queued') {
+      queued[getPriorityName(row.priority)] = row.count;
+    } else {
+      running += row.count;
+    }
+  }
+
+  return {
+    maxConcurrent: MAX_CONCURRENT_JOBS,
+    running,
+    queued,
+    totalQueued: Object.values(queued).reduce((sum, count) => sum + count, 0),
+  };
+}
+
+/**
+ * Restore jobs interrupted by a restart and start processing the queue
+ */
+export function initRenderQueue(): void {
+  const requeued = statements.requeueInterruptedJobs.run() as any;
+  const pruned = statements.deleteFinishedQueueJobs.run(Date.now() - FINISHED_JOB_RETENTION_MS) as any;
+
+  const stats = getQueueStats();
+  logger.info(`✅ Render queue initialized: ${stats.totalQueued} queued (${requeued?.changes || 0} interrupted), ${pruned?.changes || 0} old jobs pruned`);
+
+  queueStarted = true;
+  pumpQueue();
+}
+
+export default {
+  registerJobExecutor,
+  enqueueRenderJob,
+  recordCachedJob,
+  raiseJobPriority,
+  reportJobStage,
+  subscribeToJob,
+  getLastJobEvent,
+  getQueuePosition,
+  getQueueJob,
+  getPriorityName,
+  getQueueStats,
+  initRenderQueue,
+};
@@ -1,9 +1,18 @@
-import { renderSchematic, renderSchematicVideo } from './renderer.js';
-import { storeFile, storeArtifact, calculateHash } from './storage.js';
+import { renderSchematic, renderSchematicSheet, renderSchematicVariants, renderSchematicVideo, RenderStageCallback } from './renderer.js';
+import { storeFile, storeArtifact, calculateHash, getFile, readArtifact } from './storage.js';
 import { statements } from './database.js';
+import { enqueueRenderJob, raiseJobPriority, recordCachedJob, registerJobExecutor, reportJobStage, EnqueueJobParams, QueuedJob, RenderPriority } from './render-queue.js';
 import { logger } from '../shared/logger.js';
-import { RenderOptions, VideoRenderOptions } from '../shared/types.js';
-import sharp from 'sharp';
+import { DiffSpec, ImageFormat, RenderOptions, RenderVariant, SchematicDiffStats, SchematicMetadata, VideoRenderOptions } from '../shared/types.js';
+import { encodeThumbnail } from './image-encoder.js';
+import { trackCoalescedRender } from './metrics.js';
+import { normalizeImageFormat, normalizeVideoFormat } from '../shared/formats.js';
+import { ensureSchematicMetadata, getSchematicMetadata } from './schematic-metadata.js';
+import { getRenderableSchematic } from './schematic-converter.js';
+import { diffSchematics } from './schematic-diff.js';
+import { applyBlockFilter } from './block-filter.js';
+import { normalizeBlockFilter } from '../shared/block-filter.js';
+import { hashRenderOptions, RenderType } from './render-options.js';
 
 export interface RenderRequest {
   schematicData: Buffer;
@@ -14,12 +23,14 @@ export interface RenderRequest {
   channelId?: string;
   messageId?: string;
   originalFilename?: string;
+  priority?: RenderPriority;
 }
 
 export interface RenderResult {
   renderId: string;
   fileHash: string;
   outputBuffer: Buffer;
+  mimeType: string;
   artifacts: {
     image?: string;
     video?: string;
@@ -30,69 +41,423 @@ export interface RenderResult {
     meshCount?: number;
     size: number;
   };
+  schematic: SchematicMetadata | null;
 }
 
+// Submissions still rendering, by getRenderKey, so identical concurrent requests share one render
+const inFlightRenders = new Map<string, Promise<{ jobId: string; result: Promise<RenderResult> }>>();
+
+// A queued variant job resolves with one result per variant it rendered
+interface VariantRenderResult {
+  renderId: string;
+  results: RenderResult[];
+}
+
+// Variant jobs still rendering, by the render keys of the variants they render
+const inFlightVariantRenders = new Map<string, Promise<{ jobId: string; result: Promise<VariantRenderResult> }>>();
+
 /**
  * Main render service with caching and database integration
  */
 export async function processRender(request: RenderRequest, skipCache: boolean = false): Promise<RenderResult> {
-  const startTime = Date.now();
+  const { result } = await submitRenderJob(request, skipCache);
+  return result;
+}
+
+/**
+ * Render a schematic with the blocks added, removed and changed since an earlier
+ * version tinted. The earlier version is stored so queued jobs can reload it.
+ */
+export async function processDiffRender(
+  request: RenderRequest,
+  previous: { data: Buffer; filename?: string },
+  align: DiffSpec['align'] = 'origin'
+): Promise<{ result: RenderResult; stats: SchematicDiffStats }> {
+  const stored = await storeFile(previous.data, {
+    originalFilename: previous.filename,
+    mimeType: 'application/octet-stream',
+  });
+  const { stats } = await diffSchematics(previous.data, request.schematicData, align);
+
+  const result = await processRender({
+    ...request,
+    type: 'image',
+    options: { ...request.options, diff: { against: stored.hash, align } },
+  });
+  return { result, stats };
+}
+
+/**
+ * Render several variants of one schematic (background, camera preset, rotation,
+ * framing, size, layer) from a single load. Each variant is cached as its own render;
+ * only the ones missing from the cache are rendered, together in one queued job, which
+ * an identical request still rendering shares. Results come back in the order of `variants`.
+ */
+export async function processRenderVariants(
+  request: Omit<RenderRequest, 'type'>,
+  variants: RenderVariant[],
+  skipCache: boolean = false
+): Promise<RenderResult[]> {
+  const renderId = `render-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  const base = normalizeRequest({ ...request, type: 'image' });
+  const requests = variants.map(variant => ({ ...base, options: { ...base.options, ...variant } }));
+
+  const fileHash = calculateHash(request.schematicData);
+  logger.info(`[${renderId}] Processing ${variants.length} render variants for file: ${fileHash}`);
+
+  const jobParams: EnqueueJobParams = {
+    renderId,
+    type: 'image',
+    priority: request.priority || getDefaultPriority(request.source),
+    fileHash,
+    originalFilename: request.originalFilename,
+    options: base.options,
+    source: request.source,
+    userId: request.userId,
+    channelId: request.channelId,
+    messageId: request.messageId,
+  };
+
+  const results: (RenderResult | null)[] = [];
+  for (const variantRequest of requests) {
+    const cached = skipCache ? null : await readCachedResult(renderId, fileHash, variantRequest);
+    if (cached) {
+      cached.schematic ??= await extractMetadata(renderId, fileHash, request.schematicData);
+      recordCachedJob({ ...jobParams, renderId: cached.renderId, options: variantRequest.options });
+    }
+    results.push(cached);
+  }
+
+  const missing = results.flatMap((result, index) => result ? [] : [index]);
+  if (missing.length === 0) return results as RenderResult[];
+
+  // The same variants of the same file already underway are joined rather than queued again
+  const renderKey = missing.map(index => getRenderKey(fileHash, requests[index])).join('|');
+  let submission = inFlightVariantRenders.get(renderKey);
+  if (submission) {
+    const joined = await submission;
+    logger.info(`[${renderId}] Joining in-flight variant render (job ${joined.jobId})`);
+    trackCoalescedRender(renderId, joined.jobId);
+    raiseJobPriority(joined.jobId, jobParams.priority);
+  } else {
+    // The job carries the shared options plus the variants it still has to render
+    const pending = storeAndEnqueueVariants(
+      renderId,
+      fileHash,
+      { ...jobParams, variants: missing.map(index => variants[index]) },
+      request
+    );
+    submission = pending;
+    inFlightVariantRenders.set(renderKey, pending);
+    const settle = () => {
+      if (inFlightVariantRenders.get(renderKey) === pending) inFlightVariantRenders.delete(renderKey);
+    };
+    pending.then(({ result }) => result).then(settle, settle);
+  }
+
+  const rendered = (await (await submission).result).results;
+  missing.forEach((index, position) => {
+    results[index] = rendered[position];
+  });
+
+  return results as RenderResult[];
+}
+
+/**
+ * Resolve the output format and tidy the options that are stored and rendered
+ * (cache lookups go through hashRenderOptions, which canonicalizes further)
+ */
+function normalizeRequest(request: RenderRequest): RenderRequest {
+  // Store the canonical MIME type rather than the `webp` shorthand
+  const requestedFormat = request.options.format;
+  const format = request.type === 'image'
+    ? normalizeImageFormat(requestedFormat)
+    : normalizeVideoFormat(requestedFormat);
+  if (!format) {
+    throw new Error(`Unsupported ${request.type} format: ${requestedFormat}`);
+  }
+  request = { ...request, options: { ...request.options, format } as RenderRequest['options'] };
+
+  // Filters are matched lowercase and without the `minecraft:` prefix
+  if (request.type === 'image') {
+    const options = request.options as RenderOptions;
+    const filter = normalizeBlockFilter(options.filter);
+    if (filter) options.filter = filter;
+    else delete options.filter;
+  }
+
+  return request;
+}
+
+/**
+ * Queue a render and return its job id straight away, along with a promise
+ * for the result. Cache hits are recorded as already-completed jobs, and a request
+ * identical to one still rendering gets that render's job and result. `skipCache`
+ * only bypasses stored renders: joining an in-flight one still yields a fresh render.
+ */
+export async function submitRenderJob(
+  request: RenderRequest,
+  skipCache: boolean = false
+): Promise<{ jobId: string; result: Promise<RenderResult> }> {
   const renderId = `render-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 
+  request = normalizeRequest(request);
+
   // Calculate file hash
   const fileHash = calculateHash(request.schematicData);
   logger.info(`[${renderId}] Processing render for file: ${fileHash}`);
 
+  const jobParams: EnqueueJobParams = {
+    renderId,
+    type: request.type,
+    priority: request.priority || getDefaultPriority(request.source),
+    fileHash,
+    originalFilename: request.originalFilename,
+    options: request.options,
+    source: request.source,
+    userId: request.userId,
+    channelId: request.channelId,
+    messageId: request.messageId,
+  };
+
   // Check cache first (unless explicitly skipped)
   if (!skipCache) {
-    const cached = getCachedRender(fileHash, request.options);
-    if (cached) {
-      logger.info(`[${renderId}] Using cached render: ${cached.id}`);
-
-      // Get the cached artifact
-      const artifacts = statements.getArtifactsByRender.all(cached.id) as any[];
-      const imageArtifact = artifacts.find(a => a.type === request.type);
-
-      if (imageArtifact) {
-        // Read the artifact file directly
-        const fs = await import('fs/promises');
-        try {
-          const cachedBuffer = await fs.readFile(imageArtifact.file_path);
-
-          // Update access count
-          statements.updateFileAccess.run(fileHash);
-
-          logger.info(`[${renderId}] ✅ Cache hit! Serving cached render (${(cachedBuffer.length / 1024).toFixed(1)}KB)`);
-
-          return {
-            renderId: cached.id,
-            fileHash,
-            outputBuffer: cachedBuffer,
-            artifacts: {
-              [request.type]: imageArtifact.id,
-            },
-            metadata: {
-              duration: cached.duration || 0,
-              meshCount: cached.mesh_count,
-              size: cachedBuffer.length,
-            },
-          };
-        } catch (readErr) {
-          logger.warn(`[${renderId}] Failed to read cached artifact, falling back to render:`, readErr);
-          // Fall through to render
-        }
-      }
+    const cachedResult = await readCachedResult(renderId, fileHash, request);
+    if (cachedResult) {
+      // Files cached before metadata extraction existed get backfilled here
+      cachedResult.schematic ??= await extractMetadata(renderId, fileHash, request.schematicData);
+      const jobId = recordCachedJob({ ...jobParams, renderId: cachedResult.renderId });
+      return { jobId, result: Promise.resolve(cachedResult) };
     }
   }
 
-  // Store original schematic file
+  // An identical render already underway is joined rather than started again
+  const renderKey = getRenderKey(fileHash, request);
+  const inFlight = inFlightRenders.get(renderKey);
+  if (inFlight) {
+    const joined = await inFlight;
+    logger.info(`[${renderId}] Joining in-flight render (job ${joined.jobId})`);
+    trackCoalescedRender(renderId, joined.jobId);
+    // An interactive caller shouldn't wait behind the batch that queued this render
+    raiseJobPriority(joined.jobId, jobParams.priority);
+    return joined;
+  }
+
+  // Registered before anything is awaited, so concurrent callers see it straight away
+  const submission = storeAndEnqueue(renderId, fileHash, jobParams, request);
+  inFlightRenders.set(renderKey, submission);
+  const settle = () => {
+    if (inFlightRenders.get(renderKey) === submission) inFlightRenders.delete(renderKey);
+  };
+  submission.then(({ result }) => result).then(settle, settle);
+
+  return submission;
+}
+
+/**
+ * Key identifying renders that produce the same output
+ */
+function getRenderKey(fileHash: string, request: RenderRequest): string {
+  return `${fileHash}:${hashRenderOptions(request.type, request.options)}`;
+}
+
+async function storeAndEnqueue(
+  renderId: string,
+  fileHash: string,
+  jobParams: EnqueueJobParams,
+  request: RenderRequest
+): Promise<{ jobId: string; result: Promise<RenderResult> }> {
+  // Store original schematic file (queued jobs are restored from storage after a restart)
   await storeFile(request.schematicData, {
     originalFilename: request.originalFilename,
     mimeType: 'application/octet-stream',
   });
+  await extractMetadata(renderId, fileHash, request.schematicData);
+  await prepareForRender(renderId, fileHash, request.schematicData);
+
+  // Wait for our turn in the render queue
+  return enqueueRenderJob<RenderResult>(jobParams, request.schematicData);
+}
+
+async function storeAndEnqueueVariants(
+  renderId: string,
+  fileHash: string,
+  jobParams: EnqueueJobParams,
+  request: Omit<RenderRequest, 'type'>
+): Promise<{ jobId: string; result: Promise<VariantRenderResult> }> {
+  await storeFile(request.schematicData, {
+    originalFilename: request.originalFilename,
+    mimeType: 'application/octet-stream',
+  });
+  await extractMetadata(renderId, fileHash, request.schematicData);
+  await prepareForRender(renderId, fileHash, request.schematicData);
+
+  return enqueueRenderJob<VariantRenderResult>(jobParams, request.schematicData);
+}
+
+/**
+ * Serve a previous render with the same file and options, if its artifact is still readable
+ */
+async function readCachedResult(renderId: string, fileHash: string, request: RenderRequest): Promise<RenderResult | null> {
+  const cached = getCachedRender(fileHash, request.options, request.type);
+  if (!cached) return null;
+
+  logger.info(`[${renderId}] Using cached render: ${cached.id}`);
+
+  // Get the cached artifact
+  const artifacts = statements.getArtifactsByRender.all(cached.id) as any[];
+  const imageArtifact = artifacts.find(a => a.type === request.type);
+  if (!imageArtifact) return null;
+
+  // Read the artifact from storage
+  try {
+    const cachedBuffer = await readArtifact(imageArtifact);
+    if (!cachedBuffer) return null;
+
+    // Update access count
+    statements.updateFileAccess.run(fileHash);
+
+    logger.info(`[${renderId}] ✅ Cache hit! Serving cached render (${(cachedBuffer.length / 1024).toFixed(1)}KB)`);
+
+    return {
+      renderId: cached.id,
+      fileHash,
+      outputBuffer: cachedBuffer,
+      mimeType: imageArtifact.mime_type || 'image/png',
+      artifacts: {
+        [request.type]: imageArtifact.id,
+      },
+      metadata: {
+        duration: cached.duration || 0,
+        meshCount: cached.mesh_count,
+        size: cachedBuffer.length,
+      },
+      schematic: getSchematicMetadata(fileHash),
+    };
+  } catch (readErr) {
+    logger.warn(`[${renderId}] Failed to read cached artifact, falling back to render:`, readErr);
+    return null;
+  }
+}
+
+/**
+ * Parse and store schematic metadata once per file. Failures are logged, never fatal to the render.
+ */
+async function extractMetadata(renderId: string, fileHash: string, data: Buffer): Promise<SchematicMetadata | null> {
+  try {
+    return await ensureSchematicMetadata(fileHash, data);
+  } catch (error) {
+    logger.warn(`[${renderId}] Schematic metadata extraction failed:`, error);
+    return null;
+  }
+}
+
+/**
+ * Upgrade a freshly uploaded schematic for the renderer once, so queued renders load the
+ * stored result. Failures are logged; the render reports them when it runs.
+ */
+async function prepareForRender(renderId: string, fileHash: string, data: Buffer): Promise<void> {
+  try {
+    await getRenderableSchematic(fileHash, data);
+  } catch (error) {
+    logger.warn(`[${renderId}] Could not prepare schematic for rendering:`, error);
+  }
+}
+
+/**
+ * Interactive Discord renders go first, then API calls; internal work goes last
+ */
+function getDefaultPriority(source: RenderRequest['source']): RenderPriority {
+  if (source === 'discord' || source === 'discord_script') return 'interactive';
+  if (source === 'internal') return 'batch';
+  return 'api';
+}
+
+/**
+ * Run a job picked by the render queue
+ */
+async function executeQueuedRender(job: QueuedJob, schematicData: Buffer | null): Promise<RenderResult | VariantRenderResult> {
+  const data = schematicData ?? await getFile(job.file_hash);
+  if (!data) {
+    throw new Error(`Schematic ${job.file_hash} is no longer in storage`);
+  }
+
+  const variants: RenderVariant[] | null = job.variants_json ? JSON.parse(job.variants_json) : null;
+  const request: RenderRequest = {
+    schematicData: data,
+    options: JSON.parse(job.options_json),
+    type: job.type,
+    source: (job.source || undefined) as RenderRequest['source'],
+    userId: job.user_id || undefined,
+    channelId: job.channel_id || undefined,
+    messageId: job.message_id || undefined,
+    originalFilename: job.original_filename || undefined,
+  };
+
+  const onStage: RenderStageCallback = (stage) => reportJobStage(job.id, stage);
+  return variants
+    ? renderVariantsAndStore(job.render_id, job.file_hash, onStage, request, variants)
+    : renderAndStore(job.render_id, job.file_hash, onStage, request);
+}
+
+registerJobExecutor(executeQueuedRender);
+
+/**
+ * Turn a diff spec into the block highlights the renderer draws
+ */
+async function resolveHighlights(options: RenderOptions, schematicData: Buffer): Promise<RenderOptions> {
+  if (!options.diff) return options;
+
+  const stored = await getFile(options.diff.against);
+  if (!stored) {
+    throw new Error(`Schematic ${options.diff.against} is no longer in storage`);
+  }
+  const previous = await getRenderableSchematic(options.diff.against, stored);
+
+  const { highlights } = await diffSchematics(previous, schematicData, options.diff.align);
+  return { ...options, highlights };
+}
+
+/**
+ * Strip the blocks a filter hides from the (prepared) schematic, adding its highlights.
+ * Highlights from earlier steps are moved into the filtered schematic's coordinates.
+ */
+async function resolveFilter(
+  options: RenderOptions,
+  schematicData: Buffer
+): Promise<{ options: RenderOptions; schematicData: Buffer }> {
+  if (!options.filter) return { options, schematicData };
+
+  const filtered = await applyBlockFilter(schematicData, options.filter);
+  const [dx, dy, dz] = filtered.origin;
+  const moved = (options.highlights || []).map(highlight => ({
+    ...highlight,
+    positions: highlight.positions.map((value, index) => value + (index % 3 === 0 ? dx : index % 3 === 1 ? dy : dz)),
+  }));
+
+  return {
+    options: { ...options, highlights: [...moved, ...filtered.highlights] },
+    schematicData: filtered.data,
+  };
+}
+
+/**
+ * Name and dimensions printed under a contact sheet
+ */
+function getSheetCaption(fileHash: string, originalFilename?: string): string {
+  const metadata = getSchematicMetadata(fileHash);
+  const name = metadata?.name || originalFilename?.replace(/\.[^/.]+$/, '') || 'Schematic';
+  if (!metadata?.dimensions) return name;
 
-  // Insert render record
-  const format = (request.options as any).format || 'image/png';
+  const { width, height, length } = metadata.dimensions;
+  return `${name} — ${width} × ${height} × ${length}`;
+}
+
+/**
+ * Insert the `running` render record for a request
+ */
+function insertRenderRecord(renderId: string, fileHash: string, request: RenderRequest, startTime: number): void {
+  const format = request.options.format || (request.type === 'image' ? 'image/png' : 'video/webm');
   statements.insertRender.run(
     renderId,
     fileHash,
@@ -105,46 +470,100 @@ export async function processRender(request: RenderRequest, skipCache: boolean =
     request.options.height || 1080,
     format,
     JSON.stringify(request.options),
+    hashRenderOptions(request.type, request.options),
     request.source || 'api',
     request.userId || null
   );
+}
 
-  try {
-    let outputBuffer: Buffer;
-    let meshCount: number | undefined;
+function markRenderFailed(renderId: string, startTime: number, error: any): void {
+  statements.updateRenderError.run(
+    Date.now(),
+    Date.now() - startTime,
+    error.message || String(error),
+    renderId
+  );
+}
 
-    // Perform the actual rendering
-    if (request.type === 'image') {
-      outputBuffer = await renderSchematic(request.schematicData, request.options as RenderOptions);
-    } else {
-      outputBuffer = await renderSchematicVideo(request.schematicData, request.options as VideoRenderOptions);
+/**
+ * Upgrade the schematic for the renderer and resolve what the scene shows:
+ * diff highlights, then the block filter
+ */
+async function prepareImageRender(
+  fileHash: string,
+  request: RenderRequest
+): Promise<{ options: RenderOptions; schematicData: Buffer }> {
+  // Legacy, structure and Bedrock files are upgraded to .schem for the renderer
+  const schematicData = await getRenderableSchematic(fileHash, request.schematicData);
+
+  const diffOptions = await resolveHighlights(request.options as RenderOptions, schematicData);
+  return resolveFilter(diffOptions, schematicData);
+}
+
+/**
+ * Store a finished render's output plus a thumbnail (of the image, or of a video's
+ * poster frame) and mark it completed
+ */
+async function storeRenderOutput(
+  renderId: string,
+  fileHash: string,
+  request: RenderRequest,
+  outputBuffer: Buffer,
+  startTime: number,
+  meshCount?: number,
+  poster?: Buffer
+): Promise<RenderResult> {
+  const format = request.options.format || (request.type === 'image' ? 'image/png' : 'video/webm');
+  const duration = Date.now() - startTime;
+  const mimeType = format;
+
+  // Store main artifact
+  const mainArtifact = await storeArtifact(
+    renderId,
+    fileHash,
+    request.type,
+    outputBuffer,
+    {
+      mimeType,
+      width: request.options.width,
+      height: request.options.height,
     }
+  );
+
+  const artifacts: RenderResult['artifacts'] = {};
 
-    const duration = Date.now() - startTime;
+  if (request.type === 'image') {
+    artifacts.image = mainArtifact.id;
 
-    // Store main artifact
-    const mainArtifact = await storeArtifact(
+    // Generate thumbnail (same format as the render)
+    const imageOptions = request.options as RenderOptions;
+    const thumbnailBuffer = await encodeThumbnail(outputBuffer, format as ImageFormat, { width: 400, height: 300 }, {
+      quality: imageOptions.quality,
+      background: imageOptions.background,
+    });
+
+    const thumbnailArtifact = await storeArtifact(
       renderId,
       fileHash,
-      request.type,
-      outputBuffer,
+      'thumbnail',
+      thumbnailBuffer,
       {
-        mimeType: request.type === 'image' ? 'image/png' : 'video/webm',
-        width: request.options.width,
-        height: request.options.height,
+        mimeType: format,
+        width: 400,
+        height: 300,
       }
     );
 
-    const artifacts: RenderResult['artifacts'] = {};
-
-    if (request.type === 'image') {
-      artifacts.image = mainArtifact.id;
+    artifacts.thumbnail = thumbnailArtifact.id;
+  } else {
+    artifacts.video = mainArtifact.id;
 
-      // Generate thumbnail
-      const thumbnailBuffer = await sharp(outputBuffer)
-        .resize(400, 300, { fit: 'inside' })
-        .png()
-        .toBuffer();
+    // Video thumbnails are WebP, which keeps transparent backgrounds and stays small
+    if (poster) {
+      const videoOptions = request.options as VideoRenderOptions;
+      const thumbnailBuffer = await encodeThumbnail(poster, 'image/webp', { width: 400, height: 300 }, {
+        background: videoOptions.background,
+      });
 
       const thumbnailArtifact = await storeArtifact(
         renderId,
@@ -152,82 +571,132 @@ export async function processRender(request: RenderRequest, skipCache: boolean =
         'thumbnail',
         thumbnailBuffer,
         {
-          mimeType: 'image/png',
+          mimeType: 'image/webp',
           width: 400,
           height: 300,
         }
       );
 
       artifacts.thumbnail = thumbnailArtifact.id;
-    } else {
-      artifacts.video = mainArtifact.id;
-
-      // For videos, we could extract a frame as thumbnail
-      // For now, skip this and implement later when needed
     }
+  }
 
-    // Update render record with completion
-    statements.updateRenderComplete.run(
-      Date.now(),
-      duration,
-      meshCount || null,
-      renderId
-    );
+  // Update render record with completion
+  statements.updateRenderComplete.run(
+    Date.now(),
+    duration,
+    meshCount || null,
+    renderId
+  );
 
-    logger.info(`[${renderId}] ✅ Render completed in ${duration}ms`);
+  logger.info(`[${renderId}] ✅ Render completed in ${duration}ms`);
 
-    return {
-      renderId,
-      fileHash,
-      outputBuffer,
-      artifacts,
-      metadata: {
-        duration,
-        meshCount,
-        size: outputBuffer.length,
-      },
-    };
+  return {
+    renderId,
+    fileHash,
+    outputBuffer,
+    mimeType,
+    artifacts,
+    metadata: {
+      duration,
+      meshCount,
+      size: outputBuffer.length,
+    },
+    schematic: getSchematicMetadata(fileHash),
+  };
+}
 
-  } catch (error: any) {
-    const duration = Date.now() - startTime;
+/**
+ * Render a schematic and record the render and its artifacts
+ */
+async function renderAndStore(
+  renderId: string,
+  fileHash: string,
+  onStage: RenderStageCallback,
+  request: RenderRequest
+): Promise<RenderResult> {
+  const startTime = Date.now();
+  insertRenderRecord(renderId, fileHash, request, startTime);
 
-    // Update render record with error
-    statements.updateRenderError.run(
-      Date.now(),
-      duration,
-      error.message || String(error),
-      renderId
-    );
+  try {
+    let outputBuffer: Buffer;
+    let poster: Buffer | undefined;
 
+    // Perform the actual rendering
+    if (request.type === 'image') {
+      const scene = await prepareImageRender(fileHash, request);
+      outputBuffer = scene.options.sheet
+        ? await renderSchematicSheet(scene.schematicData, scene.options, getSheetCaption(fileHash, request.originalFilename), onStage)
+        : await renderSchematic(scene.schematicData, scene.options, onStage);
+    } else {
+      const schematicData = await getRenderableSchematic(fileHash, request.schematicData);
+      ({ video: outputBuffer, poster } = await renderSchematicVideo(schematicData, request.options as VideoRenderOptions, onStage));
+    }
+
+    return await storeRenderOutput(renderId, fileHash, request, outputBuffer, startTime, undefined, poster);
+  } catch (error: any) {
+    markRenderFailed(renderId, startTime, error);
     logger.error(`[${renderId}] ❌ Render failed:`, error);
     throw error;
   }
 }
 
 /**
- * Check if we have a cached render for this file
+ * Render variants of one image request from a single load, recording each as its
+ * own render (the first under `renderId`, the rest suffixed `-v1`, `-v2`, ...)
  */
-export function getCachedRender(fileHash: string, options: any) {
-  const renders = statements.getRendersByFileHash.all(fileHash) as any[];
+async function renderVariantsAndStore(
+  renderId: string,
+  fileHash: string,
+  onStage: RenderStageCallback,
+  request: RenderRequest,
+  variants: RenderVariant[]
+): Promise<VariantRenderResult> {
+  const startTime = Date.now();
+  const renders = variants.map((variant, index) => ({
+    renderId: index === 0 ? renderId : `${renderId}-v${index}`,
+    request: { ...request, options: { ...request.options, ...variant } },
+  }));
+  for (const render of renders) {
+    insertRenderRecord(render.renderId, fileHash, render.request, startTime);
+  }
 
-  // Find a matching completed render with same options
-  const cached = renders.find(r => {
-    if (r.status !== 'completed') return false;
+  try {
+    const scene = await prepareImageRender(fileHash, request);
+    const outputs = await renderSchematicVariants(scene.schematicData, scene.options, variants, onStage);
 
-    try {
-      const renderOptions = JSON.parse(r.options_json);
-      // Simple comparison - could be more sophisticated
-      return JSON.stringify(renderOptions) === JSON.stringify(options);
-    } catch {
-      return false;
+    const results: RenderResult[] = [];
+    for (const [index, render] of renders.entries()) {
+      results.push(await storeRenderOutput(render.renderId, fileHash, render.request, outputs[index], startTime));
     }
-  });
+    return { renderId, results };
+  } catch (error: any) {
+    for (const render of renders) {
+      markRenderFailed(render.renderId, startTime, error);
+    }
+    logger.error(`[${renderId}] ❌ Variant render failed:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Check if we have a completed render of this file with equivalent options
+ * (compared by their canonical hash, see render-options.ts)
+ */
+export function getCachedRender(fileHash: string, options: RenderOptions | VideoRenderOptions, type: RenderType = 'image') {
+  const cached = statements.getCompletedRenderByOptionsHash.get(fileHash, hashRenderOptions(type, options)) as any;
+
+  // A cache hit counts as use of the schematic, so cache eviction keeps it
+  if (cached) statements.updateFileAccess.run(fileHash);
 
   return cached;
 }
 
 export default {
   processRender,
+  processDiffRender,
+  processRenderVariants,
+  submitRenderJob,
   getCachedRender,
 };
 
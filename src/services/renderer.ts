@@ -1,12 +1,17 @@
-import { createIsolatedBrowser, closeIsolatedBrowser, waitForPuppeteerReady } from "./puppeteer.js";
-import { RenderOptions, VideoRenderOptions } from "../shared/types.js";
+import type { Page } from "puppeteer";
+import { acquireBrowser, releaseBrowser, waitForPuppeteerReady } from "./puppeteer.js";
+import { BlockHighlight, CameraKeyframe, CameraSpec, ClipPlane, LayerRange, RenderOptions, RenderVariant, SheetView, VideoFormat, VideoRenderOptions } from "../shared/types.js";
 import { logger } from "../shared/logger.js";
 import { trackRenderStart, trackRenderComplete, trackRenderError } from "./metrics.js";
+import { encodeImage } from "./image-encoder.js";
+import { composeContactSheet, getSheetLayout, SheetPanel } from "./contact-sheet.js";
+import { DEFAULT_SHEET_VIEWS } from "../shared/contact-sheet.js";
 
 declare global {
 	interface Window {
 		schematicRendererInitialized: boolean;
 		THREE: any;
+		videoRecordingStage?: "recording" | "encoding";
 		schematicHelpers: {
 			waitForReady: () => Promise<void>;
 			isReady: () => boolean;
@@ -15,235 +20,526 @@ declare global {
 				width: number;
 				height: number;
 				format: "image/png" | "image/jpeg";
+				camera?: CameraSpec;
 			}) => Promise<Blob>;
 			startVideoRecording: (options?: {
 				duration?: number;
 				width?: number;
 				height?: number;
 				frameRate?: number;
+				cameraPath?: "circular" | "orbit" | "static" | "cinematic";
+				camera?: CameraSpec;
+				cameraKeyframes?: CameraKeyframe[];
+				format?: VideoFormat;
+				maxFileSize?: number;
+				animation?: "build";
+				layersPerSecond?: number;
+				holdSeconds?: number;
 			}) => Promise<Blob>;
+			clearScene: () => Promise<void>;
+			setBlockHighlights: (highlights: BlockHighlight[]) => void;
+			setClipping: (range: LayerRange | null) => void;
+			setLayerGrid: (layer: number | null) => void;
+			setCutaway: (clip: ClipPlane | null) => void;
 		};
 	}
 }
 
-export async function renderSchematic(
+/**
+ * Progress stages reported while a render runs
+ */
+export type RenderStage = "browser_ready" | "schematic_loaded" | "capturing" | "encoding";
+export type RenderStageCallback = (stage: RenderStage) => void;
+
+// Time a render may need on top of the pool's stale lease limit: per screenshot after the
+// first, and per second of video (recorded in real time, then transcoded up to four times)
+const EXPECTED_MS_PER_VARIANT = 30_000;
+const EXPECTED_MS_PER_VIDEO_SECOND = 20_000;
+
+// Longest a build timelapse records with layersPerSecond, hold included (see the frontend's layer-view)
+const MAX_BUILD_ANIMATION_SECONDS = 60;
+
+// Layer slices look straight down (just off vertical so "up" in the image stays north)
+const TOP_DOWN_CAMERA: CameraSpec = { yaw: 0, pitch: 89.9 };
+
+// Contact sheet views: elevations and the plan are orthographic, like layer slices
+const SHEET_CAMERAS: Record<SheetView, { label: string; isometric: boolean; camera?: CameraSpec }> = {
+	front: { label: "Front", isometric: true, camera: { yaw: 0, pitch: 0 } },
+	back: { label: "Back", isometric: true, camera: { yaw: 180, pitch: 0 } },
+	left: { label: "Left", isometric: true, camera: { yaw: -90, pitch: 0 } },
+	right: { label: "Right", isometric: true, camera: { yaw: 90, pitch: 0 } },
+	top: { label: "Top", isometric: true, camera: TOP_DOWN_CAMERA },
+	isometric: { label: "Isometric", isometric: true },
+	perspective: { label: "Perspective", isometric: false },
+};
+
+const CLIP_AXES: Record<NonNullable<ClipPlane["axis"]>, [number, number, number]> = {
+	x: [1, 0, 0],
+	y: [0, 1, 0],
+	z: [0, 0, 1],
+};
+
+/**
+ * Camera looking at a cutaway from the side that was removed, turned and raised
+ * a little so the cut reads as 3D rather than a flat elevation
+ */
+function getCutawayCamera(clip: ClipPlane): CameraSpec {
+	const [x, y, z] = clip.normal ?? CLIP_AXES[clip.axis ?? "x"];
+	const length = Math.hypot(x, y, z);
+	const sign = clip.keep === "positive" ? -1 : 1;
+	const [dx, dy, dz] = [(x / length) * sign, (y / length) * sign, (z / length) * sign];
+
+	const elevation = (Math.asin(dy) * 180) / Math.PI;
+	const horizontal = Math.abs(dy) < 0.9;
+	return {
+		yaw: (Math.atan2(dx, dz) * 180) / Math.PI + (horizontal ? 20 : 0),
+		pitch: Math.max(-60, Math.min(60, elevation + (horizontal ? 20 : 0))),
+	};
+}
+
+/**
+ * Load a schematic into a leased page and set up the scene for screenshots:
+ * background, framing, rotation, layer clipping, cutaway and block highlights
+ */
+async function prepareImageScene(
+	page: Page,
+	browserId: string,
 	schematicData: Buffer,
-	options: RenderOptions = {}
-): Promise<Buffer> {
-	// Wait for Puppeteer to be ready
-	await waitForPuppeteerReady();
+	options: RenderOptions,
+	onStage?: RenderStageCallback
+): Promise<any> {
+	// Highlight positions can be large, so they are sent to the page once rather than with every step
+	const { highlights, ...viewOptions } = options;
+
+	logger.info(`[${browserId}] Rendering schematic, size: ${schematicData.length} bytes`);
+
+	// Convert buffer to base64 for easier transmission
+	const base64Data = schematicData.toString("base64");
+
+	// Setup event listener BEFORE loading schematic and wait for completion
+	logger.info(`[${browserId}] Waiting for schematic render to complete...`);
+	const renderData: any = await page.evaluate(async (data) => {
+		// Setup event listener FIRST
+		const renderPromise = new Promise((resolve, reject) => {
+			const timeout = setTimeout(() => {
+				reject(new Error("Schematic render timeout after 120 seconds"));
+			}, 120000);
+
+			window.addEventListener(
+				"schematicRenderComplete",
+				(event: any) => {
+					clearTimeout(timeout);
+					console.log("🎉 Puppeteer caught render complete event:", event.detail);
+					resolve(event.detail);
+				},
+				{ once: true }
+			);
+
+			console.log("✅ Event listener registered for schematicRenderComplete");
+		});
+
+		// THEN load schematic (will trigger the event)
+		try {
+			console.log("🔄 Loading schematic...");
+			await window.schematicHelpers.loadSchematic("api-schematic", data);
+			console.log("✅ Schematic loading initiated");
+		} catch (error: any) {
+			console.error("❌ Failed to load schematic:", error.message || error);
+			throw error;
+		}
 
-	// Create a new isolated browser instance for this render with render options
-	const { browser, page, id: browserId } = await createIsolatedBrowser({
-		isometric: options.isometric,
-		background: options.background,
-	});
-	const startTime = Date.now();
+		// Wait for the render complete event
+		console.log("⏳ Waiting for render complete event...");
+		return renderPromise;
+	}, base64Data);
+
+	logger.info(
+		`[${browserId}] Schematic rendered successfully: ${renderData.meshCount} meshes in ${renderData.buildTimeMs}ms`
+	);
+	onStage?.("schematic_loaded");
+
+	// Add extra delay to ensure canvas is fully updated after render event
+	logger.info(`[${browserId}] Waiting for canvas to stabilize...`);
+	await new Promise(resolve => setTimeout(resolve, 1000));
+
+	// Apply additional render options (background, framing, etc.)
+	// Note: Camera preset is already switched when the page is leased
+	logger.info(`[${browserId}] Applying render options...`);
+	await page.evaluate(async (opts) => {
+		const renderer = (window as any).rendererRef?.current;
+		if (!renderer) {
+			console.warn("Renderer not available");
+			return;
+		}
 
-	trackRenderStart(browserId, 'image', schematicData.length);
+		// Apply background color
+		if (opts.background) {
+			console.log(`🎨 Setting background color to: ${opts.background}`);
+			if (opts.background.toLowerCase() === 'transparent') {
+				// For transparent, we need to set the renderer's clear color alpha to 0
+				const renderManager = renderer.renderManager;
+				if (renderManager?.renderer) {
+					renderManager.renderer.setClearColor(0x000000, 0);
+				}
+			} else {
+				// Set solid background color
+				renderer.sceneManager?.setBackgroundColor(opts.background);
+			}
+		}
 
-	try {
-		logger.info(`[${browserId}] Rendering schematic, size: ${schematicData.length} bytes`);
+		// Apply framing (affects camera distance); none means medium, as after a rotation or variant switch
+		const paddingMap: Record<string, number> = {
+			tight: 0.05,
+			medium: 0.15,
+			wide: 0.3
+		};
+		const framing = opts.framing || "medium";
+		const padding = paddingMap[framing] || 0.15;
+		console.log(`📏 Setting framing to: ${framing} (padding: ${padding})`);
+		try {
+			await renderer.cameraManager?.focusOnSchematics({
+				animationDuration: 0,
+				padding
+			});
+		} catch (err) {
+			console.warn("Could not adjust framing:", err);
+		}
 
-		// Convert buffer to base64 for easier transmission
-		const base64Data = schematicData.toString("base64");
+		// Force a few renders to ensure everything is applied
+		for (let i = 0; i < 3; i++) {
+			renderer.renderManager?.render();
+			await new Promise(resolve => requestAnimationFrame(resolve));
+		}
 
-		// Setup event listener BEFORE loading schematic and wait for completion
-		logger.info(`[${browserId}] Waiting for schematic render to complete...`);
-		const renderData: any = await page.evaluate(async (data) => {
-			// Setup event listener FIRST
-			const renderPromise = new Promise((resolve, reject) => {
-				const timeout = setTimeout(() => {
-					reject(new Error("Schematic render timeout after 120 seconds"));
-				}, 120000);
+		console.log(`✅ All render options applied`);
+	}, viewOptions);
 
-				window.addEventListener(
-					"schematicRenderComplete",
-					(event: any) => {
-						clearTimeout(timeout);
-						console.log("🎉 Puppeteer caught render complete event:", event.detail);
-						resolve(event.detail);
-					},
-					{ once: true }
-				);
+	// Apply rotation if specified
+	if (viewOptions.rotation !== undefined) {
+		logger.info(`[${browserId}] Applying rotation: ${viewOptions.rotation} degrees`);
+		await page.evaluate(async (rotationDeg, opts) => {
+			const renderer = (window as any).rendererRef?.current;
+			if (!renderer) return;
 
-				console.log("✅ Event listener registered for schematicRenderComplete");
-			});
+			const schematicManager = renderer.schematicManager;
+			// Get all schematics and rotate them
+			for (const schematic of schematicManager.schematics.values()) {
+				if (schematic.group) {
+					schematic.group.rotation.y = (rotationDeg * Math.PI) / 180;
+				}
+			}
 
-			// THEN load schematic (will trigger the event)
+			// Re-focus to account for new rotated bounds
+			const paddingMap: Record<string, number> = {
+				tight: 0.05,
+				medium: 0.15,
+				wide: 0.3
+			};
+			const padding = paddingMap[opts.framing || 'medium'] || 0.15;
+			
 			try {
-				console.log("🔄 Loading schematic...");
-				await window.schematicHelpers.loadSchematic("api-schematic", data);
-				console.log("✅ Schematic loading initiated");
-			} catch (error: any) {
-				console.error("❌ Failed to load schematic:", error.message || error);
-				throw error;
+				await renderer.cameraManager?.focusOnSchematics({
+					animationDuration: 0,
+					padding
+				});
+			} catch (err) {
+				console.warn("Could not adjust framing after rotation:", err);
 			}
 
-			// Wait for the render complete event
-			console.log("⏳ Waiting for render complete event...");
-			return renderPromise;
-		}, base64Data);
+			// Re-render to show changes
+			renderer.renderManager?.render();
+		}, viewOptions.rotation, viewOptions);
+	}
 
-		logger.info(
-			`[${browserId}] Schematic rendered successfully: ${renderData.meshCount} meshes in ${renderData.buildTimeMs}ms`
-		);
+	// Cut the schematic down to the requested layers, with a grid over the top one
+	if (viewOptions.layers) {
+		const layers = viewOptions.layers;
+		logger.info(`[${browserId}] Clipping to layers ${layers.from}-${layers.to ?? layers.from}...`);
+		await page.evaluate((range, grid) => {
+			window.schematicHelpers.setClipping(range);
+			window.schematicHelpers.setLayerGrid(grid ? range.to ?? range.from : null);
+		}, layers, viewOptions.grid !== false);
+	}
 
-		// Add extra delay to ensure canvas is fully updated after render event
-		logger.info(`[${browserId}] Waiting for canvas to stabilize...`);
-		await new Promise(resolve => setTimeout(resolve, 1000));
+	if (viewOptions.clip) {
+		logger.info(`[${browserId}] Applying cutaway...`);
+		await page.evaluate((clip) => {
+			window.schematicHelpers.setCutaway(clip);
+		}, viewOptions.clip);
+	}
 
-		// Apply additional render options (background, framing, etc.)
-		// Note: Camera preset is already set during renderer initialization
-		logger.info(`[${browserId}] Applying render options...`);
-		await page.evaluate(async (opts) => {
-			const renderer = (window as any).rendererRef?.current;
-			if (!renderer) {
-				console.warn("Renderer not available");
-				return;
-			}
+	// Tint highlighted blocks (diffs) over the finished scene
+	if (highlights?.length) {
+		logger.info(`[${browserId}] Drawing ${highlights.length} block highlight layers...`);
+		await page.evaluate((layers) => {
+			window.schematicHelpers.setBlockHighlights(layers);
+		}, highlights);
+	}
 
-			// Apply background color
-			if (opts.background) {
-				console.log(`🎨 Setting background color to: ${opts.background}`);
-				if (opts.background.toLowerCase() === 'transparent') {
-					// For transparent, we need to set the renderer's clear color alpha to 0
-					const renderManager = renderer.renderManager;
-					if (renderManager?.renderer) {
-						renderManager.renderer.setClearColor(0x000000, 0);
-					}
-				} else {
-					// Set solid background color
-					renderer.sceneManager?.setBackgroundColor(opts.background);
-				}
-			}
+	return renderData;
+}
 
-			// Apply framing (affects camera distance)
-			if (opts.framing) {
-				const paddingMap: Record<string, number> = {
-					tight: 0.05,
-					medium: 0.15,
-					wide: 0.3
-				};
-				const padding = paddingMap[opts.framing] || 0.15;
-				console.log(`📏 Setting framing to: ${opts.framing} (padding: ${padding})`);
-				try {
-					await renderer.cameraManager?.focusOnSchematics({
-						animationDuration: 0,
-						padding
-					});
-				} catch (err) {
-					console.warn("Could not adjust framing:", err);
-				}
-			}
+/**
+ * Capture the scene as a lossless PNG; the output format is encoded afterwards
+ */
+async function captureScreenshot(
+	page: Page,
+	opts: { width?: number; height?: number; camera?: CameraSpec }
+): Promise<Buffer> {
+	const screenshotBlob = await page.evaluate(async (opts) => {
+		if (window.schematicHelpers == undefined) {
+			throw new Error("Schematic helpers not initialized");
+		}
 
-			// Force a few renders to ensure everything is applied
-			for (let i = 0; i < 3; i++) {
-				renderer.renderManager?.render();
-				await new Promise(resolve => requestAnimationFrame(resolve));
-			}
+		// Log scene state before screenshot
+		const scene = (window as any).rendererRef?.current?.sceneManager?.scene;
+		const canvas = (window as any).rendererRef?.current?.renderManager?.renderer.domElement;
+		console.log("📊 Pre-screenshot state:", {
+			sceneChildren: scene?.children.length,
+			canvasWidth: canvas?.width,
+			canvasHeight: canvas?.height,
+		});
 
-			console.log(`✅ All render options applied`);
-		}, options);
+		console.log("📸 Taking screenshot with options:", JSON.stringify(opts, null, 2));
 
-		// Apply rotation if specified
-		if (options.rotation !== undefined) {
-			logger.info(`[${browserId}] Applying rotation: ${options.rotation} degrees`);
-			await page.evaluate(async (rotationDeg, opts) => {
-				const renderer = (window as any).rendererRef?.current;
-				if (!renderer) return;
-
-				const schematicManager = renderer.schematicManager;
-				// Get all schematics and rotate them
-				for (const schematic of schematicManager.schematics.values()) {
-					if (schematic.group) {
-						schematic.group.rotation.y = (rotationDeg * Math.PI) / 180;
-					}
-				}
+		const blob = await window.schematicHelpers.takeScreenshot({
+			width: opts.width || 1920,
+			height: opts.height || 1080,
+			// Always capture losslessly; the output format is encoded afterwards
+			format: "image/png",
+			camera: opts.camera,
+		});
 
-				// Re-focus to account for new rotated bounds
-				const paddingMap: Record<string, number> = {
-					tight: 0.05,
-					medium: 0.15,
-					wide: 0.3
-				};
-				const padding = paddingMap[opts.framing || 'medium'] || 0.15;
-				
-				try {
-					await renderer.cameraManager?.focusOnSchematics({
-						animationDuration: 0,
-						padding
-					});
-				} catch (err) {
-					console.warn("Could not adjust framing after rotation:", err);
-				}
+		console.log("✅ Screenshot blob size:", blob.size);
 
-				// Re-render to show changes
-				renderer.renderManager?.render();
-			}, options.rotation, options);
+		const arrayBuffer = await blob.arrayBuffer();
+		return Array.from(new Uint8Array(arrayBuffer));
+	}, { width: opts.width, height: opts.height, camera: opts.camera });
+
+	return Buffer.from(screenshotBlob);
+}
+
+/**
+ * Switch the loaded scene to another variant: background, camera preset, rotation, framing
+ * and layer slice
+ */
+async function applyVariant(page: Page, variant: RenderOptions): Promise<void> {
+	await page.evaluate(async (opts) => {
+		const renderer = (window as any).rendererRef?.current;
+		if (!renderer) return;
+
+		// Start from the page defaults so the previous variant's background doesn't carry over
+		const defaults = (window as any).poolDefaults;
+		const scene = renderer.sceneManager?.scene;
+		const threeRenderer = renderer.renderManager?.renderer;
+		if (defaults && scene) {
+			scene.background = defaults.background?.clone ? defaults.background.clone() : defaults.background;
+		}
+		if (defaults && threeRenderer) {
+			threeRenderer.setClearColor(defaults.clearColor, defaults.clearAlpha);
 		}
+		if (opts.background?.toLowerCase() === "transparent") {
+			threeRenderer?.setClearColor(0x000000, 0);
+		} else if (opts.background) {
+			renderer.sceneManager?.setBackgroundColor(opts.background);
+		}
+
+		renderer.cameraManager?.switchCameraPreset(opts.isometric ? "isometric" : "perspective");
 
-		// Take screenshot with detailed logging
-		logger.info(`[${browserId}] Taking screenshot...`);
-		const screenshotBlob = await page.evaluate(async (opts) => {
-			if (window.schematicHelpers == undefined) {
-				throw new Error("Schematic helpers not initialized");
+		for (const schematic of renderer.schematicManager.schematics.values()) {
+			if (schematic.group) {
+				schematic.group.rotation.y = ((opts.rotation ?? 0) * Math.PI) / 180;
 			}
+		}
 
-			// Log scene state before screenshot
-			const scene = (window as any).rendererRef?.current?.sceneManager?.scene;
-			const canvas = (window as any).rendererRef?.current?.renderManager?.renderer.domElement;
-			console.log("📊 Pre-screenshot state:", {
-				sceneChildren: scene?.children.length,
-				canvasWidth: canvas?.width,
-				canvasHeight: canvas?.height,
+		const paddingMap: Record<string, number> = {
+			tight: 0.05,
+			medium: 0.15,
+			wide: 0.3
+		};
+		try {
+			await renderer.cameraManager?.focusOnSchematics({
+				animationDuration: 0,
+				padding: paddingMap[opts.framing || "medium"] || 0.15
 			});
+		} catch (err) {
+			console.warn("Could not adjust framing for variant:", err);
+		}
+	}, { background: variant.background, isometric: variant.isometric, rotation: variant.rotation, framing: variant.framing });
+
+	// Build guides step through the layers of one loaded scene
+	if (variant.layers) {
+		await page.evaluate((range, grid) => {
+			window.schematicHelpers.setClipping(range);
+			window.schematicHelpers.setLayerGrid(grid ? range.to ?? range.from : null);
+		}, variant.layers, variant.grid !== false);
+	}
+}
 
-			console.log("📸 Taking screenshot with options:", JSON.stringify(opts, null, 2));
+/**
+ * Render several variants of a schematic from one page load: the scene (diff
+ * highlights, filter, cutaway) is shared, while background, camera preset, rotation,
+ * framing, size, camera and layer slice come from each variant in turn. Returns one
+ * encoded image per variant, in order.
+ */
+export async function renderSchematicVariants(
+	schematicData: Buffer,
+	options: RenderOptions,
+	variants: RenderVariant[],
+	onStage?: RenderStageCallback
+): Promise<Buffer[]> {
+	// Layer slices are drawn top-down with the orthographic camera
+	if (options.layers || variants.some((variant) => variant.layers)) {
+		options = { ...options, isometric: true, camera: { ...TOP_DOWN_CAMERA, ...options.camera } };
+	} else if (options.clip) {
+		options = { ...options, camera: { ...getCutawayCamera(options.clip), ...options.camera } };
+	}
+	const variantOptions = variants.map((variant): RenderOptions => ({ ...options, ...variant }));
 
-			const blob = await window.schematicHelpers.takeScreenshot({
-				width: opts.width || 1920,
-				height: opts.height || 1080,
-				format: opts.format || "image/png",
-			});
+	// Wait for Puppeteer to be ready
+	await waitForPuppeteerReady();
 
-			console.log("✅ Screenshot blob size:", blob.size);
+	// Lease a warm page from the browser pool for this render
+	const { page, id: browserId, leaseId } = await acquireBrowser({
+		isometric: variantOptions[0].isometric,
+		background: variantOptions[0].background,
+		expectedMs: (variants.length - 1) * EXPECTED_MS_PER_VARIANT,
+	});
+	const startTime = Date.now();
+	let failed = false;
 
-			const arrayBuffer = await blob.arrayBuffer();
-			return Array.from(new Uint8Array(arrayBuffer));
-		}, options);
+	trackRenderStart(leaseId, 'image', schematicData.length);
+	onStage?.("browser_ready");
+
+	try {
+		const renderData = await prepareImageScene(page, browserId, schematicData, variantOptions[0], onStage);
+
+		onStage?.("capturing");
+		const screenshots: Buffer[] = [];
+		for (const [index, current] of variantOptions.entries()) {
+			if (index > 0) {
+				await applyVariant(page, current);
+			}
+
+			logger.info(`[${browserId}] Taking screenshot${variants.length > 1 ? ` ${index + 1}/${variants.length}` : ""}...`);
+			const screenshot = await captureScreenshot(page, current);
+			logger.info(`[${browserId}] Screenshot received, size: ${screenshot.length} bytes`);
+			screenshots.push(screenshot);
+		}
 
-		logger.info(`[${browserId}] Screenshot blob received, size: ${screenshotBlob.length} bytes`);
+		onStage?.("encoding");
+		const outputs = await Promise.all(screenshots.map((screenshot, index) =>
+			encodeImage(screenshot, variantOptions[index].format || "image/png", {
+				quality: variantOptions[index].quality,
+				background: variantOptions[index].background,
+			})
+		));
 
 		const duration = Date.now() - startTime;
-		trackRenderComplete(browserId, duration, renderData.meshCount);
+		trackRenderComplete(leaseId, duration, renderData.meshCount);
 
-		return Buffer.from(screenshotBlob);
+		return outputs;
 	} catch (error) {
-		logger.error(`[${browserId}] Error in renderSchematic:`, error);
-		trackRenderError(browserId, error);
+		logger.error(`[${browserId}] Error in renderSchematicVariants:`, error);
+		trackRenderError(leaseId, error);
+		failed = true;
 		throw error;
 	} finally {
-		// Always close the isolated browser instance
-		await closeIsolatedBrowser(browserId);
+		// Always hand the page back; a failed render recycles it rather than trusting its state
+		await releaseBrowser(browserId, { recycle: failed });
 	}
 }
 
+export async function renderSchematic(
+	schematicData: Buffer,
+	options: RenderOptions = {},
+	onStage?: RenderStageCallback
+): Promise<Buffer> {
+	const [output] = await renderSchematicVariants(schematicData, options, [{}], onStage);
+	return output;
+}
 
-export async function renderSchematicVideo(
+/**
+ * Render several views of a schematic from a single page load and tile them into
+ * one labelled image, with `caption` (name, dimensions) printed underneath
+ */
+export async function renderSchematicSheet(
 	schematicData: Buffer,
-	options: VideoRenderOptions = {}
+	options: RenderOptions = {},
+	caption?: string,
+	onStage?: RenderStageCallback
 ): Promise<Buffer> {
+	const views = options.sheet?.views ?? DEFAULT_SHEET_VIEWS;
+	const layout = getSheetLayout(views.length, options.width || 1920, options.height || 1080, options.sheet?.columns, !!caption);
+
+	// Every view brings its own camera; panels stay PNG until the sheet is encoded
+	const images = await renderSchematicVariants(
+		schematicData,
+		{ ...options, camera: undefined, format: "image/png" },
+		views.map((view) => ({
+			isometric: SHEET_CAMERAS[view].isometric,
+			camera: SHEET_CAMERAS[view].camera,
+			width: layout.panelWidth,
+			height: layout.panelHeight,
+		})),
+		onStage
+	);
+	const panels: SheetPanel[] = views.map((view, index) => ({ label: SHEET_CAMERAS[view].label, image: images[index] }));
+
+	const sheet = await composeContactSheet(panels, layout, {
+		background: options.background,
+		labels: options.sheet?.labels,
+		caption,
+	});
+	return encodeImage(sheet, options.format || "image/png", {
+		quality: options.quality,
+		background: options.background,
+	});
+}
+
+export interface VideoRenderOutput {
+	video: Buffer;
+	poster?: Buffer; // PNG of the scene before recording starts (missing if the capture failed)
+}
+
+/**
+ * Camera for a video's poster frame: the opening keyframe, or the video's fixed camera
+ */
+function getPosterCamera(options: VideoRenderOptions): CameraSpec | undefined {
+	const opening = options.cameraKeyframes?.[0];
+	if (opening) {
+		return { position: opening.position, target: opening.target, fov: opening.fov };
+	}
+	return options.camera;
+}
+
+/**
+ * Upper bound on a video's length in seconds
+ */
+function getVideoSeconds(options: VideoRenderOptions): number {
+	const duration = options.duration || 6;
+	if (!options.animation) return duration;
+	return Math.max(duration, MAX_BUILD_ANIMATION_SECONDS);
+}
+
+export async function renderSchematicVideo(
+	schematicData: Buffer,
+	options: VideoRenderOptions = {},
+	onStage?: RenderStageCallback
+): Promise<VideoRenderOutput> {
 	await waitForPuppeteerReady();
 
-	// Create a new isolated browser instance for this render with render options
-	const { browser, page, id: browserId } = await createIsolatedBrowser({
+	// Lease a warm page from the browser pool for this render
+	const { page, id: browserId, leaseId } = await acquireBrowser({
 		isometric: options.isometric,
 		background: options.background,
+		expectedMs: getVideoSeconds(options) * EXPECTED_MS_PER_VIDEO_SECOND,
 	});
 	const startTime = Date.now();
+	let failed = false;
 
-	trackRenderStart(browserId, 'video', schematicData.length);
+	trackRenderStart(leaseId, 'video', schematicData.length);
+	onStage?.("browser_ready");
 
 	try {
 		logger.info(`[${browserId}] Rendering schematic video, size: ${schematicData.length} bytes`);
@@ -279,12 +575,13 @@ export async function renderSchematicVideo(
 		}, base64Data);
 
 		logger.info(`[${browserId}] Schematic loaded, starting video recording...`);
+		onStage?.("schematic_loaded");
 
 		// Add extra delay to ensure canvas is fully updated
 		await new Promise(resolve => setTimeout(resolve, 1000));
 
 		// Apply additional render options (background, framing, etc.)
-		// Note: Camera preset is already set during renderer initialization
+		// Note: Camera preset is already switched when the page is leased
 		logger.info(`[${browserId}] Applying render options for video...`);
 		await page.evaluate(async (opts) => {
 			const renderer = (window as any).rendererRef?.current;
@@ -308,35 +605,22 @@ export async function renderSchematicVideo(
 				}
 			}
 
-			// Apply framing (affects camera distance)
-			if (opts.framing) {
-				const paddingMap: Record<string, number> = {
-					tight: 0.05,
-					medium: 0.15,
-					wide: 0.3
-				};
-				const padding = paddingMap[opts.framing] || 0.15;
-				console.log(`📏 Setting framing to: ${opts.framing} (padding: ${padding})`);
-				try {
-					await renderer.cameraManager?.focusOnSchematics({
-						animationDuration: 0,
-						padding
-					});
-				} catch (err) {
-					console.warn("Could not adjust framing:", err);
-				}
-			}
-
-			// Set camera path if specified
-			if (opts.cameraPath) {
-				console.log(`🎬 Setting camera path to: ${opts.cameraPath}`);
-				try {
-					// Different camera paths for video animation
-					// Note: This would need to be implemented in the frontend video recording logic
-					// For now, we'll just log it as the current implementation uses circular orbit
-				} catch (err) {
-					console.warn("Could not set camera path:", err);
-				}
+			// Apply framing (affects camera distance); none means medium, as after a rotation or variant switch
+			const paddingMap: Record<string, number> = {
+				tight: 0.05,
+				medium: 0.15,
+				wide: 0.3
+			};
+			const framing = opts.framing || "medium";
+			const padding = paddingMap[framing] || 0.15;
+			console.log(`📏 Setting framing to: ${framing} (padding: ${padding})`);
+			try {
+				await renderer.cameraManager?.focusOnSchematics({
+					animationDuration: 0,
+					padding
+				});
+			} catch (err) {
+				console.warn("Could not adjust framing:", err);
 			}
 
 			// Force a few renders to ensure everything is applied
@@ -349,7 +633,34 @@ export async function renderSchematicVideo(
 
 		}, options);
 
-		// Record video
+		// Poster frame of the loaded scene; a failed capture shouldn't cost the video
+		let poster: Buffer | undefined;
+		try {
+			poster = await captureScreenshot(page, {
+				width: options.width,
+				height: options.height,
+				camera: getPosterCamera(options),
+			});
+		} catch (err) {
+			logger.warn(`[${browserId}] Could not capture poster frame:`, err);
+		}
+
+		// Record video. The page flags the end of recording, so the transcode that follows
+		// (gif, apng, mp4) is reported as encoding while it runs rather than once it is done.
+		onStage?.("capturing");
+		let encodingReported = false;
+		const reportEncoding = () => {
+			if (encodingReported) return;
+			encodingReported = true;
+			onStage?.("encoding");
+		};
+		const encodingWatch = new AbortController();
+		page.waitForFunction(() => window.videoRecordingStage === "encoding", {
+			polling: 250,
+			timeout: 0,
+			signal: encodingWatch.signal,
+		}).then(reportEncoding, () => {});
+
 		const videoBlob = await page.evaluate(async (opts) => {
 			if (!window.schematicHelpers?.startVideoRecording) {
 				throw new Error("Video recording not available - startVideoRecording function missing");
@@ -362,24 +673,34 @@ export async function renderSchematicVideo(
 				width: opts.width || 1920,
 				height: opts.height || 1080,
 				frameRate: opts.frameRate || 30,
+				cameraPath: opts.cameraPath || "circular",
+				camera: opts.camera,
+				cameraKeyframes: opts.cameraKeyframes,
+				format: opts.format || "video/webm",
+				maxFileSize: opts.maxFileSize,
+				animation: opts.animation,
+				layersPerSecond: opts.layersPerSecond,
+				holdSeconds: opts.holdSeconds,
 			});
 
 			const arrayBuffer = await blob.arrayBuffer();
 			return Array.from(new Uint8Array(arrayBuffer));
-		}, options);
+		}, options).finally(() => encodingWatch.abort());
 
 		const duration = Date.now() - startTime;
-		trackRenderComplete(browserId, duration, renderData.meshCount);
+		trackRenderComplete(leaseId, duration, renderData.meshCount);
 
 		logger.info(`[${browserId}] Video recording completed successfully`);
-		return Buffer.from(videoBlob);
+		reportEncoding();
+		return { video: Buffer.from(videoBlob), poster };
 
 	} catch (error) {
 		logger.error(`[${browserId}] Error in renderSchematicVideo:`, error);
-		trackRenderError(browserId, error);
+		trackRenderError(leaseId, error);
+		failed = true;
 		throw error;
 	} finally {
-		// Always close the isolated browser instance
-		await closeIsolatedBrowser(browserId);
+		// Always hand the page back; a failed render recycles it rather than trusting its state
+		await releaseBrowser(browserId, { recycle: failed });
 	}
 }
\ No newline at end of file
@@ -0,0 +1,356 @@
+import { statements } from './database.js';
+import { storeFile, getFile } from './storage.js';
+import { asCompound, asNumber, writeNbt, nbt, NbtCompound, NbtTag, NbtValue } from './nbt.js';
+import { AIR_BLOCKS, SchematicBlock, blockKey, getBlocks, getDimensions, withSchematic } from './nucleation.js';
+import { DEFAULT_DATA_VERSION, NATIVE_FORMATS, prepareSchematic, readSchematicNbt } from './schematic-formats.js';
+import { toLegacyBlock } from './legacy-blocks.js';
+import { InvalidSchematicError } from './schematic-errors.js';
+import { logger } from '../shared/logger.js';
+import { SchematicFormat } from '../shared/types.js';
+
+export type ConversionTarget = 'litematic' | 'schem' | 'schematic' | 'nbt';
+
+export const CONVERSION_TARGETS: ConversionTarget[] = ['litematic', 'schem', 'schematic', 'nbt'];
+
+export interface ConversionReport {
+  from: SchematicFormat;
+  to: ConversionTarget;
+  lossy: boolean;
+  warnings: string[];
+  droppedEntities: number;
+  droppedBlockEntities: number;
+  // Block ids with no legacy equivalent, written as air (legacy .schematic only)
+  unsupportedBlocks: Record<string, number>;
+  // Block ids written without some of their states (legacy .schematic only)
+  simplifiedBlocks: Record<string, number>;
+}
+
+export interface ConversionResult {
+  fileHash: string;
+  sourceHash: string;
+  filename: string;
+  data: Buffer;
+  report: ConversionReport;
+  cached: boolean;
+}
+
+// The file_cache columns read here
+interface FileCacheRow {
+  file_hash: string;
+  original_filename: string | null;
+  schematic_format: SchematicFormat | null;
+  source_file_hash: string | null;
+  conversion_target: string | null;
+  conversion_report_json: string | null;  // null for render upgrades
+}
+
+const MAX_LEGACY_DIMENSION = 32767;
+
+// conversion_target of the .schem a legacy, structure or Bedrock upload is upgraded to for rendering
+const RENDER_UPGRADE_TARGET = 'render';
+
+function listLength(value: NbtValue | undefined): number {
+  return Array.isArray(value) ? value.length : 0;
+}
+
+/**
+ * Entities, block entities and data version recorded in the source file
+ */
+function readSourceExtras(root: NbtCompound): { entities: number; blockEntities: number; dataVersion?: number } {
+  const regions = asCompound(root.Regions);
+  if (regions) {
+    let entities = 0;
+    let blockEntities = 0;
+    for (const region of Object.values(regions)) {
+      entities += listLength(asCompound(region)?.Entities);
+      blockEntities += listLength(asCompound(region)?.TileEntities);
+    }
+    return { entities, blockEntities, dataVersion: asNumber(root.MinecraftDataVersion) };
+  }
+
+  // Structure block files (lowercase keys) and Bedrock structures
+  if (Array.isArray(root.size)) {
+    const structure = asCompound(root.structure);
+    const blockPositionData = asCompound(asCompound(asCompound(structure?.palette)?.default)?.block_position_data);
+    const blockEntities = structure
+      ? Object.keys(blockPositionData || {}).length
+      : (Array.isArray(root.blocks) ? root.blocks.filter(block => asCompound(block)?.nbt).length : 0);
+    return {
+      entities: listLength(structure ? structure.entities : root.entities),
+      blockEntities,
+      dataVersion: asNumber(root.DataVersion),
+    };
+  }
+
+  const sponge = asCompound(root.Schematic) || root;
+  const blocks = asCompound(sponge.Blocks);
+  return {
+    entities: listLength(sponge.Entities),
+    blockEntities: listLength(blocks?.BlockEntities ?? sponge.BlockEntities ?? sponge.TileEntities),
+    dataVersion: asNumber(sponge.DataVersion),
+  };
+}
+
+/**
+ * Non-air blocks shifted so the bounding box starts at 0,0,0
+ */
+function normalizeBlocks(blocks: SchematicBlock[]): SchematicBlock[] {
+  const solid = blocks.filter(block => !AIR_BLOCKS.has(block.name));
+  if (solid.length === 0) return solid;
+
+  // Spreading large arrays into Math.min overflows the stack
+  let minX = Infinity, minY = Infinity, minZ = Infinity;
+  for (const block of blocks) {
+    minX = Math.min(minX, block.x);
+    minY = Math.min(minY, block.y);
+    minZ = Math.min(minZ, block.z);
+  }
+  return solid.map(block => ({ ...block, x: block.x - minX, y: block.y - minY, z: block.z - minZ }));
+}
+
+/**
+ * Vanilla structure block format (.nbt)
+ */
+function writeStructure(
+  blocks: SchematicBlock[],
+  size: { width: number; height: number; length: number },
+  dataVersion: number
+): Buffer {
+  const paletteIndex = new Map<string, number>();
+  const palette: NbtTag[] = [];
+  const entries: NbtTag[] = [];
+
+  for (const block of blocks) {
+    const key = blockKey(block.name, block.properties);
+    let state = paletteIndex.get(key);
+    if (state === undefined) {
+      state = palette.length;
+      paletteIndex.set(key, state);
+
+      const entry: Record<string, NbtTag> = { Name: nbt.string(block.name) };
+      const properties = Object.entries(block.properties || {});
+      if (properties.length > 0) {
+        entry.Properties = nbt.compound(Object.fromEntries(properties.map(([name, value]) => [name, nbt.string(String(value))])));
+      }
+      palette.push(nbt.compound(entry));
+    }
+
+    entries.push(nbt.compound({
+      pos: nbt.list('int', [nbt.int(block.x), nbt.int(block.y), nbt.int(block.z)]),
+      state: nbt.int(state),
+    }));
+  }
+
+  return writeNbt({
+    DataVersion: nbt.int(dataVersion),
+    size: nbt.list('int', [nbt.int(size.width), nbt.int(size.height), nbt.int(size.length)]),
+    palette: nbt.list('compound', palette),
+    blocks: nbt.list('compound', entries),
+    entities: nbt.list('compound', []),
+  });
+}
+
+/**
+ * MCEdit/WorldEdit legacy format (.schematic) with numeric block ids
+ */
+function writeLegacySchematic(
+  blocks: SchematicBlock[],
+  size: { width: number; height: number; length: number },
+  report: ConversionReport
+): Buffer {
+  const { width, height, length } = size;
+  if (Math.max(width, height, length) > MAX_LEGACY_DIMENSION) {
+    throw new InvalidSchematicError(`Legacy .schematic files are limited to ${MAX_LEGACY_DIMENSION} blocks per side`);
+  }
+
+  const ids = new Uint8Array(width * height * length);
+  const data = new Uint8Array(width * height * length);
+
+  for (const block of blocks) {
+    if (block.x >= width || block.y >= height || block.z >= length) continue;
+
+    const legacy = toLegacyBlock(block.name, block.properties);
+    if (!legacy) {
+      report.unsupportedBlocks[block.name] = (report.unsupportedBlocks[block.name] || 0) + 1;
+      continue;
+    }
+    if (!legacy.exact) {
+      report.simplifiedBlocks[block.name] = (report.simplifiedBlocks[block.name] || 0) + 1;
+    }
+
+    const index = (block.y * length + block.z) * width + block.x;
+    ids[index] = legacy.block[0];
+    data[index] = legacy.block[1];
+  }
+
+  return writeNbt({
+    Width: nbt.short(width),
+    Height: nbt.short(height),
+    Length: nbt.short(length),
+    Materials: nbt.string('Alpha'),
+    Blocks: nbt.byteArray(ids),
+    Data: nbt.byteArray(data),
+    Entities: nbt.list('compound', []),
+    TileEntities: nbt.list('compound', []),
+  }, 'Schematic');
+}
+
+function sumCounts(counts: Record<string, number>): number {
+  return Object.values(counts).reduce((sum, count) => sum + count, 0);
+}
+
+/**
+ * Convert schematic bytes to another format, noting everything that could not be carried over
+ */
+export async function convertSchematicData(
+  data: Buffer,
+  to: ConversionTarget
+): Promise<{ data: Buffer; report: ConversionReport }> {
+  let from: SchematicFormat = 'unknown';
+  let extras: ReturnType<typeof readSourceExtras> = { entities: 0, blockEntities: 0 };
+  try {
+    const { root, format } = readSchematicNbt(data);
+    from = format;
+    extras = readSourceExtras(root);
+  } catch (error) {
+    logger.warn('Could not read schematic NBT before conversion:', error);
+  }
+
+  const report: ConversionReport = {
+    from,
+    to,
+    lossy: false,
+    warnings: [],
+    droppedEntities: extras.entities,
+    droppedBlockEntities: 0,
+    unsupportedBlocks: {},
+    simplifiedBlocks: {},
+  };
+
+  // Upgraded sources (legacy, .nbt, .mcstructure) and files written here from the block list
+  // carry blocks only, so block entity contents don't survive
+  const prepared = prepareSchematic(data);
+  if (prepared.upgraded || to === 'nbt' || to === 'schematic') {
+    report.droppedBlockEntities = extras.blockEntities;
+  }
+
+  const output = await withSchematic(prepared.data, (schematic) => {
+    if (to === 'litematic') return Buffer.from(schematic.to_litematic() as Uint8Array);
+    if (to === 'schem') return Buffer.from(schematic.to_schematic() as Uint8Array);
+
+    const blocks = normalizeBlocks(getBlocks(schematic));
+    const size = getDimensions(schematic);
+
+    return to === 'nbt'
+      ? writeStructure(blocks, size, extras.dataVersion ?? DEFAULT_DATA_VERSION)
+      : writeLegacySchematic(blocks, size, report);
+  });
+
+  if (report.droppedEntities > 0) {
+    report.warnings.push(`${report.droppedEntities} entities (item frames, armor stands, mobs) were not carried over`);
+  }
+  if (report.droppedBlockEntities > 0) {
+    report.warnings.push(`${report.droppedBlockEntities} block entities lost their contents (chest items, sign text)`);
+  }
+  const unsupported = Object.keys(report.unsupportedBlocks).length;
+  if (unsupported > 0) {
+    report.warnings.push(`${sumCounts(report.unsupportedBlocks)} blocks of ${unsupported} types have no legacy ID and were replaced with air`);
+  }
+  const simplified = Object.keys(report.simplifiedBlocks).length;
+  if (simplified > 0) {
+    report.warnings.push(`${sumCounts(report.simplifiedBlocks)} blocks of ${simplified} types lost block states the legacy format can't store`);
+  }
+  report.lossy = report.warnings.length > 0;
+
+  return { data: output, report };
+}
+
+/**
+ * Convert a schematic and store the result, linking it to the original in file_cache.
+ * Repeated conversions of the same file are served from storage.
+ */
+export async function convertSchematic(
+  data: Buffer,
+  to: ConversionTarget,
+  originalFilename?: string
+): Promise<ConversionResult> {
+  const baseName = (originalFilename || 'schematic').replace(/\.[^/.]+$/, '');
+  const filename = `${baseName}.${to}`;
+
+  const source = await storeFile(data, {
+    originalFilename,
+    mimeType: 'application/octet-stream',
+  });
+
+  const previous = statements.getConvertedFile.get(source.hash, to) as FileCacheRow | undefined;
+  if (previous?.conversion_report_json) {
+    const cachedData = await getFile(previous.file_hash);
+    if (cachedData) {
+      logger.info(`Serving cached ${to} conversion of ${source.hash.slice(0, 12)}`);
+      return {
+        fileHash: previous.file_hash,
+        sourceHash: source.hash,
+        filename,
+        data: cachedData,
+        report: JSON.parse(previous.conversion_report_json),
+        cached: true,
+      };
+    }
+  }
+
+  const startTime = Date.now();
+  const { data: output, report } = await convertSchematicData(data, to);
+
+  const converted = await storeFile(output, {
+    originalFilename: filename,
+    mimeType: 'application/octet-stream',
+  });
+  statements.linkConvertedFile.run(source.hash, to, JSON.stringify(report), converted.hash);
+
+  logger.info(
+    `Converted ${source.hash.slice(0, 12)} ${report.from} → ${to} in ${Date.now() - startTime}ms` +
+    (report.lossy ? ` (lossy: ${report.warnings.length} warnings)` : '')
+  );
+
+  return {
+    fileHash: converted.hash,
+    sourceHash: source.hash,
+    filename,
+    data: output,
+    report,
+    cached: false,
+  };
+}
+
+/**
+ * Schematic bytes the renderer can load, for a stored file. Native formats are passed
+ * through without parsing again; other formats are upgraded once and the .schem is
+ * stored, linked to the original, for every later render.
+ */
+export async function getRenderableSchematic(fileHash: string, data: Buffer): Promise<Buffer> {
+  const row = statements.getFileCache.get(fileHash) as FileCacheRow | undefined;
+  if (row?.schematic_format && NATIVE_FORMATS.includes(row.schematic_format)) return data;
+
+  const previous = statements.getConvertedFile.get(fileHash, RENDER_UPGRADE_TARGET) as FileCacheRow | undefined;
+  if (previous) {
+    const upgraded = await getFile(previous.file_hash);
+    if (upgraded) return upgraded;
+  }
+
+  const prepared = prepareSchematic(data);
+  if (!prepared.upgraded || !row) return prepared.data;
+
+  const baseName = (row.original_filename || fileHash.slice(0, 12)).replace(/\.[^/.]+$/, '');
+  const stored = await storeFile(prepared.data, {
+    originalFilename: `${baseName}.schem`,
+    mimeType: 'application/octet-stream',
+  });
+  statements.linkConvertedFile.run(fileHash, RENDER_UPGRADE_TARGET, null, stored.hash);
+  return prepared.data;
+}
+
+export default {
+  convertSchematic,
+  convertSchematicData,
+  getRenderableSchematic,
+};
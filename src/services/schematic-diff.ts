@@ -0,0 +1,120 @@
+import { AIR_BLOCKS, SchematicBlock, blockKey, getBlocks, withSchematic } from './nucleation.js';
+import { prepareSchematic } from './schematic-formats.js';
+import { BlockHighlight, DiffSpec, SchematicDiffStats } from '../shared/types.js';
+
+export interface SchematicDiff {
+  stats: SchematicDiffStats;
+  // Tints for rendering the new version: added, removed (ghosts) and changed blocks
+  highlights: BlockHighlight[];
+}
+
+export const DIFF_COLORS = {
+  added: '#22c55e',
+  removed: '#ef4444',
+  changed: '#eab308',
+};
+
+type Vec3 = [number, number, number];
+
+async function loadSolidBlocks(data: Buffer): Promise<SchematicBlock[]> {
+  const blocks = await withSchematic(prepareSchematic(data).data, getBlocks);
+  return blocks.filter(block => !AIR_BLOCKS.has(block.name));
+}
+
+function minCorner(blocks: SchematicBlock[]): Vec3 {
+  if (blocks.length === 0) return [0, 0, 0];
+
+  // Spreading large arrays into Math.min overflows the stack
+  let minX = Infinity, minY = Infinity, minZ = Infinity;
+  for (const block of blocks) {
+    minX = Math.min(minX, block.x);
+    minY = Math.min(minY, block.y);
+    minZ = Math.min(minZ, block.z);
+  }
+  return [minX, minY, minZ];
+}
+
+function increment(counts: Record<string, number>, name: string): void {
+  counts[name] = (counts[name] || 0) + 1;
+}
+
+/**
+ * Block-level diff between two versions of a schematic. With `align: 'origin'` both
+ * are shifted so their bounding boxes start at the same corner, so moving a build
+ * inside its file doesn't count as rebuilding it. Highlight positions are in the
+ * new version's coordinates, which is the one that gets rendered.
+ */
+export async function diffSchematics(
+  oldData: Buffer,
+  newData: Buffer,
+  align: DiffSpec['align'] = 'origin'
+): Promise<SchematicDiff> {
+  const oldBlocks = await loadSolidBlocks(oldData);
+  const newBlocks = await loadSolidBlocks(newData);
+
+  const oldOrigin = align === 'none' ? [0, 0, 0] : minCorner(oldBlocks);
+  const newOrigin = align === 'none' ? [0, 0, 0] : minCorner(newBlocks);
+
+  // New blocks by aligned position; whatever is left after matching the old ones was added
+  const remaining = new Map<string, SchematicBlock & { state: string }>();
+  for (const block of newBlocks) {
+    const key = `${block.x - newOrigin[0]},${block.y - newOrigin[1]},${block.z - newOrigin[2]}`;
+    remaining.set(key, { ...block, state: blockKey(block.name, block.properties) });
+  }
+
+  const stats: SchematicDiffStats = {
+    added: 0,
+    removed: 0,
+    changed: 0,
+    unchanged: 0,
+    oldBlocks: oldBlocks.length,
+    newBlocks: newBlocks.length,
+    addedBlocks: {},
+    removedBlocks: {},
+  };
+  const added: number[] = [];
+  const removed: number[] = [];
+  const changed: number[] = [];
+
+  for (const block of oldBlocks) {
+    const x = block.x - oldOrigin[0];
+    const y = block.y - oldOrigin[1];
+    const z = block.z - oldOrigin[2];
+    const key = `${x},${y},${z}`;
+    const current = remaining.get(key);
+
+    if (!current) {
+      stats.removed++;
+      increment(stats.removedBlocks, block.name);
+      removed.push(x + newOrigin[0], y + newOrigin[1], z + newOrigin[2]);
+      continue;
+    }
+
+    remaining.delete(key);
+    if (current.state === blockKey(block.name, block.properties)) {
+      stats.unchanged++;
+    } else {
+      stats.changed++;
+      changed.push(current.x, current.y, current.z);
+    }
+  }
+
+  for (const block of remaining.values()) {
+    stats.added++;
+    increment(stats.addedBlocks, block.name);
+    added.push(block.x, block.y, block.z);
+  }
+
+  return {
+    stats,
+    highlights: [
+      { color: DIFF_COLORS.added, opacity: 0.45, positions: added },
+      { color: DIFF_COLORS.removed, opacity: 0.3, positions: removed },
+      { color: DIFF_COLORS.changed, opacity: 0.5, positions: changed },
+    ],
+  };
+}
+
+export default {
+  diffSchematics,
+};
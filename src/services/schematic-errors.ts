@@ -0,0 +1,10 @@
+/**
+ * The uploaded file is the problem (unreadable, unsupported or over a limit), not the
+ * server. Routes answer these with a 4xx instead of a 500.
+ */
+export class InvalidSchematicError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidSchematicError';
+  }
+}
@@ -0,0 +1,366 @@
+import { readNbt, asBytes, asCompound, asNumber, writeNbt, nbt, NbtCompound, NbtTag, NbtValue } from './nbt.js';
+import { fromLegacyBlock } from './legacy-blocks.js';
+import { blockKey, SchematicBlock } from './nucleation.js';
+import { InvalidSchematicError } from './schematic-errors.js';
+import { logger } from '../shared/logger.js';
+import { SchematicFormat } from '../shared/types.js';
+
+/**
+ * Content-based format detection, and upgrading of formats the renderer and
+ * nucleation can't read (legacy .schematic, .nbt structures, Bedrock
+ * .mcstructure) into a Sponge v2 .schem.
+ */
+
+// Files without a DataVersion are assumed to target 1.20.1
+export const DEFAULT_DATA_VERSION = 3465;
+
+// Formats the renderer reads directly
+export const NATIVE_FORMATS: SchematicFormat[] = ['schem', 'litematic'];
+
+// Upgraded volumes are allocated densely, so their size comes from the file and is capped
+const MAX_GRID_DIMENSION = 4096;
+const MAX_GRID_VOLUME = 64 * 1024 * 1024;
+
+/**
+ * Dense block volume: `blocks[x + z * width + y * width * length]` indexes into `palette`,
+ * where 0 is always air
+ */
+interface BlockGrid {
+  width: number;
+  height: number;
+  length: number;
+  palette: string[];
+  blocks: Uint32Array;
+  dataVersion: number;
+}
+
+/**
+ * Which NBT layout a root compound uses (null if it isn't a schematic)
+ */
+export function detectFormatFromRoot(root: NbtCompound): SchematicFormat | null {
+  if (asCompound(root.Regions) && asCompound(root.Metadata)) return 'litematic';
+  if ('Materials' in root || (asBytes(root.Blocks) && asBytes(root.Data))) return 'schematic';
+
+  const sponge = asCompound(root.Schematic) || root;
+  if (asNumber(sponge.Width) !== undefined && (sponge.Palette || sponge.Blocks || sponge.BlockData)) return 'schem';
+
+  if (Array.isArray(root.size) && Array.isArray(root.blocks) && (root.palette || root.palettes)) return 'nbt';
+  if (asCompound(root.structure) && Array.isArray(root.size) && 'format_version' in root) return 'mcstructure';
+
+  return null;
+}
+
+/**
+ * Parse the NBT root, trying Bedrock's little-endian encoding when the Java one doesn't fit
+ */
+export function readSchematicNbt(data: Buffer): { root: NbtCompound; format: SchematicFormat } {
+  try {
+    const root = readNbt(data);
+    const format = detectFormatFromRoot(root);
+    if (format) return { root, format };
+  } catch {
+    // fall through to little-endian
+  }
+
+  let root: NbtCompound;
+  try {
+    root = readNbt(data, { littleEndian: true });
+  } catch {
+    throw new InvalidSchematicError('Unrecognised schematic format');
+  }
+  const format = detectFormatFromRoot(root);
+  if (format !== 'mcstructure') {
+    throw new InvalidSchematicError('Unrecognised schematic format');
+  }
+  return { root, format };
+}
+
+/**
+ * Schematic format of a file from its contents, regardless of extension
+ */
+export function detectSchematicFormat(data: Buffer): SchematicFormat {
+  try {
+    return readSchematicNbt(data).format;
+  } catch {
+    return 'unknown';
+  }
+}
+
+function vector(value: NbtValue | undefined): [number, number, number] {
+  const list = Array.isArray(value) ? value : [];
+  return [asNumber(list[0]) ?? 0, asNumber(list[1]) ?? 0, asNumber(list[2]) ?? 0];
+}
+
+function createGrid(width: number, height: number, length: number, dataVersion?: number): BlockGrid {
+  for (const size of [width, height, length]) {
+    if (!Number.isInteger(size) || size < 0 || size > MAX_GRID_DIMENSION) {
+      throw new InvalidSchematicError(`Schematic dimensions must be whole numbers from 0 to ${MAX_GRID_DIMENSION}`);
+    }
+  }
+  if (width * height * length > MAX_GRID_VOLUME) {
+    throw new InvalidSchematicError(`Schematic volume ${width}x${height}x${length} is over the ${MAX_GRID_VOLUME} block limit`);
+  }
+
+  return {
+    width,
+    height,
+    length,
+    palette: ['minecraft:air'],
+    blocks: new Uint32Array(width * height * length),
+    dataVersion: dataVersion ?? DEFAULT_DATA_VERSION,
+  };
+}
+
+function paletteLookup(grid: BlockGrid): (state: string) => number {
+  const indices = new Map(grid.palette.map((state, index) => [state, index]));
+  return (state) => {
+    let index = indices.get(state);
+    if (index === undefined) {
+      index = grid.palette.length;
+      grid.palette.push(state);
+      indices.set(state, index);
+    }
+    return index;
+  };
+}
+
+/**
+ * MCEdit .schematic: numeric ids (plus optional AddBlocks high nibbles) upgraded to modern names
+ */
+function readLegacyGrid(root: NbtCompound): BlockGrid {
+  const width = asNumber(root.Width) ?? 0;
+  const height = asNumber(root.Height) ?? 0;
+  const length = asNumber(root.Length) ?? 0;
+  const ids = asBytes(root.Blocks);
+  const data = asBytes(root.Data);
+  const add = asBytes(root.AddBlocks);
+  if (!ids || !data) throw new InvalidSchematicError('Legacy schematic has no block data');
+
+  const grid = createGrid(width, height, length);
+  if (ids.length < grid.blocks.length || data.length < grid.blocks.length) {
+    throw new InvalidSchematicError(
+      `Legacy schematic block data is shorter than its ${width}x${height}x${length} volume`
+    );
+  }
+  const lookup = paletteLookup(grid);
+  const unknown = new Map<number, number>();
+
+  // Legacy files use the same y/z/x ordering as Sponge, so indices carry over unchanged
+  for (let index = 0; index < grid.blocks.length; index++) {
+    let id = ids[index];
+    if (add && (index >> 1) < add.length) {
+      id |= (index & 1 ? (add[index >> 1] & 0xf0) >> 4 : add[index >> 1] & 0x0f) << 8;
+    }
+    if (id === 0) continue;
+
+    const state = fromLegacyBlock(id, data[index] & 0x0f);
+    if (!state) {
+      unknown.set(id, (unknown.get(id) || 0) + 1);
+      continue;
+    }
+    grid.blocks[index] = lookup(state);
+  }
+
+  if (unknown.size > 0) {
+    const ids = [...unknown.keys()].sort((a, b) => a - b).join(', ');
+    logger.warn(`Legacy schematic has ${unknown.size} block ids with no modern mapping (read as air): ${ids}`);
+  }
+
+  return grid;
+}
+
+function structurePaletteState(entry: NbtValue | undefined): string {
+  const compound = asCompound(entry) || {};
+  const name = typeof compound.Name === 'string' ? compound.Name : 'minecraft:air';
+  const states = asCompound(compound.Properties);
+  const properties: Record<string, string> = {};
+  for (const [key, value] of Object.entries(states || {})) {
+    properties[key] = String(value);
+  }
+  return blockKey(name, properties);
+}
+
+/**
+ * Vanilla structure block export (.nbt)
+ */
+function readStructureGrid(root: NbtCompound): BlockGrid {
+  const [width, height, length] = vector(root.size);
+  const grid = createGrid(width, height, length, asNumber(root.DataVersion));
+  const lookup = paletteLookup(grid);
+
+  // Structures with random variants store several palettes; render the first
+  const palette = Array.isArray(root.palette)
+    ? root.palette
+    : (Array.isArray(root.palettes) && Array.isArray(root.palettes[0]) ? root.palettes[0] : []);
+  const states = palette.map(entry => lookup(structurePaletteState(entry)));
+
+  for (const entry of Array.isArray(root.blocks) ? root.blocks : []) {
+    const block = asCompound(entry);
+    const [x, y, z] = vector(block?.pos);
+    const state = states[asNumber(block?.state) ?? -1];
+    // Indices outside the typed array would silently become properties on it
+    if (state === undefined || ![x, y, z].every(Number.isInteger)) continue;
+    if (x < 0 || y < 0 || z < 0 || x >= width || y >= height || z >= length) continue;
+    grid.blocks[x + z * width + y * width * length] = state;
+  }
+
+  return grid;
+}
+
+const BEDROCK_COLORED = new Set([
+  'wool', 'carpet', 'concrete', 'concrete_powder', 'stained_glass', 'stained_glass_pane', 'shulker_box',
+]);
+
+/**
+ * Bedrock names mostly match Java; colour and wood variants were states in older versions.
+ * Bedrock block states use different names from Java's, so they are dropped.
+ */
+function bedrockToJava(entry: NbtValue | undefined): string {
+  const compound = asCompound(entry) || {};
+  const name = typeof compound.name === 'string' ? compound.name.replace(/^minecraft:/, '') : 'air';
+  const states = asCompound(compound.states) || {};
+
+  const color = typeof states.color === 'string' ? states.color.replace('silver', 'light_gray') : null;
+  if (color && BEDROCK_COLORED.has(name)) return `minecraft:${color}_${name}`;
+  if (color && name === 'stained_hardened_clay') return `minecraft:${color}_terracotta`;
+  if (name === 'planks' && typeof states.wood_type === 'string') return `minecraft:${states.wood_type}_planks`;
+  if (name === 'grass') return 'minecraft:grass_block';
+
+  return `minecraft:${name}`;
+}
+
+/**
+ * Bedrock Edition structure (.mcstructure)
+ */
+function readMcstructureGrid(root: NbtCompound): BlockGrid {
+  const [width, height, length] = vector(root.size);
+  const structure = asCompound(root.structure) || {};
+  const layers = Array.isArray(structure.block_indices) ? structure.block_indices : [];
+  const indices = Array.isArray(layers[0]) ? layers[0] : [];
+  const palette = asCompound(asCompound(structure.palette)?.default)?.block_palette;
+
+  const grid = createGrid(width, height, length);
+  const lookup = paletteLookup(grid);
+  const states = (Array.isArray(palette) ? palette : []).map(entry => lookup(bedrockToJava(entry)));
+
+  // Bedrock orders blocks z-fastest, then y, then x; -1 marks structure void
+  let index = 0;
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) {
+      for (let z = 0; z < length; z++, index++) {
+        const state = states[asNumber(indices[index]) ?? -1];
+        if (state !== undefined) grid.blocks[x + z * width + y * width * length] = state;
+      }
+    }
+  }
+
+  return grid;
+}
+
+function varintLength(value: number): number {
+  let length = 1;
+  while (value >= 0x80) {
+    value >>>= 7;
+    length++;
+  }
+  return length;
+}
+
+// Writes `value` at `offset` and returns the offset after it
+function writeVarint(value: number, out: Uint8Array, offset: number): number {
+  while (value >= 0x80) {
+    out[offset++] = (value & 0x7f) | 0x80;
+    value >>>= 7;
+  }
+  out[offset++] = value;
+  return offset;
+}
+
+/**
+ * Sponge schematic v2 (.schem)
+ */
+function writeSpongeSchematic(grid: BlockGrid): Buffer {
+  // No state is longer to encode than the last palette index, which bounds the buffer
+  const blockData = new Uint8Array(grid.blocks.length * varintLength(Math.max(grid.palette.length - 1, 0)));
+  let written = 0;
+  for (const state of grid.blocks) written = writeVarint(state, blockData, written);
+
+  const palette: Record<string, NbtTag> = {};
+  grid.palette.forEach((state, index) => {
+    palette[state] = nbt.int(index);
+  });
+
+  return writeNbt({
+    Version: nbt.int(2),
+    DataVersion: nbt.int(grid.dataVersion),
+    Width: nbt.short(grid.width),
+    Height: nbt.short(grid.height),
+    Length: nbt.short(grid.length),
+    Offset: nbt.intArray([0, 0, 0]),
+    PaletteMax: nbt.int(grid.palette.length),
+    Palette: nbt.compound(palette),
+    BlockData: nbt.byteArray(blockData.subarray(0, written)),
+    BlockEntities: nbt.list('compound', []),
+  }, 'Schematic');
+}
+
+/**
+ * Sponge .schem holding the given blocks, shifted so `origin` becomes the schematic's
+ * corner. Block entities are not carried over.
+ */
+export function writeBlocksAsSchematic(
+  blocks: SchematicBlock[],
+  origin: [number, number, number],
+  size: { width: number; height: number; length: number }
+): Buffer {
+  const grid = createGrid(size.width, size.height, size.length);
+  const lookup = paletteLookup(grid);
+
+  for (const block of blocks) {
+    const x = block.x - origin[0];
+    const y = block.y - origin[1];
+    const z = block.z - origin[2];
+    if (x < 0 || y < 0 || z < 0 || x >= size.width || y >= size.height || z >= size.length) continue;
+    grid.blocks[x + z * size.width + y * size.width * size.length] = lookup(blockKey(block.name, block.properties));
+  }
+
+  return writeSpongeSchematic(grid);
+}
+
+/**
+ * Return schematic bytes the renderer and nucleation can read: .schem and .litematic
+ * pass through untouched, other supported formats are upgraded to a Sponge .schem.
+ */
+export function prepareSchematic(data: Buffer): { data: Buffer; format: SchematicFormat; upgraded: boolean } {
+  let parsed: { root: NbtCompound; format: SchematicFormat };
+  try {
+    parsed = readSchematicNbt(data);
+  } catch {
+    // Let downstream parsers produce their own error for unreadable files
+    return { data, format: 'unknown', upgraded: false };
+  }
+
+  const { root, format } = parsed;
+  if (NATIVE_FORMATS.includes(format)) {
+    return { data, format, upgraded: false };
+  }
+
+  const startTime = Date.now();
+  const grid = format === 'schematic'
+    ? readLegacyGrid(root)
+    : format === 'nbt'
+      ? readStructureGrid(root)
+      : readMcstructureGrid(root);
+
+  const upgraded = writeSpongeSchematic(grid);
+  logger.info(
+    `Upgraded ${format} (${grid.width}x${grid.height}x${grid.length}, ${grid.palette.length} states) to .schem in ${Date.now() - startTime}ms`
+  );
+  return { data: upgraded, format, upgraded: true };
+}
+
+export default {
+  detectSchematicFormat,
+  prepareSchematic,
+  writeBlocksAsSchematic,
+};
@@ -0,0 +1,294 @@
+import { spawn } from 'child_process';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { statements } from './database.js';
+import { getFile } from './storage.js';
+import { asCompound, asNumber, NbtValue } from './nbt.js';
+import { readSchematicNbt } from './schematic-formats.js';
+import type { BlockCountMessage } from './block-count-worker.js';
+import { logger } from '../shared/logger.js';
+import { SchematicFormat, SchematicMetadata } from '../shared/types.js';
+
+function asString(value: NbtValue | undefined): string | null {
+  return typeof value === 'string' && value.trim() ? value : null;
+}
+
+export type HeaderMetadata = Omit<SchematicMetadata, 'size' | 'blockCount'>;
+
+/**
+ * Read format, version, name, author and dimensions from the NBT header
+ */
+export function readSchematicHeader(data: Buffer): HeaderMetadata {
+  const { root, format } = readSchematicNbt(data);
+
+  switch (format) {
+    case 'litematic': {
+      // Litematica: everything interesting lives in the Metadata compound
+      const litematicMetadata = asCompound(root.Metadata)!;
+      const size = asCompound(litematicMetadata.EnclosingSize);
+      return {
+        format,
+        formatVersion: asNumber(root.Version) ?? null,
+        name: asString(litematicMetadata.Name),
+        author: asString(litematicMetadata.Author),
+        dimensions: size ? {
+          width: Math.abs(asNumber(size.x) ?? 0),
+          height: Math.abs(asNumber(size.y) ?? 0),
+          length: Math.abs(asNumber(size.z) ?? 0),
+        } : undefined,
+      };
+    }
+
+    case 'schem': {
+      // Sponge v3 nests everything under a Schematic compound; v1/v2 use the root
+      const sponge = asCompound(root.Schematic) || root;
+      const metadata = asCompound(sponge.Metadata);
+      const blocks = asCompound(sponge.Blocks);
+      const palette = asCompound(blocks?.Palette) || asCompound(sponge.Palette);
+      return {
+        format,
+        formatVersion: asNumber(sponge.Version) ?? null,
+        name: asString(metadata?.Name),
+        author: asString(metadata?.Author),
+        paletteSize: asNumber(sponge.PaletteMax) ?? (palette ? Object.keys(palette).length : undefined),
+        dimensions: {
+          width: asNumber(sponge.Width) ?? 0,
+          height: asNumber(sponge.Height) ?? 0,
+          length: asNumber(sponge.Length) ?? 0,
+        },
+      };
+    }
+
+    case 'schematic':
+      // Legacy MCEdit .schematic
+      return {
+        format,
+        formatVersion: null,
+        name: null,
+        author: null,
+        dimensions: {
+          width: asNumber(root.Width) ?? 0,
+          height: asNumber(root.Height) ?? 0,
+          length: asNumber(root.Length) ?? 0,
+        },
+      };
+
+    case 'nbt':
+    case 'mcstructure': {
+      // Structure files store their size as an [x, y, z] list
+      const size = Array.isArray(root.size) ? root.size : [];
+      return {
+        format,
+        formatVersion: format === 'nbt' ? asNumber(root.DataVersion) ?? null : asNumber(root.format_version) ?? null,
+        name: null,
+        author: asString(root.author),
+        dimensions: {
+          width: asNumber(size[0]) ?? 0,
+          height: asNumber(size[1]) ?? 0,
+          length: asNumber(size[2]) ?? 0,
+        },
+      };
+    }
+
+    default:
+      return { format: 'unknown', formatVersion: null, name: null, author: null };
+  }
+}
+
+// Block counting on a huge schematic can take a while; past this it is abandoned
+const BLOCK_COUNT_TIMEOUT_MS = parseInt(process.env.BLOCK_COUNT_TIMEOUT_MS || '60000');
+
+// dist/ runs compiled .js, development runs the .ts sources directly
+const BLOCK_COUNT_WORKER = fileURLToPath(new URL(`./block-count-worker${path.extname(fileURLToPath(import.meta.url))}`, import.meta.url));
+
+/**
+ * Count every non-air block state and measure the bounding box with nucleation.
+ * Runs in a killable child process: nucleation turns every block into an object,
+ * which for a large schematic would stall the server and exhaust its memory.
+ */
+async function parseBlocks(
+  data: Buffer
+): Promise<{ counts: Record<string, number>; dimensions: SchematicMetadata['dimensions'] }> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(process.execPath, [BLOCK_COUNT_WORKER], {
+      stdio: ['pipe', 'inherit', 'inherit', 'ipc'],
+    });
+
+    let settled = false;
+    const settle = (error: Error | null, message?: BlockCountMessage) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(killTimer);
+      if (error) {
+        child.kill('SIGKILL');
+        reject(error);
+      } else {
+        resolve({ counts: message!.counts!, dimensions: message!.dimensions });
+      }
+    };
+
+    const killTimer = setTimeout(
+      () => settle(new Error(`Block counting timed out after ${BLOCK_COUNT_TIMEOUT_MS}ms`)),
+      BLOCK_COUNT_TIMEOUT_MS
+    );
+
+    child.on('message', (message: BlockCountMessage) => {
+      settle(message.success ? null : new Error(message.error || 'Block counting failed'), message);
+    });
+    child.on('error', (error) => settle(error));
+    child.on('exit', (code, signal) => {
+      settle(new Error(`Block counting process exited (${signal || `code ${code}`}) without a result`));
+    });
+
+    child.stdin!.on('error', () => {});  // surfaces as an early exit instead
+    child.stdin!.end(data);
+  });
+}
+
+/**
+ * Parse a schematic once and return its metadata plus per-block-state counts
+ */
+export async function extractSchematicMetadata(
+  data: Buffer
+): Promise<{ metadata: SchematicMetadata; blockCounts: Record<string, number> | null }> {
+  let header: HeaderMetadata = { format: 'unknown', formatVersion: null, name: null, author: null };
+  try {
+    header = readSchematicHeader(data);
+  } catch (error) {
+    logger.warn('Could not read schematic NBT header:', error);
+  }
+
+  let parsed: Awaited<ReturnType<typeof parseBlocks>> | null = null;
+  try {
+    parsed = await parseBlocks(data);
+  } catch (error) {
+    logger.warn('nucleation could not parse schematic:', error);
+  }
+  const blockCounts = parsed?.counts ?? null;
+
+  return {
+    metadata: {
+      ...header,
+      size: data.length,
+      dimensions: header.dimensions ?? parsed?.dimensions,
+      blockCount: blockCounts ? Object.values(blockCounts).reduce((sum, count) => sum + count, 0) : undefined,
+      paletteSize: blockCounts ? Object.keys(blockCounts).length : header.paletteSize,
+    },
+    blockCounts,
+  };
+}
+
+/**
+ * Build metadata from a file_cache row (null if it was never extracted)
+ */
+export function metadataFromRow(row: any): SchematicMetadata | null {
+  if (!row?.metadata_extracted_at) return null;
+
+  return {
+    name: row.schematic_name,
+    author: row.schematic_author,
+    format: (row.schematic_format || 'unknown') as SchematicFormat,
+    formatVersion: row.format_version,
+    size: row.file_size,
+    dimensions: row.dimensions_x !== null ? {
+      width: row.dimensions_x,
+      height: row.dimensions_y,
+      length: row.dimensions_z,
+    } : undefined,
+    blockCount: row.block_count ?? undefined,
+    paletteSize: row.palette_size ?? undefined,
+  };
+}
+
+/**
+ * Get stored metadata for a file hash
+ */
+export function getSchematicMetadata(fileHash: string): SchematicMetadata | null {
+  return metadataFromRow(statements.getFileCache.get(fileHash));
+}
+
+/**
+ * Return stored metadata, extracting and saving it first if this file hasn't been parsed yet
+ */
+export async function ensureSchematicMetadata(fileHash: string, data: Buffer): Promise<SchematicMetadata | null> {
+  const row = statements.getFileCache.get(fileHash) as any;
+  if (!row) return null;
+
+  const stored = metadataFromRow(row);
+  if (stored) return stored;
+
+  const startTime = Date.now();
+  const { metadata, blockCounts } = await extractSchematicMetadata(data);
+
+  statements.updateFileMetadata.run(
+    metadata.blockCount ?? null,
+    metadata.dimensions?.width ?? null,
+    metadata.dimensions?.height ?? null,
+    metadata.dimensions?.length ?? null,
+    metadata.paletteSize ?? null,
+    metadata.format,
+    metadata.formatVersion,
+    metadata.name,
+    metadata.author,
+    blockCounts ? JSON.stringify(blockCounts) : null,
+    Date.now(),
+    fileHash
+  );
+
+  logger.info(
+    `Extracted metadata for ${fileHash.slice(0, 12)}: ${metadata.format}` +
+    (metadata.dimensions ? ` ${metadata.dimensions.width}x${metadata.dimensions.height}x${metadata.dimensions.length}` : '') +
+    (metadata.blockCount !== undefined ? `, ${metadata.blockCount} blocks` : '') +
+    ` in ${Date.now() - startTime}ms`
+  );
+
+  return metadata;
+}
+
+/**
+ * Per-block-state counts for a stored file, parsing it first if that never happened.
+ * Returns null for unknown files or ones nucleation could not read.
+ */
+export async function getBlockCounts(fileHash: string): Promise<Record<string, number> | null> {
+  let row = statements.getFileCache.get(fileHash) as any;
+  if (!row) return null;
+
+  if (!row.metadata_extracted_at) {
+    const data = await getFile(fileHash);
+    if (!data) return null;
+    await ensureSchematicMetadata(fileHash, data);
+    row = statements.getFileCache.get(fileHash);
+  }
+
+  return row.block_counts_json ? JSON.parse(row.block_counts_json) : null;
+}
+
+/**
+ * Response headers summarising a schematic, for endpoints that return binary renders
+ */
+export function getSchematicHeaders(metadata: SchematicMetadata | null): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (!metadata) return headers;
+
+  headers['X-Schematic-Format'] = metadata.format;
+  if (metadata.dimensions) {
+    const { width, height, length } = metadata.dimensions;
+    headers['X-Schematic-Dimensions'] = `${width}x${height}x${length}`;
+  }
+  if (metadata.blockCount !== undefined) {
+    headers['X-Schematic-Block-Count'] = String(metadata.blockCount);
+  }
+  if (metadata.paletteSize !== undefined) {
+    headers['X-Schematic-Palette-Size'] = String(metadata.paletteSize);
+  }
+  return headers;
+}
+
+export default {
+  extractSchematicMetadata,
+  ensureSchematicMetadata,
+  getSchematicMetadata,
+  getBlockCounts,
+  metadataFromRow,
+  getSchematicHeaders,
+};
@@ -0,0 +1,210 @@
+// @ts-ignore - Bun native module
+import { S3Client } from 'bun';
+import fs from 'fs/promises';
+import path from 'path';
+
+export interface StoredObject {
+  key: string;
+  size: number;
+  lastModified?: number;  // ms since epoch
+}
+
+export interface DownloadOptions {
+  filename?: string;
+  contentType?: string;
+}
+
+/**
+ * Where stored schematics and render artifacts live. Keys are content addressed
+ * (`ab/cd/<sha256>`), so every driver lays files out the same way.
+ */
+export interface StorageDriver {
+  readonly name: 'local' | 's3';
+  put(key: string, data: Buffer, contentType?: string): Promise<void>;
+  get(key: string): Promise<Buffer | null>;
+  exists(key: string): Promise<boolean>;
+  delete(key: string): Promise<void>;
+  list(): AsyncIterable<StoredObject>;
+  // Link clients can download from directly, or null to stream the file through this server
+  getDownloadUrl(key: string, options?: DownloadOptions): string | null;
+  // Human-readable location, recorded next to the key
+  describe(key: string): string;
+}
+
+/**
+ * Files under a local directory (the default: data/storage)
+ */
+export function createLocalDriver(root: string): StorageDriver {
+  const resolve = (key: string) => path.join(root, ...key.split('/'));
+
+  return {
+    name: 'local',
+
+    async put(key, data) {
+      const filePath = resolve(key);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, data);
+    },
+
+    async get(key) {
+      try {
+        return await fs.readFile(resolve(key));
+      } catch (err: any) {
+        if (err.code === 'ENOENT') return null;
+        throw err;
+      }
+    },
+
+    async exists(key) {
+      try {
+        await fs.access(resolve(key));
+        return true;
+      } catch {
+        return false;
+      }
+    },
+
+    async delete(key) {
+      await fs.rm(resolve(key), { force: true });
+    },
+
+    async *list() {
+      let entries;
+      try {
+        entries = await fs.readdir(root, { recursive: true, withFileTypes: true });
+      } catch (err: any) {
+        if (err.code === 'ENOENT') return;
+        throw err;
+      }
+      for (const entry of entries) {
+        if (!entry.isFile()) continue;
+        const filePath = path.join(entry.parentPath, entry.name);
+        const stat = await fs.stat(filePath);
+        yield {
+          key: path.relative(root, filePath).split(path.sep).join('/'),
+          size: stat.size,
+          lastModified: stat.mtimeMs,
+        };
+      }
+    },
+
+    getDownloadUrl() {
+      return null;
+    },
+
+    describe(key) {
+      return resolve(key);
+    },
+  };
+}
+
+export interface S3DriverConfig {
+  bucket: string;
+  endpoint?: string;        // for MinIO and other S3-compatible stores
+  region?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  prefix?: string;          // key prefix inside the bucket
+  presignExpires: number;   // seconds download links stay valid; 0 streams downloads through the server
+}
+
+/**
+ * Objects in an S3-compatible bucket, shared by every render node
+ */
+export function createS3Driver(config: S3DriverConfig): StorageDriver {
+  const client = new S3Client({
+    bucket: config.bucket,
+    endpoint: config.endpoint,
+    region: config.region,
+    accessKeyId: config.accessKeyId,
+    secretAccessKey: config.secretAccessKey,
+  });
+  const prefix = config.prefix ? `${config.prefix.replace(/\/+$/, '')}/` : '';
+
+  return {
+    name: 's3',
+
+    async put(key, data, contentType) {
+      await client.write(prefix + key, data, { type: contentType || 'application/octet-stream' });
+    },
+
+    async get(key) {
+      try {
+        return Buffer.from(await client.file(prefix + key).arrayBuffer());
+      } catch (err: any) {
+        if (err.code === 'NoSuchKey' || err.code === 'ENOENT') return null;
+        throw err;
+      }
+    },
+
+    async exists(key) {
+      return client.exists(prefix + key);
+    },
+
+    async delete(key) {
+      // Deleting a missing object succeeds, like fs.rm with `force`
+      await client.delete(prefix + key);
+    },
+
+    async *list() {
+      let continuationToken: string | undefined;
+      do {
+        const page = await client.list({ prefix: prefix || undefined, continuationToken });
+        for (const object of page.contents || []) {
+          yield {
+            key: object.key.slice(prefix.length),
+            size: object.size || 0,
+            lastModified: object.lastModified ? Date.parse(object.lastModified) : undefined,
+          };
+        }
+        continuationToken = page.isTruncated ? page.nextContinuationToken : undefined;
+      } while (continuationToken);
+    },
+
+    getDownloadUrl(key, options = {}) {
+      if (config.presignExpires <= 0) return null;
+      return client.presign(prefix + key, {
+        expiresIn: config.presignExpires,
+        type: options.contentType,
+        contentDisposition: options.filename ? `attachment; filename="${options.filename}"` : undefined,
+      });
+    },
+
+    describe(key) {
+      return `s3://${config.bucket}/${prefix}${key}`;
+    },
+  };
+}
+
+/**
+ * The driver picked by STORAGE_DRIVER (`local` or `s3`, configured by the S3_* variables)
+ */
+export function createStorageDriver(localRoot: string): StorageDriver {
+  const driver = (process.env.STORAGE_DRIVER || 'local').toLowerCase();
+
+  if (driver === 'local') {
+    return createLocalDriver(localRoot);
+  }
+  if (driver === 's3') {
+    if (!process.env.S3_BUCKET) {
+      throw new Error('STORAGE_DRIVER=s3 needs S3_BUCKET to be set');
+    }
+    return createS3Driver({
+      bucket: process.env.S3_BUCKET,
+      endpoint: process.env.S3_ENDPOINT || undefined,
+      region: process.env.S3_REGION || undefined,
+      accessKeyId: process.env.S3_ACCESS_KEY_ID || undefined,
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || undefined,
+      prefix: process.env.S3_PREFIX || undefined,
+      presignExpires: parseInt(process.env.S3_PRESIGN_EXPIRES || '3600'),
+    });
+  }
+
+  throw new Error(`Unknown STORAGE_DRIVER: ${driver} (expected local or s3)`);
+}
+
+export default {
+  createLocalDriver,
+  createS3Driver,
+  createStorageDriver,
+};
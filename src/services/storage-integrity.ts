@@ -0,0 +1,254 @@
+import { calculateHash, getStorageDriver, getStorageKey } from './storage.js';
+import { db, statements } from './database.js';
+import { logger } from '../shared/logger.js';
+
+// Unreferenced files younger than this may be mid-render (files are written before their rows)
+const ORPHAN_GRACE_MS = 60 * 60 * 1000;
+
+// Keys files are stored under: ab/cd/<sha256 of the contents>
+const KEY_PATTERN = /^[0-9a-f]{2}\/[0-9a-f]{2}\/([0-9a-f]{64})$/;
+
+export interface IntegrityIssue {
+  key: string;
+  size?: number;
+  references?: string[];  // schematic hashes / artifact ids pointing at the file
+}
+
+export interface IntegrityReport {
+  startedAt: number;
+  duration: number;
+  driver: string;
+  repair: boolean;
+  verifyHashes: boolean;
+  storedFiles: number;
+  storedBytes: number;
+  referencedFiles: number;
+  orphans: IntegrityIssue[];     // files no row points at
+  recentOrphans: number;         // unreferenced but too new to judge
+  missing: IntegrityIssue[];     // rows pointing at files that aren't there
+  corrupt: IntegrityIssue[];     // contents no longer match the hash in their key
+  repaired: {
+    deletedFiles: number;
+    deletedRows: number;
+    failedRenders: number;       // completed renders marked failed because their output is gone
+  } | null;
+}
+
+export interface IntegrityScanProgress {
+  startedAt: number;
+  driver: string;
+  repair: boolean;
+  verifyHashes: boolean;
+  scannedFiles: number;
+  scannedBytes: number;
+  referencedFiles: number;  // files the database expects; a rough total for the listing
+}
+
+export interface IntegrityStatus {
+  scan: IntegrityScanProgress | null;  // the scan underway, if any
+  report: IntegrityReport | null;      // the last finished scan
+  error: string | null;                // why the last scan failed, if it did
+}
+
+interface Reference {
+  schematics: string[];  // file_cache rows
+  artifacts: { id: string; renderId: string; type: string }[];
+}
+
+let currentScan: IntegrityScanProgress | null = null;
+let lastReport: IntegrityReport | null = null;
+let lastError: string | null = null;
+
+/**
+ * Every storage key the database refers to, with the rows that refer to it
+ */
+function collectReferences(): Map<string, Reference> {
+  const references = new Map<string, Reference>();
+  const get = (key: string) => {
+    let reference = references.get(key);
+    if (!reference) {
+      reference = { schematics: [], artifacts: [] };
+      references.set(key, reference);
+    }
+    return reference;
+  };
+
+  for (const row of statements.getAllFileCacheEntries.all() as any[]) {
+    get(getStorageKey(row.file_hash)).schematics.push(row.file_hash);
+  }
+  for (const row of statements.getArtifactStorageRefs.all() as any[]) {
+    get(row.storage_key).artifacts.push({ id: row.id, renderId: row.render_id, type: row.type });
+  }
+
+  return references;
+}
+
+function describeReference(reference: Reference): string[] {
+  return [...reference.schematics, ...reference.artifacts.map(artifact => artifact.id)];
+}
+
+/**
+ * Drop the rows for a file that's gone. Renders that lose their image or video
+ * are marked failed so the cache stops offering them.
+ */
+function removeReferences(key: string, reference: Reference, reason: string): { deletedRows: number; failedRenders: number } {
+  let deletedRows = 0;
+  let failedRenders = 0;
+
+  db.transaction(() => {
+    for (const fileHash of reference.schematics) {
+      deletedRows += (statements.deleteFileCache.run(fileHash) as any)?.changes || 0;
+    }
+    if (reference.artifacts.length > 0) {
+      deletedRows += (statements.deleteArtifactsByStorageKey.run(key) as any)?.changes || 0;
+    }
+    const renderIds = new Set(
+      reference.artifacts.filter(artifact => artifact.type !== 'thumbnail').map(artifact => artifact.renderId)
+    );
+    for (const renderId of renderIds) {
+      failedRenders += (statements.markRenderOutputMissing.run(reason, renderId) as any)?.changes || 0;
+    }
+  })();
+
+  return { deletedRows, failedRenders };
+}
+
+/**
+ * Compare storage against the database: files nothing refers to, rows whose file is
+ * missing and (with `verifyHashes`, which downloads every file) files whose contents
+ * don't match their hash. With `repair`, orphans older than an hour are deleted, and so
+ * are corrupt files and the rows for missing or corrupt ones.
+ */
+export async function scanStorageIntegrity(options: {
+  repair?: boolean;
+  verifyHashes?: boolean;
+} = {}): Promise<IntegrityReport> {
+  if (currentScan) {
+    throw new Error('An integrity scan is already running');
+  }
+
+  const driver = getStorageDriver();
+  const repair = options.repair ?? false;
+  const verifyHashes = options.verifyHashes ?? false;
+  const startedAt = Date.now();
+  const references = collectReferences();
+  const progress: IntegrityScanProgress = {
+    startedAt,
+    driver: driver.name,
+    repair,
+    verifyHashes,
+    scannedFiles: 0,
+    scannedBytes: 0,
+    referencedFiles: references.size,
+  };
+  currentScan = progress;
+
+  try {
+    logger.info(`Integrity scan started (${driver.name}${repair ? ', repairing' : ''}${verifyHashes ? ', verifying hashes' : ''})`);
+
+    const report: IntegrityReport = {
+      startedAt,
+      duration: 0,
+      driver: driver.name,
+      repair,
+      verifyHashes,
+      storedFiles: 0,
+      storedBytes: 0,
+      referencedFiles: references.size,
+      orphans: [],
+      recentOrphans: 0,
+      missing: [],
+      corrupt: [],
+      repaired: repair ? { deletedFiles: 0, deletedRows: 0, failedRenders: 0 } : null,
+    };
+    const applyRemoval = (result: { deletedRows: number; failedRenders: number }) => {
+      report.repaired!.deletedRows += result.deletedRows;
+      report.repaired!.failedRenders += result.failedRenders;
+    };
+
+    const seen = new Set<string>();
+    for await (const object of driver.list()) {
+      report.storedFiles++;
+      report.storedBytes += object.size;
+      progress.scannedFiles = report.storedFiles;
+      progress.scannedBytes = report.storedBytes;
+      seen.add(object.key);
+
+      const reference = references.get(object.key);
+      if (!reference) {
+        if (object.lastModified !== undefined && startedAt - object.lastModified < ORPHAN_GRACE_MS) {
+          report.recentOrphans++;
+          continue;
+        }
+        report.orphans.push({ key: object.key, size: object.size });
+        if (repair) {
+          await driver.delete(object.key);
+          report.repaired!.deletedFiles++;
+        }
+        continue;
+      }
+
+      const expectedHash = KEY_PATTERN.exec(object.key)?.[1];
+      if (!verifyHashes || !expectedHash) continue;
+
+      const data = await driver.get(object.key);
+      if (!data || calculateHash(data) === expectedHash) continue;
+
+      report.corrupt.push({ key: object.key, size: object.size, references: describeReference(reference) });
+      if (repair) {
+        await driver.delete(object.key);
+        report.repaired!.deletedFiles++;
+        applyRemoval(removeReferences(object.key, reference, 'Output failed its integrity check'));
+      }
+    }
+
+    for (const [key, reference] of references) {
+      if (seen.has(key)) continue;
+      report.missing.push({ key, references: describeReference(reference) });
+      if (repair) {
+        applyRemoval(removeReferences(key, reference, 'Output is missing from storage'));
+      }
+    }
+
+    report.duration = Date.now() - startedAt;
+    lastReport = report;
+    lastError = null;
+
+    logger.info(
+      `Integrity scan finished in ${report.duration}ms: ${report.storedFiles} files, ` +
+      `${report.orphans.length} orphaned, ${report.missing.length} missing, ${report.corrupt.length} corrupt`
+    );
+    return report;
+  } catch (error: any) {
+    lastError = error?.message || String(error);
+    throw error;
+  } finally {
+    currentScan = null;
+  }
+}
+
+/**
+ * Start a scan in the background and return its progress straight away; follow it
+ * through getIntegrityStatus. Throws if a scan is already running.
+ */
+export function startIntegrityScan(options: { repair?: boolean; verifyHashes?: boolean } = {}): IntegrityScanProgress {
+  if (currentScan) {
+    throw new Error('An integrity scan is already running');
+  }
+  const scan = scanStorageIntegrity(options);
+  scan.catch((error) => logger.error('Integrity scan failed:', error));
+  return currentScan!;
+}
+
+/**
+ * The scan underway, plus the result of the most recent one since startup
+ */
+export function getIntegrityStatus(): IntegrityStatus {
+  return { scan: currentScan, report: lastReport, error: lastError };
+}
+
+export default {
+  scanStorageIntegrity,
+  startIntegrityScan,
+  getIntegrityStatus,
+};
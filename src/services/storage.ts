@@ -3,7 +3,8 @@ import fs from 'fs/promises';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import { logger } from '../shared/logger.js';
-import { statements } from './database.js';
+import { db, statements } from './database.js';
+import { createLocalDriver, createStorageDriver, StorageDriver } from './storage-drivers.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -11,6 +12,12 @@ const __dirname = path.dirname(__filename);
 const STORAGE_ROOT = path.join(__dirname, '../../data/storage');
 const CACHE_ROOT = path.join(__dirname, '../../data/cache');
 
+// Cache budget (0 disables a limit). Least recently used schematics are evicted with their renders.
+const CACHE_MAX_SIZE_MB = parseInt(process.env.CACHE_MAX_SIZE_MB || '10240');
+const CACHE_MAX_AGE_DAYS = parseInt(process.env.CACHE_MAX_AGE_DAYS || '30');
+const CACHE_BATCH_PROTECT_DAYS = parseInt(process.env.CACHE_BATCH_PROTECT_DAYS || '7'); // Schematics in batches this recent are kept
+const CACHE_CLEANUP_INTERVAL_MINUTES = parseInt(process.env.CACHE_CLEANUP_INTERVAL_MINUTES || '60');
+
 // Ensure storage directories exist
 async function ensureDirectories() {
   await fs.mkdir(STORAGE_ROOT, { recursive: true });
@@ -19,6 +26,13 @@ async function ensureDirectories() {
 
 ensureDirectories().catch(console.error);
 
+// Schematics and artifacts go through the configured driver (STORAGE_DRIVER)
+const driver = createStorageDriver(STORAGE_ROOT);
+
+export function getStorageDriver(): StorageDriver {
+  return driver;
+}
+
 /**
  * Calculate SHA-256 hash of a buffer
  */
@@ -27,13 +41,11 @@ export function calculateHash(buffer: Buffer): string {
 }
 
 /**
- * Get storage path for a file hash
- * Creates nested directory structure: /ab/cd/abcd1234...
+ * Get the storage key for a file hash
+ * Nested like a directory structure: ab/cd/abcd1234...
  */
-function getHashPath(hash: string, type: 'storage' | 'cache' = 'storage'): string {
-  const root = type === 'storage' ? STORAGE_ROOT : CACHE_ROOT;
-  const dir = path.join(root, hash.slice(0, 2), hash.slice(2, 4));
-  return path.join(dir, hash);
+export function getStorageKey(hash: string): string {
+  return `${hash.slice(0, 2)}/${hash.slice(2, 4)}/${hash}`;
 }
 
 /**
@@ -45,13 +57,12 @@ export async function storeFile(
     originalFilename?: string;
     mimeType?: string;
   }
-): Promise<{ hash: string; path: string; size: number }> {
+): Promise<{ hash: string; key: string; size: number }> {
   const hash = calculateHash(buffer);
-  const hashPath = getHashPath(hash);
+  const key = getStorageKey(hash);
   
   // Check if file already exists
-  try {
-    await fs.access(hashPath);
+  if (await driver.exists(key)) {
     logger.info(`File already cached: ${hash}`);
     
     // Update access count
@@ -59,25 +70,20 @@ export async function storeFile(
     
     return {
       hash,
-      path: hashPath,
+      key,
       size: buffer.length,
     };
-  } catch {
-    // File doesn't exist, store it
   }
   
-  // Create directory structure
-  await fs.mkdir(path.dirname(hashPath), { recursive: true });
-  
   // Write file
-  await fs.writeFile(hashPath, buffer);
+  await driver.put(key, buffer, metadata.mimeType);
   
   // Insert into database
   statements.insertFileCache.run(
     hash,
     metadata.originalFilename || null,
     buffer.length,
-    hashPath,
+    driver.describe(key),
     metadata.mimeType || null
   );
   
@@ -85,7 +91,7 @@ export async function storeFile(
   
   return {
     hash,
-    path: hashPath,
+    key,
     size: buffer.length,
   };
 }
@@ -94,19 +100,20 @@ export async function storeFile(
  * Retrieve a file by hash
  */
 export async function getFile(hash: string): Promise<Buffer | null> {
-  const hashPath = getHashPath(hash);
-  
   try {
-    const buffer = await fs.readFile(hashPath);
-    
-    // Update access count
-    statements.updateFileAccess.run(hash);
-    
-    return buffer;
+    const buffer = await driver.get(getStorageKey(hash));
+    if (buffer) {
+      // Update access count
+      statements.updateFileAccess.run(hash);
+      return buffer;
+    }
   } catch (error) {
-    logger.warn(`File not found: ${hash}`);
+    logger.error(`Failed to read file ${hash}:`, error);
     return null;
   }
+
+  logger.warn(`File not found: ${hash}`);
+  return null;
 }
 
 /**
@@ -122,14 +129,14 @@ export async function storeArtifact(
     width?: number;
     height?: number;
   }
-): Promise<{ id: string; path: string }> {
+): Promise<{ id: string; key: string }> {
   const artifactId = `${renderId}-${artifactType}-${Date.now()}`;
-  const artifactHash = calculateHash(buffer);
-  const artifactPath = getHashPath(artifactHash);
+  const key = getStorageKey(calculateHash(buffer));
   
-  // Create directory and write file
-  await fs.mkdir(path.dirname(artifactPath), { recursive: true });
-  await fs.writeFile(artifactPath, buffer);
+  // Identical outputs share one stored file
+  if (!(await driver.exists(key))) {
+    await driver.put(key, buffer, metadata.mimeType);
+  }
   
   // Insert into database
   statements.insertArtifact.run(
@@ -137,7 +144,8 @@ export async function storeArtifact(
     renderId,
     fileHash,
     artifactType,
-    artifactPath,
+    key,
+    driver.describe(key),
     buffer.length,
     metadata.mimeType || null,
     metadata.width || null,
@@ -148,10 +156,81 @@ export async function storeArtifact(
   
   return {
     id: artifactId,
-    path: artifactPath,
+    key,
   };
 }
 
+/**
+ * Read an artifact's file (null if it's gone from storage)
+ */
+export async function readArtifact(artifact: { storage_key: string }): Promise<Buffer | null> {
+  return driver.get(artifact.storage_key);
+}
+
+/**
+ * How to hand an artifact to a client: a presigned link when the driver has one,
+ * otherwise its contents to stream through this server (null if it's gone)
+ */
+export async function getArtifactDownload(
+  artifact: { storage_key: string; mime_type?: string | null },
+  filename?: string
+): Promise<{ url: string } | { buffer: Buffer } | null> {
+  const url = driver.getDownloadUrl(artifact.storage_key, {
+    filename,
+    contentType: artifact.mime_type || undefined,
+  });
+  if (url) return { url };
+
+  const buffer = await readArtifact(artifact);
+  return buffer ? { buffer } : null;
+}
+
+/**
+ * Copy stored schematics and artifacts from the local storage directory into the
+ * configured driver, e.g. when moving to S3. Files already there are skipped, so
+ * an interrupted migration can be run again.
+ */
+export async function migrateLocalStorage(options: {
+  deleteLocal?: boolean; // Remove each local file once it has been copied
+} = {}): Promise<{ copied: number; skipped: number; missing: number }> {
+  if (driver.name === 'local') {
+    throw new Error('Storage is already local; set STORAGE_DRIVER to the target driver first');
+  }
+
+  const local = createLocalDriver(STORAGE_ROOT);
+  const files = new Map<string, string | null>();
+  for (const row of statements.getAllFileCacheEntries.all() as any[]) {
+    files.set(getStorageKey(row.file_hash), row.mime_type);
+  }
+  for (const row of statements.getAllArtifactKeys.all() as any[]) {
+    files.set(row.storage_key, row.mime_type);
+  }
+
+  let copied = 0, skipped = 0, missing = 0;
+  for (const [key, mimeType] of files) {
+    if (await driver.exists(key)) {
+      skipped++;
+    } else {
+      const data = await local.get(key);
+      if (!data) {
+        missing++;
+        continue;
+      }
+      await driver.put(key, data, mimeType || undefined);
+      copied++;
+    }
+
+    statements.updateFileCacheLocation.run(driver.describe(key), key.split('/').pop());
+    statements.updateArtifactLocation.run(driver.describe(key), key);
+    if (options.deleteLocal) {
+      await local.delete(key);
+    }
+  }
+
+  logger.info(`Storage migration to ${driver.name}: ${copied} copied, ${skipped} already there, ${missing} missing locally`);
+  return { copied, skipped, missing };
+}
+
 /**
  * Get all artifacts for a render
  */
@@ -170,13 +249,7 @@ export function getThumbnail(fileHash: string) {
  * Check if file exists in cache
  */
 export async function fileExists(hash: string): Promise<boolean> {
-  const hashPath = getHashPath(hash);
-  try {
-    await fs.access(hashPath);
-    return true;
-  } catch {
-    return false;
-  }
+  return driver.exists(getStorageKey(hash));
 }
 
 /**
@@ -186,16 +259,171 @@ export function getFileInfo(hash: string) {
   return statements.getFileCache.get(hash);
 }
 
+export interface CacheEviction {
+  fileHash: string;
+  filename: string | null;
+  bytes: number;        // schematic plus the render files no other schematic shares
+  renders: number;
+  artifacts: number;
+  lastUsed: number;     // unix seconds
+  accessCount: number;
+  reason: 'age' | 'size';
+}
+
+export interface CacheCleanupReport {
+  dryRun: boolean;
+  maxAge: number;       // seconds, 0 = no limit
+  maxSize: number;      // bytes, 0 = no limit
+  scanned: number;
+  protected: number;    // skipped: in a recent batch, queued or rendering
+  totalBytes: number;   // before cleanup
+  freedBytes: number;
+  remainingBytes: number;
+  evicted: CacheEviction[];
+}
+
+let cleanupRunning = false;
+let cleanupTimer: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * Delete a stored schematic along with its renders, artifacts and their files
+ */
+async function evictFile(fileHash: string): Promise<void> {
+  const artifacts = statements.getArtifactsByFileHash.all(fileHash) as any[];
+
+  // Rows go first, so an interrupted eviction leaves stray files rather than rows pointing at nothing
+  db.transaction(() => {
+    statements.deleteArtifactsByFileHash.run(fileHash);
+    statements.deletePerformanceMetricsByFileHash.run(fileHash);
+    statements.deleteRendersByFileHash.run(fileHash);
+    statements.deleteFileCache.run(fileHash);
+  })();
+
+  // Identical outputs share a file, so only remove the ones nothing else points at
+  for (const key of new Set(artifacts.map(artifact => artifact.storage_key as string))) {
+    const { count } = statements.countArtifactsByStorageKey.get(key) as any;
+    if (count === 0) {
+      await driver.delete(key);
+    }
+  }
+  await driver.delete(getStorageKey(fileHash));
+}
+
 /**
- * Clean up old cached files (LRU-style)
+ * Clean up old cached files (LRU-style). Schematics unused for longer than `maxAge`
+ * are evicted, then the least recently used (fewest accesses first on ties) until
+ * the schematics and their render artifacts fit in `maxSize`.
  */
 export async function cleanupCache(options: {
   maxAge?: number; // Max age in seconds
   maxSize?: number; // Max total size in bytes
-} = {}) {
-  // Implementation for cache cleanup
-  // This can be expanded based on needs
-  logger.info('Cache cleanup initiated');
+  dryRun?: boolean; // Report what would be evicted without deleting anything
+} = {}): Promise<CacheCleanupReport> {
+  const maxAge = options.maxAge ?? CACHE_MAX_AGE_DAYS * 24 * 60 * 60;
+  const maxSize = options.maxSize ?? CACHE_MAX_SIZE_MB * 1024 * 1024;
+  const dryRun = options.dryRun ?? false;
+  const now = Math.floor(Date.now() / 1000);
+
+  if (cleanupRunning && !dryRun) {
+    throw new Error('Cache cleanup is already running');
+  }
+
+  const candidates = statements.getEvictionCandidates.all() as any[];
+  const protectedRows = statements.getProtectedFileHashes.all(now - CACHE_BATCH_PROTECT_DAYS * 24 * 60 * 60) as any[];
+  const protectedHashes = new Set(protectedRows.map(row => row.file_hash as string));
+
+  // Each stored artifact file counts once, and is only freed with the last schematic using it
+  const artifactFiles = new Map<string, { size: number; users: Set<string> }>();
+  const artifactKeysByFile = new Map<string, string[]>();
+  for (const row of statements.getArtifactStorageKeys.all() as any[]) {
+    const file = artifactFiles.get(row.storage_key) ?? { size: row.file_size || 0, users: new Set<string>() };
+    file.users.add(row.file_hash);
+    artifactFiles.set(row.storage_key, file);
+
+    const keys = artifactKeysByFile.get(row.file_hash) ?? [];
+    keys.push(row.storage_key);
+    artifactKeysByFile.set(row.file_hash, keys);
+  }
+
+  const totalBytes = candidates.reduce((sum, candidate) => sum + candidate.file_size, 0) +
+    [...artifactFiles.values()].reduce((sum, file) => sum + file.size, 0);
+  let remainingBytes = totalBytes;
+  let skipped = 0;
+  const evicted: CacheEviction[] = [];
+
+  for (const candidate of candidates) {
+    const expired = maxAge > 0 && candidate.last_used < now - maxAge;
+    const overBudget = maxSize > 0 && remainingBytes > maxSize;
+    if (!expired && !overBudget) continue;
+    if (protectedHashes.has(candidate.file_hash)) {
+      skipped++;
+      continue;
+    }
+
+    let bytes = candidate.file_size;
+    for (const key of artifactKeysByFile.get(candidate.file_hash) ?? []) {
+      const file = artifactFiles.get(key)!;
+      file.users.delete(candidate.file_hash);
+      if (file.users.size === 0) bytes += file.size;
+    }
+    evicted.push({
+      fileHash: candidate.file_hash,
+      filename: candidate.original_filename,
+      bytes,
+      renders: candidate.render_count,
+      artifacts: candidate.artifact_count,
+      lastUsed: candidate.last_used,
+      accessCount: candidate.access_count,
+      reason: expired ? 'age' : 'size',
+    });
+    remainingBytes -= bytes;
+  }
+
+  if (!dryRun && evicted.length > 0) {
+    cleanupRunning = true;
+    try {
+      for (const entry of evicted) {
+        await evictFile(entry.fileHash);
+      }
+    } finally {
+      cleanupRunning = false;
+    }
+  }
+
+  const freedBytes = totalBytes - remainingBytes;
+  logger.info(
+    `Cache cleanup${dryRun ? ' (dry run)' : ''}: ${evicted.length} of ${candidates.length} schematics ` +
+    `${dryRun ? 'would be ' : ''}evicted, ${(freedBytes / 1024 / 1024).toFixed(1)} MB freed, ` +
+    `${(remainingBytes / 1024 / 1024).toFixed(1)} MB in use`
+  );
+
+  return {
+    dryRun,
+    maxAge,
+    maxSize,
+    scanned: candidates.length,
+    protected: skipped,
+    totalBytes,
+    freedBytes,
+    remainingBytes,
+    evicted,
+  };
+}
+
+/**
+ * Run cleanupCache every CACHE_CLEANUP_INTERVAL_MINUTES (0 disables it)
+ */
+export function initCacheCleanup(): void {
+  if (cleanupTimer || CACHE_CLEANUP_INTERVAL_MINUTES <= 0) return;
+
+  const run = () => {
+    if (cleanupRunning) return;
+    cleanupCache().catch(error => logger.error('Scheduled cache cleanup failed:', error));
+  };
+  cleanupTimer = setInterval(run, CACHE_CLEANUP_INTERVAL_MINUTES * 60 * 1000);
+  run();
+
+  logger.info(`✅ Cache cleanup scheduled every ${CACHE_CLEANUP_INTERVAL_MINUTES} minutes`);
 }
 
 export default {
@@ -206,7 +434,13 @@ export default {
   getThumbnail,
   fileExists,
   getFileInfo,
+  getStorageKey,
+  getStorageDriver,
+  readArtifact,
+  getArtifactDownload,
+  migrateLocalStorage,
   calculateHash,
   cleanupCache,
+  initCacheCleanup,
 };
 
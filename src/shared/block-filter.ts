@@ -0,0 +1,95 @@
+import { BlockFilter } from './types.js';
+
+/**
+ * Block groups usable in filters as `#name`. Matched against the block id without
+ * the `minecraft:` namespace.
+ */
+export const BLOCK_TAGS: Record<string, RegExp> = {
+  air: /^(air|cave_air|void_air|structure_void|barrier|light)$/,
+  glass: /(^|_)glass(_pane)?$/,
+  ores: /(_ore$|^ancient_debris$)/,
+  stone: /^(stone|cobblestone|deepslate|cobbled_deepslate|granite|diorite|andesite|tuff|calcite|netherrack|blackstone|basalt|end_stone|dirt|grass_block|gravel|sand|sandstone)$/,
+  redstone: /^(redstone_(wire|torch|wall_torch|block|lamp)|repeater|comparator|observer|(sticky_)?piston|piston_head|moving_piston|lever|.*_button|.*_pressure_plate|hopper|dropper|dispenser|target|daylight_detector|tripwire(_hook)?|note_block|.*_rail|rail|slime_block|honey_block|sculk_sensor|calibrated_sculk_sensor|crafter)$/,
+  leaves: /_leaves$/,
+  logs: /_(log|wood|stem|hyphae)$/,
+  fluids: /^(water|lava|bubble_column)$/,
+  plants: /^(short_grass|grass|tall_grass|fern|large_fern|dead_bush|vine|.*_sapling|.*_flower|dandelion|poppy|.*_tulip|.*_orchid|allium|azure_bluet|oxeye_daisy|cornflower|lily_of_the_valley|sunflower|lilac|rose_bush|peony|seagrass|tall_seagrass|kelp|kelp_plant)$/,
+};
+
+const FILTER_LISTS = ['hide', 'only', 'highlight'] as const;
+const MAX_FILTER_ENTRIES = 64;
+const ENTRY_PATTERN = /^(#[a-z_]+|(minecraft:)?[a-z0-9_*]+)$/;
+
+/**
+ * Whether a block id (`minecraft:stone`) matches a filter entry: an id, an id with
+ * `*` wildcards (`*_glass`) or a tag (`#ores`)
+ */
+export function matchesBlockPattern(name: string, pattern: string): boolean {
+  const id = name.replace(/^minecraft:/, '');
+  if (pattern.startsWith('#')) {
+    return BLOCK_TAGS[pattern.slice(1)]?.test(id) ?? false;
+  }
+  const bare = pattern.replace(/^minecraft:/, '');
+  if (!bare.includes('*')) return id === bare;
+  return new RegExp(`^${bare.split('*').join('.*')}$`).test(id);
+}
+
+export function matchesAnyBlockPattern(name: string, patterns: string[]): boolean {
+  return patterns.some(pattern => matchesBlockPattern(name, pattern));
+}
+
+/**
+ * Check a block filter from user input. Returns an error message, or null if valid.
+ */
+export function validateBlockFilter(filter: unknown): string | null {
+  if (filter === undefined) return null;
+  if (typeof filter !== 'object' || filter === null || Array.isArray(filter)) {
+    return 'filter must be an object';
+  }
+
+  const spec = filter as Record<keyof BlockFilter, unknown>;
+  for (const key of FILTER_LISTS) {
+    const list = spec[key];
+    if (list === undefined) continue;
+    if (!Array.isArray(list) || list.length > MAX_FILTER_ENTRIES) {
+      return `filter.${key} must be a list of up to ${MAX_FILTER_ENTRIES} block ids or tags`;
+    }
+    for (const entry of list) {
+      const pattern = typeof entry === 'string' ? entry.trim().toLowerCase() : '';
+      if (!ENTRY_PATTERN.test(pattern)) {
+        return `filter.${key} has an invalid entry: ${JSON.stringify(entry)}`;
+      }
+      if (pattern.startsWith('#') && !BLOCK_TAGS[pattern.slice(1)]) {
+        return `Unknown block tag ${pattern} (known: ${Object.keys(BLOCK_TAGS).map(tag => `#${tag}`).join(', ')})`;
+      }
+    }
+  }
+  if (spec.highlightStyle !== undefined && spec.highlightStyle !== 'tint' && spec.highlightStyle !== 'outline') {
+    return 'filter.highlightStyle must be tint or outline';
+  }
+  if (spec.highlightColor !== undefined && typeof spec.highlightColor !== 'string') {
+    return 'filter.highlightColor must be a color string';
+  }
+
+  return null;
+}
+
+/**
+ * Canonical form of a valid filter (trimmed, lowercase, namespace dropped, sorted, no
+ * duplicates) so equivalent filters share a render cache entry. Empty filters become undefined.
+ */
+export function normalizeBlockFilter(filter: BlockFilter | undefined): BlockFilter | undefined {
+  if (!filter) return undefined;
+
+  const normalized: BlockFilter = {};
+  for (const key of FILTER_LISTS) {
+    const entries = [...new Set((filter[key] || []).map(entry => entry.trim().toLowerCase().replace(/^minecraft:/, '')))].sort();
+    if (entries.length > 0) normalized[key] = entries;
+  }
+  if (normalized.highlight) {
+    normalized.highlightStyle = filter.highlightStyle || 'tint';
+    if (filter.highlightColor) normalized.highlightColor = filter.highlightColor;
+  }
+
+  return Object.keys(normalized).length > 0 ? normalized : undefined;
+}
@@ -0,0 +1,97 @@
+import { CameraKeyframe, CameraSpec } from './types.js';
+
+const EASINGS = ['linear', 'easeIn', 'easeOut', 'easeInOut'];
+const MAX_KEYFRAMES = 64;
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isVector3 = (value: unknown): value is [number, number, number] =>
+  Array.isArray(value) && value.length === 3 && value.every(isFiniteNumber);
+
+/**
+ * Check a camera spec from user input. Returns an error message, or null if valid.
+ */
+export function validateCameraSpec(camera: unknown): string | null {
+  if (camera === undefined) return null;
+  if (typeof camera !== 'object' || camera === null || Array.isArray(camera)) {
+    return 'camera must be an object';
+  }
+
+  const spec = camera as Record<keyof CameraSpec, unknown>;
+
+  if (spec.position !== undefined && !isVector3(spec.position)) {
+    return 'camera.position must be [x, y, z]';
+  }
+  if (spec.target !== undefined && !isVector3(spec.target)) {
+    return 'camera.target must be [x, y, z]';
+  }
+  if (spec.fov !== undefined && (!isFiniteNumber(spec.fov) || spec.fov <= 0 || spec.fov >= 180)) {
+    return 'camera.fov must be between 0 and 180 degrees';
+  }
+  if (spec.zoom !== undefined && (!isFiniteNumber(spec.zoom) || spec.zoom <= 0)) {
+    return 'camera.zoom must be a positive number';
+  }
+  if (spec.yaw !== undefined && !isFiniteNumber(spec.yaw)) {
+    return 'camera.yaw must be a number';
+  }
+  if (spec.pitch !== undefined && (!isFiniteNumber(spec.pitch) || spec.pitch < -90 || spec.pitch > 90)) {
+    return 'camera.pitch must be between -90 and 90 degrees';
+  }
+  if (spec.distance !== undefined && (!isFiniteNumber(spec.distance) || spec.distance <= 0)) {
+    return 'camera.distance must be a positive number';
+  }
+  if (spec.position !== undefined && (spec.yaw !== undefined || spec.pitch !== undefined || spec.distance !== undefined)) {
+    return 'camera.position cannot be combined with yaw/pitch/distance';
+  }
+
+  return null;
+}
+
+/**
+ * Check a keyframe camera path from user input. Returns an error message, or null if valid.
+ */
+export function validateCameraKeyframes(keyframes: unknown, duration?: number): string | null {
+  if (keyframes === undefined) return null;
+  if (!Array.isArray(keyframes)) {
+    return 'cameraKeyframes must be an array';
+  }
+  if (keyframes.length < 2 || keyframes.length > MAX_KEYFRAMES) {
+    return `cameraKeyframes needs between 2 and ${MAX_KEYFRAMES} keyframes`;
+  }
+
+  let previousTime = -Infinity;
+  for (let i = 0; i < keyframes.length; i++) {
+    const keyframe = keyframes[i] as Record<keyof CameraKeyframe, unknown>;
+    const label = `cameraKeyframes[${i}]`;
+
+    if (typeof keyframe !== 'object' || keyframe === null) {
+      return `${label} must be an object`;
+    }
+    if (!isFiniteNumber(keyframe.time) || keyframe.time < 0) {
+      return `${label}.time must be a non-negative number of seconds`;
+    }
+    if (keyframe.time <= previousTime) {
+      return `${label}.time must be later than the previous keyframe`;
+    }
+    if (duration !== undefined && keyframe.time > duration) {
+      return `${label}.time is past the end of the ${duration}s video`;
+    }
+    if (!isVector3(keyframe.position)) {
+      return `${label}.position must be [x, y, z]`;
+    }
+    if (keyframe.target !== undefined && !isVector3(keyframe.target)) {
+      return `${label}.target must be [x, y, z]`;
+    }
+    if (keyframe.fov !== undefined && (!isFiniteNumber(keyframe.fov) || keyframe.fov <= 0 || keyframe.fov >= 180)) {
+      return `${label}.fov must be between 0 and 180 degrees`;
+    }
+    if (keyframe.easing !== undefined && !EASINGS.includes(keyframe.easing as string)) {
+      return `${label}.easing must be one of ${EASINGS.join(', ')}`;
+    }
+
+    previousTime = keyframe.time;
+  }
+
+  return null;
+}
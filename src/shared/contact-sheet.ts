@@ -0,0 +1,40 @@
+import { SheetSpec, SheetView } from './types.js';
+
+export const SHEET_VIEWS: SheetView[] = ['front', 'back', 'left', 'right', 'top', 'isometric', 'perspective'];
+export const DEFAULT_SHEET_VIEWS: SheetView[] = ['front', 'right', 'top', 'isometric'];
+const MAX_SHEET_VIEWS = 9;
+
+/**
+ * Check a contact sheet spec from user input. Returns an error message, or null if valid.
+ */
+export function validateSheetSpec(sheet: unknown, layers?: unknown): string | null {
+  if (sheet === undefined) return null;
+  if (typeof sheet !== 'object' || sheet === null || Array.isArray(sheet)) {
+    return 'sheet must be an object';
+  }
+
+  const spec = sheet as Record<keyof SheetSpec, unknown>;
+  if (spec.views !== undefined) {
+    if (!Array.isArray(spec.views) || spec.views.length === 0 || spec.views.length > MAX_SHEET_VIEWS) {
+      return `sheet.views must list 1 to ${MAX_SHEET_VIEWS} views`;
+    }
+    const unknown = spec.views.find(view => !SHEET_VIEWS.includes(view));
+    if (unknown !== undefined) {
+      return `Unknown sheet view ${JSON.stringify(unknown)} (known: ${SHEET_VIEWS.join(', ')})`;
+    }
+  }
+  const viewCount = Array.isArray(spec.views) ? spec.views.length : DEFAULT_SHEET_VIEWS.length;
+  if (spec.columns !== undefined &&
+    (!Number.isInteger(spec.columns) || (spec.columns as number) < 1 || (spec.columns as number) > viewCount)) {
+    return `sheet.columns must be an integer from 1 to ${viewCount}`;
+  }
+  if (spec.labels !== undefined && typeof spec.labels !== 'boolean') {
+    return 'sheet.labels must be a boolean';
+  }
+  // Each view sets its own camera, which a layer slice would fight with
+  if (layers !== undefined) {
+    return 'sheet cannot be combined with layers';
+  }
+
+  return null;
+}
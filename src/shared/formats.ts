@@ -0,0 +1,63 @@
+import { ImageFormat, VideoFormat } from './types.js';
+
+// File extension for each output MIME type we produce
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/avif': 'avif',
+  'video/webm': 'webm',
+  'video/mp4': 'mp4',
+  'image/gif': 'gif',
+  'image/apng': 'png',
+};
+
+// Short names accepted from API clients
+const IMAGE_FORMAT_ALIASES: Record<string, ImageFormat> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  avif: 'image/avif',
+};
+
+const VIDEO_FORMAT_ALIASES: Record<string, VideoFormat> = {
+  webm: 'video/webm',
+  mp4: 'video/mp4',
+  gif: 'image/gif',
+  apng: 'image/apng',
+};
+
+export const IMAGE_FORMATS: ImageFormat[] = ['image/png', 'image/jpeg', 'image/webp', 'image/avif'];
+
+/**
+ * Resolve a user-supplied image format (`webp` or `image/webp`). Returns null if unsupported.
+ */
+export function normalizeImageFormat(format: string | undefined): ImageFormat | null {
+  if (!format) return 'image/png';
+  const value = format.trim().toLowerCase();
+  if ((IMAGE_FORMATS as string[]).includes(value)) return value as ImageFormat;
+  return IMAGE_FORMAT_ALIASES[value] || null;
+}
+
+export const VIDEO_FORMATS: VideoFormat[] = ['video/webm', 'video/mp4', 'image/gif', 'image/apng'];
+
+/**
+ * Resolve a user-supplied video format (`mp4` or `video/mp4`). Returns null if unsupported.
+ */
+export function normalizeVideoFormat(format: string | undefined): VideoFormat | null {
+  if (!format) return 'video/webm';
+  const value = format.trim().toLowerCase();
+  if ((VIDEO_FORMATS as string[]).includes(value)) return value as VideoFormat;
+  return VIDEO_FORMAT_ALIASES[value] || null;
+}
+
+// Schematic file extensions we accept; the actual format is sniffed from the contents
+export const SCHEMATIC_EXTENSIONS = ['schem', 'litematic', 'schematic', 'nbt', 'mcstructure'];
+
+/**
+ * File extension (without dot) for a MIME type
+ */
+export function getExtensionForMime(mimeType: string | null | undefined): string {
+  return (mimeType && MIME_EXTENSIONS[mimeType]) || 'bin';
+}
@@ -0,0 +1,75 @@
+import { ClipPlane, LayerRange, VideoRenderOptions } from './types.js';
+
+/**
+ * Check a layer range from user input. Returns an error message, or null if valid.
+ */
+export function validateLayerRange(layers: unknown): string | null {
+  if (layers === undefined) return null;
+  if (typeof layers !== 'object' || layers === null || Array.isArray(layers)) {
+    return 'layers must be an object';
+  }
+
+  const range = layers as Record<keyof LayerRange, unknown>;
+  if (!Number.isInteger(range.from) || (range.from as number) < 0) {
+    return 'layers.from must be a non-negative integer';
+  }
+  if (range.to !== undefined && (!Number.isInteger(range.to) || (range.to as number) < (range.from as number))) {
+    return 'layers.to must be an integer no lower than layers.from';
+  }
+
+  return null;
+}
+
+/**
+ * Check the build timelapse options of a video request. Returns an error message, or null if valid.
+ */
+export function validateBuildAnimation(options: Partial<Record<keyof VideoRenderOptions, unknown>>): string | null {
+  if (options.animation !== undefined && options.animation !== 'build') {
+    return 'animation must be "build"';
+  }
+  if (options.layersPerSecond !== undefined &&
+    (typeof options.layersPerSecond !== 'number' || !(options.layersPerSecond > 0))) {
+    return 'layersPerSecond must be a positive number';
+  }
+  if (options.holdSeconds !== undefined &&
+    (typeof options.holdSeconds !== 'number' || !(options.holdSeconds >= 0) || options.holdSeconds > 30)) {
+    return 'holdSeconds must be between 0 and 30';
+  }
+
+  return null;
+}
+
+/**
+ * Check a cutaway plane from user input. Returns an error message, or null if valid.
+ */
+export function validateClipPlane(clip: unknown): string | null {
+  if (clip === undefined) return null;
+  if (typeof clip !== 'object' || clip === null || Array.isArray(clip)) {
+    return 'clip must be an object';
+  }
+
+  const plane = clip as Record<keyof ClipPlane, unknown>;
+  if (plane.axis !== undefined && plane.axis !== 'x' && plane.axis !== 'y' && plane.axis !== 'z') {
+    return 'clip.axis must be x, y or z';
+  }
+  if (plane.normal !== undefined) {
+    const normal = plane.normal;
+    if (!Array.isArray(normal) || normal.length !== 3 || !normal.every(value => typeof value === 'number' && Number.isFinite(value))) {
+      return 'clip.normal must be [x, y, z]';
+    }
+    if (normal.every(value => value === 0)) {
+      return 'clip.normal must not be zero';
+    }
+  }
+  if (plane.position !== undefined && (typeof plane.position !== 'number' || !Number.isFinite(plane.position))) {
+    return 'clip.position must be a number';
+  }
+  if (plane.keep !== undefined && plane.keep !== 'negative' && plane.keep !== 'positive') {
+    return 'clip.keep must be negative or positive';
+  }
+  if (plane.capColor !== undefined && typeof plane.capColor !== 'string') {
+    return 'clip.capColor must be a color string';
+  }
+
+  return null;
+}
@@ -0,0 +1,39 @@
+import { validateCameraKeyframes, validateCameraSpec } from './camera.js';
+import { validateBuildAnimation, validateClipPlane, validateLayerRange } from './layers.js';
+import { validateBlockFilter } from './block-filter.js';
+import { validateSheetSpec } from './contact-sheet.js';
+
+/**
+ * Check the options of a render request from user input, whichever route it came
+ * through. Returns the first error message, or null if valid.
+ */
+export function validateRenderOptions(options: Record<string, any>, type: 'image' | 'video' = 'image'): string | null {
+  // Variant lists, diffs and highlights are built by the server (see processRenderVariants,
+  // processDiffRender and the block filter), never taken from a request
+  if (options.variants !== undefined) {
+    return 'variants cannot be set in render options';
+  }
+  if (options.diff !== undefined) {
+    return 'diff cannot be set in render options; upload both versions to /api/diff';
+  }
+  if (options.highlights !== undefined) {
+    return 'highlights cannot be set in render options; use filter.highlight';
+  }
+
+  if (type === 'video') {
+    return validateCameraSpec(options.camera) ||
+      validateCameraKeyframes(options.cameraKeyframes, options.duration) ||
+      validateBuildAnimation(options);
+  }
+
+  if (options.quality !== undefined &&
+    (typeof options.quality !== 'number' || !(options.quality >= 0) || options.quality > 1)) {
+    return 'quality must be between 0 and 1';
+  }
+
+  return validateCameraSpec(options.camera) ||
+    validateLayerRange(options.layers) ||
+    validateClipPlane(options.clip) ||
+    validateBlockFilter(options.filter) ||
+    validateSheetSpec(options.sheet, options.layers);
+}
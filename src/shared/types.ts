@@ -1,37 +1,169 @@
+/**
+ * Explicit camera placement. Either give `position` (and optionally `target`),
+ * or place the camera around the target with `yaw`/`pitch`/`distance`.
+ * Anything left out keeps the auto-framed value.
+ */
+export interface CameraSpec {
+  position?: [number, number, number];
+  target?: [number, number, number];  // defaults to the center of the schematic
+  fov?: number;       // vertical field of view in degrees (perspective)
+  zoom?: number;      // camera zoom factor (orthographic/isometric)
+  yaw?: number;       // degrees around the Y axis; 0 looks from +Z (south), 90 from +X (east)
+  pitch?: number;     // degrees above the horizon
+  distance?: number;  // blocks from the target
+}
+
+/**
+ * A point on a user-defined video camera path. The camera is interpolated
+ * between consecutive keyframes, easing into each one.
+ */
+export interface CameraKeyframe {
+  time: number;       // seconds from the start of the video
+  position: [number, number, number];
+  target?: [number, number, number];  // defaults to the center of the schematic
+  fov?: number;       // degrees (perspective)
+  easing?: 'linear' | 'easeIn' | 'easeOut' | 'easeInOut';  // default easeInOut
+}
+
+/**
+ * Translucent tint drawn over a set of blocks, in the schematic's block coordinates
+ */
+export interface BlockHighlight {
+  color: string;        // CSS color
+  opacity: number;      // 0-1
+  positions: number[];  // flat list: x0, y0, z0, x1, y1, z1, ...
+  style?: 'fill' | 'outline';  // default fill
+}
+
+/**
+ * Render the schematic as a diff against an earlier version of it
+ */
+export interface DiffSpec {
+  against: string;            // file hash of the earlier version
+  align?: 'origin' | 'none';  // origin (default) lines up both bounding boxes' minimum corners
+}
+
+export interface SchematicDiffStats {
+  added: number;
+  removed: number;
+  changed: number;     // same position, different block or block states
+  unchanged: number;
+  oldBlocks: number;   // non-air blocks in each version
+  newBlocks: number;
+  addedBlocks: Record<string, number>;    // block id -> count
+  removedBlocks: Record<string, number>;
+}
+
+/**
+ * Horizontal slice of a schematic. Layers are counted from its lowest block row (0)
+ * and both ends are inclusive.
+ */
+export interface LayerRange {
+  from: number;
+  to?: number;  // defaults to `from` (a single layer)
+}
+
+/**
+ * Cutaway plane through a schematic. The plane is perpendicular to `axis` (or an
+ * arbitrary `normal`) and sits `position` blocks from the schematic's center along it.
+ */
+export interface ClipPlane {
+  axis?: 'x' | 'y' | 'z';             // default x
+  normal?: [number, number, number];  // overrides axis
+  position?: number;                  // blocks from the center (default 0, the mid-plane)
+  keep?: 'negative' | 'positive';     // side of the plane that stays (default negative)
+  capColor?: string;                  // fill the cut faces with this color (default: left open)
+}
+
+/**
+ * Which blocks to draw. Entries are block ids (`stone`, `minecraft:stone`), ids with
+ * `*` wildcards (`*_glass`) or tags (`#ores`, see BLOCK_TAGS).
+ */
+export interface BlockFilter {
+  hide?: string[];       // removed from the render
+  only?: string[];       // everything else is removed
+  highlight?: string[];  // marked, with every other block ghosted
+  highlightStyle?: 'tint' | 'outline';  // default tint
+  highlightColor?: string;              // CSS color (default yellow)
+}
+
+export type SheetView = 'front' | 'back' | 'left' | 'right' | 'top' | 'isometric' | 'perspective';
+
+/**
+ * Several views of one schematic tiled into a single image. The render's width
+ * and height are the size of the whole sheet.
+ */
+export interface SheetSpec {
+  views?: SheetView[];  // default front, right, top, isometric
+  columns?: number;     // default: as square a grid as fits the views
+  labels?: boolean;     // view names on each panel (default true)
+}
+
+export type ImageFormat = 'image/png' | 'image/jpeg' | 'image/webp' | 'image/avif';
+
+export type VideoFormat = 'video/webm' | 'video/mp4' | 'image/gif' | 'image/apng';
+
 export interface RenderOptions {
   width?: number;
   height?: number;
-  format?: 'image/png' | 'image/jpeg';
-  quality?: number;
+  format?: ImageFormat;
+  quality?: number;  // 0-1, for jpeg/webp/avif
   autoFrame?: boolean;
   isometric?: boolean;
   background?: string;  // hex color or 'transparent'
   framing?: 'tight' | 'medium' | 'wide';
   cameraPath?: 'circular' | 'orbit' | 'static' | 'cinematic';
   rotation?: number; // degrees
+  camera?: CameraSpec;
+  diff?: DiffSpec;
+  highlights?: BlockHighlight[];
+  layers?: LayerRange;  // top-down orthographic slice
+  grid?: boolean;       // block grid and coordinates over layer slices (default true)
+  clip?: ClipPlane;     // cutaway; the camera looks at the cut unless `camera` says otherwise
+  filter?: BlockFilter;
+  sheet?: SheetSpec;    // contact sheet of several views instead of a single one
 }
 
+/**
+ * What may differ between renders that share one loaded scene (see processRenderVariants)
+ */
+export type RenderVariant = Pick<RenderOptions, 'background' | 'isometric' | 'rotation' | 'framing' | 'width' | 'height' | 'camera' | 'layers' | 'grid'>;
+
 
 export interface VideoRenderOptions {
   duration?: number;
   width?: number;
   height?: number;
   frameRate?: number;
+  format?: VideoFormat;
+  maxFileSize?: number;  // bytes; gif/apng are shrunk until they fit (default 10MB)
   isometric?: boolean;
   background?: string;  // hex color or 'transparent'
   framing?: 'tight' | 'medium' | 'wide';
   cameraPath?: 'circular' | 'orbit' | 'static' | 'cinematic';
   rotation?: number; // degrees
+  camera?: CameraSpec;
+  cameraKeyframes?: CameraKeyframe[];  // overrides cameraPath
+  animation?: 'build';      // build timelapse: layers appear bottom-to-top while the camera moves
+  layersPerSecond?: number; // build speed; sets the duration (default: fit the build into `duration`)
+  holdSeconds?: number;     // time on the finished build at the end (default 0)
 }
 
+export type SchematicFormat = 'schem' | 'litematic' | 'schematic' | 'nbt' | 'mcstructure' | 'unknown';
+
 export interface SchematicMetadata {
-  name: string;
-  size: number;
+  name: string | null;     // name embedded in the file
+  author: string | null;
+  format: SchematicFormat; // schem = Sponge, schematic = legacy MCEdit
+  formatVersion: number | null;
+  size: number;            // file size in bytes
   dimensions?: {
     width: number;
     height: number;
     length: number;
   };
+  blockCount?: number;     // non-air blocks
+  paletteSize?: number;    // distinct block states
 }
 
 export interface RenderResult {
@@ -1,3 +1,5 @@
+import { CameraKeyframe, CameraSpec, VideoFormat } from "./shared/types.js";
+
 export interface Window {
 	schematicRendererInitialized: boolean;
 	THREE: any;
@@ -9,13 +11,20 @@ export interface Window {
 			width: number;
 			height: number;
 			format: "image/png" | "image/jpeg";
+			camera?: CameraSpec;
 		}) => Promise<Blob>;
 		startVideoRecording: (options?: {
 				duration?: number;
 				width?: number;
 				height?: number;
 				frameRate?: number;
+				cameraPath?: "circular" | "orbit" | "static" | "cinematic";
+				camera?: CameraSpec;
+				cameraKeyframes?: CameraKeyframe[];
+				format?: VideoFormat;
+				maxFileSize?: number;
 			}) => Promise<Blob>;
+		clearScene: () => Promise<void>;
 	};
 }
 
@@ -0,0 +1,87 @@
+import { describe, expect, test } from 'bun:test';
+import { canonicalizeRenderOptions, hashRenderOptions } from '../src/services/render-options.js';
+import { RenderOptions } from '../src/shared/types.js';
+
+describe('hashRenderOptions', () => {
+  test('matches options that differ only in defaults', () => {
+    const base = hashRenderOptions('image', {});
+    expect(hashRenderOptions('image', { width: 1920, height: 1080, format: 'image/png' })).toBe(base);
+    expect(hashRenderOptions('image', { framing: 'medium', isometric: false })).toBe(base);
+    expect(hashRenderOptions('image', { rotation: 0 })).toBe(base);
+    expect(hashRenderOptions('image', { rotation: 360 })).toBe(base);
+  });
+
+  test('ignores key order, format aliases, rounding noise and background case', () => {
+    expect(hashRenderOptions('image', { width: 800, height: 600, format: 'jpg' } as any))
+      .toBe(hashRenderOptions('image', { format: 'image/jpeg', height: 600, width: 800.2 }));
+    expect(hashRenderOptions('image', { background: ' #FFFFFF ' }))
+      .toBe(hashRenderOptions('image', { background: '#ffffff' }));
+    expect(hashRenderOptions('image', { rotation: -90 })).toBe(hashRenderOptions('image', { rotation: 270 }));
+  });
+
+  test('fills in the encoder quality and drops it for png', () => {
+    expect(hashRenderOptions('image', { format: 'image/png', quality: 0.5 }))
+      .toBe(hashRenderOptions('image', { format: 'image/png' }));
+    expect(hashRenderOptions('image', { format: 'image/jpeg' }))
+      .toBe(hashRenderOptions('image', { format: 'image/jpeg', quality: 0.9 }));
+    expect(hashRenderOptions('image', { format: 'image/jpeg', quality: 0.8 }))
+      .not.toBe(hashRenderOptions('image', { format: 'image/jpeg', quality: 0.9 }));
+  });
+
+  test('drops fields the render type does not read', () => {
+    expect(hashRenderOptions('image', { duration: 10, frameRate: 60 } as any)).toBe(hashRenderOptions('image', {}));
+    expect(hashRenderOptions('image', { grid: false })).toBe(hashRenderOptions('image', {}));
+    expect(hashRenderOptions('video', { quality: 0.5, sheet: { views: [] } } as any)).toBe(hashRenderOptions('video', {}));
+    expect(hashRenderOptions('video', { holdSeconds: 3 })).toBe(hashRenderOptions('video', {}));
+  });
+
+  test('normalizes block filters', () => {
+    expect(hashRenderOptions('image', { filter: { hide: ['minecraft:Stone', 'dirt', 'stone'] } }))
+      .toBe(hashRenderOptions('image', { filter: { hide: ['dirt', 'stone'] } }));
+    expect(hashRenderOptions('image', { filter: { hide: [] } })).toBe(hashRenderOptions('image', {}));
+  });
+
+  test('fills in video defaults', () => {
+    expect(hashRenderOptions('video', {}))
+      .toBe(hashRenderOptions('video', { format: 'webm', duration: 6, frameRate: 30, cameraPath: 'circular' } as any));
+    expect(hashRenderOptions('video', { format: 'gif' } as any))
+      .toBe(hashRenderOptions('video', { format: 'image/gif', maxFileSize: 10 * 1024 * 1024 }));
+    expect(hashRenderOptions('video', { maxFileSize: 1024 })).toBe(hashRenderOptions('video', {}));
+  });
+
+  test('separates renders that differ', () => {
+    const hashes = new Set([
+      hashRenderOptions('image', {}),
+      hashRenderOptions('video', {}),
+      hashRenderOptions('image', { width: 1280 }),
+      hashRenderOptions('image', { isometric: true }),
+      hashRenderOptions('image', { framing: 'tight' }),
+      hashRenderOptions('image', { rotation: 90 }),
+      hashRenderOptions('image', { format: 'image/webp' }),
+      hashRenderOptions('image', { layers: { from: 3 } }),
+      hashRenderOptions('image', { layers: { from: 3 }, grid: false }),
+      hashRenderOptions('video', { duration: 12 }),
+    ]);
+    expect(hashes.size).toBe(10);
+  });
+});
+
+describe('canonicalizeRenderOptions', () => {
+  test('sorts keys and drops empty values at every level', () => {
+    const canonical = canonicalizeRenderOptions('image', {
+      layers: { to: 5, from: 2 },
+      width: 100,
+      background: undefined,
+    }) as RenderOptions;
+
+    expect(Object.keys(canonical)).toEqual([...Object.keys(canonical)].sort());
+    expect(Object.keys(canonical.layers!)).toEqual(['from', 'to']);
+    expect('background' in canonical).toBe(false);
+    expect(canonical).toMatchObject({ width: 100, height: 1080, format: 'image/png', framing: 'medium', grid: true });
+  });
+
+  test('defaults a single layer range to one layer', () => {
+    const canonical = canonicalizeRenderOptions('image', { layers: { from: 4 } }) as RenderOptions;
+    expect(canonical.layers).toEqual({ from: 4, to: 4 });
+  });
+});
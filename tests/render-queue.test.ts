@@ -0,0 +1,70 @@
+import { describe, expect, test } from 'bun:test';
+import { enqueueRenderJob, initRenderQueue, registerJobExecutor, RenderPriority } from '../src/services/render-queue.js';
+
+// tests/setup.ts allows one running job, so jobs start one at a time in pick order
+const started: string[] = [];
+const pending = new Map<string, () => void>();
+
+registerJobExecutor((job) => {
+  started.push(job.render_id);
+  return new Promise((resolve) => {
+    pending.set(job.render_id, () => resolve({ renderId: job.render_id }));
+  });
+});
+
+function enqueue(renderId: string, userId: string, priority: RenderPriority = 'api') {
+  return enqueueRenderJob({
+    renderId,
+    type: 'image',
+    priority,
+    fileHash: `hash-${renderId}`,
+    options: {},
+    userId,
+  }, Buffer.alloc(0)).result;
+}
+
+// Finish the running job and wait for the queue to start the next one
+async function finish(renderId: string): Promise<void> {
+  pending.get(renderId)!();
+  pending.delete(renderId);
+  await new Promise(resolve => setTimeout(resolve, 0));
+}
+
+describe('render queue', () => {
+  test('takes turns between users with queued jobs', async () => {
+    const results = [enqueue('a1', 'alice'), enqueue('a2', 'alice'), enqueue('b1', 'bob'), enqueue('b2', 'bob')];
+    expect(started).toEqual([]);
+
+    initRenderQueue();
+    for (const renderId of ['a1', 'b1', 'a2', 'b2']) {
+      expect(started.at(-1)).toBe(renderId);
+      await finish(renderId);
+    }
+
+    expect(await Promise.all(results)).toEqual(['a1', 'a2', 'b1', 'b2'].map(renderId => ({ renderId })));
+  });
+
+  test('serves more urgent priorities first', async () => {
+    started.length = 0;
+    const blocker = enqueue('blocker', 'carol', 'batch');
+    expect(started).toEqual(['blocker']);
+
+    const results = [
+      enqueue('batch', 'dave', 'batch'),
+      enqueue('api', 'erin', 'api'),
+      enqueue('interactive', 'frank', 'interactive'),
+    ];
+    await finish('blocker');
+    await blocker;
+
+    for (const renderId of ['interactive', 'api']) {
+      expect(started.at(-1)).toBe(renderId);
+      await finish(renderId);
+    }
+    expect(started.at(-1)).toBe('batch');
+    await finish('batch');
+
+    expect(started).toEqual(['blocker', 'interactive', 'api', 'batch']);
+    await Promise.all(results);
+  });
+});
@@ -0,0 +1,202 @@
+import { describe, expect, test } from 'bun:test';
+import zlib from 'zlib';
+import { asBytes, asCompound, asNumber, nbt, NbtCompound, NbtTag, readNbt, writeNbt } from '../src/services/nbt.js';
+import type { SchematicBlock } from '../src/services/nucleation.js';
+import { InvalidSchematicError } from '../src/services/schematic-errors.js';
+import { detectSchematicFormat, prepareSchematic, writeBlocksAsSchematic } from '../src/services/schematic-formats.js';
+
+// Block states of a Sponge .schem in y/z/x order, decoded from its varint BlockData
+function readSpongeBlocks(data: Buffer): { root: NbtCompound; states: string[] } {
+  const root = readNbt(data);
+  const palette = Object.entries(asCompound(root.Palette) || {});
+  const names = new Map(palette.map(([state, index]) => [asNumber(index), state]));
+  const bytes = asBytes(root.BlockData)!;
+
+  const states: string[] = [];
+  let offset = 0;
+  while (offset < bytes.length) {
+    let value = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      byte = bytes[offset++];
+      value |= (byte & 0x7f) << shift;
+      shift += 7;
+    } while (byte & 0x80);
+    states.push(names.get(value)!);
+  }
+  return { root, states };
+}
+
+function legacySchematic(width: number, height: number, length: number, ids: number[], data: number[]): Buffer {
+  return writeNbt({
+    Width: nbt.short(width),
+    Height: nbt.short(height),
+    Length: nbt.short(length),
+    Materials: nbt.string('Alpha'),
+    Blocks: nbt.byteArray(Uint8Array.from(ids)),
+    Data: nbt.byteArray(Uint8Array.from(data)),
+  }, 'Schematic');
+}
+
+function structure(size: [number, number, number], blocks: { pos: number[]; state: number }[]): Buffer {
+  return writeNbt({
+    DataVersion: nbt.int(3465),
+    size: nbt.list('int', size.map(nbt.int)),
+    palette: nbt.list('compound', [
+      nbt.compound({ Name: nbt.string('minecraft:stone') }),
+      nbt.compound({
+        Name: nbt.string('minecraft:oak_log'),
+        Properties: nbt.compound({ axis: nbt.string('y') }),
+      }),
+    ]),
+    blocks: nbt.list('compound', blocks.map(block => nbt.compound({
+      pos: nbt.list('int', block.pos.map(nbt.int)),
+      state: nbt.int(block.state),
+    }))),
+  });
+}
+
+describe('nbt', () => {
+  test('reads back what it writes', () => {
+    const root: Record<string, NbtTag> = {
+      byte: nbt.byte(-3),
+      short: nbt.short(-1234),
+      int: nbt.int(2 ** 31 - 1),
+      string: nbt.string('minecraft:stone ✓'),
+      bytes: nbt.byteArray(Uint8Array.from([0, 127, 128, 255])),
+      ints: nbt.intArray([1, 2, 3]),
+      list: nbt.list('short', [nbt.short(1), nbt.short(2)]),
+      empty: nbt.list('compound', []),
+      nested: nbt.compound({ inner: nbt.compound({ value: nbt.int(7) }) }),
+    };
+
+    const read = readNbt(writeNbt(root, 'Root'));
+    expect(read.byte).toBe(-3);
+    expect(read.short).toBe(-1234);
+    expect(read.int).toBe(2 ** 31 - 1);
+    expect(read.string).toBe('minecraft:stone ✓');
+    expect([...asBytes(read.bytes)!]).toEqual([0, 127, 128, 255]);
+    // Int arrays are skipped, keeping only their length
+    expect(read.ints).toEqual({ arrayLength: 3 });
+    expect(read.list).toEqual([1, 2]);
+    expect(read.empty).toEqual([]);
+    expect(asCompound(asCompound(read.nested)?.inner)?.value).toBe(7);
+  });
+
+  test('reads uncompressed files', () => {
+    const raw = zlib.gunzipSync(writeNbt({ value: nbt.int(42) }));
+    expect(readNbt(raw).value).toBe(42);
+  });
+});
+
+describe('detectSchematicFormat', () => {
+  test('recognises each layout from its contents', () => {
+    const sponge = writeNbt({
+      Version: nbt.int(2),
+      Width: nbt.short(1),
+      Height: nbt.short(1),
+      Length: nbt.short(1),
+      Palette: nbt.compound({ 'minecraft:air': nbt.int(0) }),
+      BlockData: nbt.byteArray(Uint8Array.from([0])),
+    }, 'Schematic');
+    const sponge3 = writeNbt({
+      Schematic: nbt.compound({
+        Version: nbt.int(3),
+        Width: nbt.short(1),
+        Height: nbt.short(1),
+        Length: nbt.short(1),
+        Blocks: nbt.compound({}),
+      }),
+    });
+    const litematic = writeNbt({ Metadata: nbt.compound({}), Regions: nbt.compound({}) });
+
+    expect(detectSchematicFormat(sponge)).toBe('schem');
+    expect(detectSchematicFormat(sponge3)).toBe('schem');
+    expect(detectSchematicFormat(litematic)).toBe('litematic');
+    expect(detectSchematicFormat(legacySchematic(1, 1, 1, [1], [0]))).toBe('schematic');
+    expect(detectSchematicFormat(structure([1, 1, 1], []))).toBe('nbt');
+  });
+
+  test('reports unknown for other NBT and non-NBT files', () => {
+    expect(detectSchematicFormat(writeNbt({ level: nbt.compound({}) }))).toBe('unknown');
+    expect(detectSchematicFormat(Buffer.from('not a schematic'))).toBe('unknown');
+    expect(detectSchematicFormat(Buffer.alloc(0))).toBe('unknown');
+  });
+});
+
+describe('prepareSchematic', () => {
+  test('passes native formats through untouched', () => {
+    const litematic = writeNbt({ Metadata: nbt.compound({}), Regions: nbt.compound({}) });
+    const prepared = prepareSchematic(litematic);
+    expect(prepared).toEqual({ data: litematic, format: 'litematic', upgraded: false });
+  });
+
+  test('upgrades legacy schematics to .schem in the same block order', () => {
+    // 2x1x2: stone, air, red wool, granite
+    const prepared = prepareSchematic(legacySchematic(2, 1, 2, [1, 0, 35, 1], [0, 0, 14, 1]));
+    expect(prepared.format).toBe('schematic');
+    expect(prepared.upgraded).toBe(true);
+    expect(detectSchematicFormat(prepared.data)).toBe('schem');
+
+    const { root, states } = readSpongeBlocks(prepared.data);
+    expect([root.Width, root.Height, root.Length]).toEqual([2, 1, 2]);
+    expect(states).toEqual(['minecraft:stone', 'minecraft:air', 'minecraft:red_wool', 'minecraft:granite']);
+  });
+
+  test('rejects legacy block data shorter than the volume', () => {
+    expect(() => prepareSchematic(legacySchematic(2, 2, 2, [1, 1], [0, 0]))).toThrow(InvalidSchematicError);
+  });
+
+  test('rejects volumes over the grid limit', () => {
+    expect(() => prepareSchematic(structure([4096, 4096, 4096], []))).toThrow(InvalidSchematicError);
+    expect(() => prepareSchematic(structure([5000, 1, 1], []))).toThrow(InvalidSchematicError);
+  });
+
+  test('places structure blocks and skips positions outside the volume', () => {
+    const prepared = prepareSchematic(structure([2, 2, 1], [
+      { pos: [0, 0, 0], state: 0 },
+      { pos: [1, 1, 0], state: 1 },
+      { pos: [-1, 0, 0], state: 1 },
+      { pos: [0, -1, 0], state: 1 },
+      { pos: [2, 0, 0], state: 1 },
+      { pos: [0, 0, 0], state: 5 },
+    ]));
+    expect(prepared.format).toBe('nbt');
+
+    const { states } = readSpongeBlocks(prepared.data);
+    expect(states).toEqual(['minecraft:stone', 'minecraft:air', 'minecraft:air', 'minecraft:oak_log[axis=y]']);
+  });
+});
+
+describe('writeBlocksAsSchematic', () => {
+  test('round-trips palettes that need multi-byte varints', () => {
+    // 300 distinct states push palette indices past one varint byte
+    const blocks: SchematicBlock[] = Array.from({ length: 300 }, (_, i) => ({
+      x: 10 + (i % 20),
+      y: 64 + Math.floor(i / 20),
+      z: 5,
+      name: `minecraft:test_${i}`,
+      properties: i % 2 ? { powered: 'true', facing: 'north' } : undefined,
+    }));
+
+    const data = writeBlocksAsSchematic(blocks, [10, 64, 5], { width: 20, height: 15, length: 1 });
+    const { root, states } = readSpongeBlocks(data);
+
+    expect([root.Width, root.Height, root.Length]).toEqual([20, 15, 1]);
+    expect(root.PaletteMax).toBe(301);
+    expect(states).toEqual(blocks.map((block, i) =>
+      i % 2 ? `${block.name}[facing=north,powered=true]` : block.name
+    ));
+  });
+
+  test('drops blocks outside the requested box', () => {
+    const data = writeBlocksAsSchematic([
+      { x: 0, y: 0, z: 0, name: 'minecraft:stone' },
+      { x: 1, y: 0, z: 0, name: 'minecraft:dirt' },
+      { x: -1, y: 0, z: 0, name: 'minecraft:dirt' },
+    ], [0, 0, 0], { width: 1, height: 1, length: 1 });
+
+    expect(readSpongeBlocks(data).states).toEqual(['minecraft:stone']);
+  });
+});
@@ -0,0 +1,4 @@
+// Tests run against a throwaway in-memory database and a single render slot
+process.env.DATABASE_PATH = ':memory:';
+process.env.MAX_CONCURRENT_RENDERS = '1';
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'error';